@@ -0,0 +1,32 @@
+import { readFile } from "node:fs/promises";
+import type { QaReport, QaSummary } from "@mapqc/shared";
+
+function isReport(value: unknown): value is QaReport {
+  const report = value as QaReport;
+  return (
+    !!report &&
+    typeof report.fileName === "string" &&
+    !!report.metadata &&
+    Array.isArray(report.results)
+  );
+}
+
+export async function loadSummary(path: string): Promise<QaSummary> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Cannot read report ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const summary: QaSummary = Array.isArray(parsed)
+    ? { reports: parsed }
+    : isReport(parsed)
+      ? { reports: [parsed] }
+      : (parsed as QaSummary);
+
+  if (!summary || !Array.isArray(summary.reports) || !summary.reports.every(isReport)) {
+    throw new Error(`${path} is not a MapQC summary_report.json or *_report.json file`);
+  }
+  return summary;
+}
@@ -0,0 +1,162 @@
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { threadId } from "node:worker_threads";
+import { QaCheckId, REPORT_SCHEMA_VERSION, isCheckEnabled } from "@mapqc/shared";
+import type { QaReport, RasterThumbnail, RunConfig, TileEdges } from "@mapqc/shared";
+import type { RunContext } from "./context.js";
+import { hashFile, hashText } from "./hash.js";
+import { findSidecars } from "./sidecars.js";
+import { CLI_VERSION } from "./version.js";
+
+export const DEFAULT_CACHE_DIR = ".mapqc-cache";
+
+export interface CacheKey {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  sha256: string | null;
+  settings: string;
+  sidecars: Record<string, { size: number; mtimeMs: number }>;
+}
+
+export interface CachedReport {
+  report: QaReport;
+  sha256: string | null;
+}
+
+interface CacheEntry {
+  key: CacheKey;
+  report: QaReport;
+  sha256?: string | null;
+  edges?: Omit<TileEdges, "top" | "bottom" | "left" | "right"> & Record<"top" | "bottom" | "left" | "right", string>;
+  thumbnail?: Omit<RasterThumbnail, "values"> & { values: string };
+}
+
+function encodeFloats(values: Float32Array): string {
+  return Buffer.from(values.buffer, values.byteOffset, values.byteLength).toString("base64");
+}
+
+function decodeFloats(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === "number" && !Number.isFinite(value) ? { $number: String(value) } : value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === "object" && "$number" in value) return Number((value as { $number: string }).$number);
+  return value;
+}
+
+export function cacheSettings(config: RunConfig): string {
+  return hashText(JSON.stringify({
+    cli: CLI_VERSION,
+    schema: REPORT_SCHEMA_VERSION,
+    profile: config.profile ?? null,
+    profileVersion: config.profile?.version ?? null,
+    sidecars: config.sidecars,
+    histogramBins: config.histogramBins ?? null,
+  }));
+}
+
+function entryPath(cache: NonNullable<RunConfig["cache"]>, filePath: string): string {
+  return join(cache.dir, `${hashText(resolve(filePath)).slice(0, 32)}.json`);
+}
+
+export async function computeCacheKey(config: RunConfig, filePath: string): Promise<CacheKey> {
+  const info = await stat(filePath);
+  const sidecars: CacheKey["sidecars"] = {};
+  for (const [type, path] of Object.entries(await findSidecars(filePath))) {
+    const sidecar = await stat(path);
+    sidecars[type] = { size: sidecar.size, mtimeMs: sidecar.mtimeMs };
+  }
+  return {
+    path: resolve(filePath),
+    size: info.size,
+    mtimeMs: info.mtimeMs,
+    sha256: config.cache?.hashContents ? await hashFile(filePath) : null,
+    settings: cacheSettings(config),
+    sidecars,
+  };
+}
+
+function keysMatch(cached: CacheKey, key: CacheKey): boolean {
+  const sameContent = key.sha256 !== null && cached.sha256 !== null
+    ? cached.sha256 === key.sha256
+    : cached.mtimeMs === key.mtimeMs;
+  return (
+    cached.path === key.path &&
+    cached.size === key.size &&
+    sameContent &&
+    cached.settings === key.settings &&
+    JSON.stringify(cached.sidecars) === JSON.stringify(key.sidecars)
+  );
+}
+
+export async function loadCachedReport(ctx: RunContext, filePath: string, key: CacheKey): Promise<CachedReport | null> {
+  const { cache, profile, thumbnails } = ctx.config;
+  if (!cache) return null;
+
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(await readFile(entryPath(cache, filePath), "utf-8"), reviver);
+  } catch {
+    return null;
+  }
+  if (!entry.key || !keysMatch(entry.key, key) || entry.report?.schemaVersion !== REPORT_SCHEMA_VERSION) return null;
+
+  const decoded = entry.report.statistics !== undefined;
+  if (decoded && isCheckEnabled(QaCheckId.EDGE_SEAMS, profile) && !entry.edges) return null;
+  if (decoded && thumbnails && !entry.thumbnail) return null;
+
+  const { fileId } = entry.report;
+  if (entry.edges) {
+    const { width, height, top, bottom, left, right } = entry.edges;
+    ctx.tileEdges.set(fileId, {
+      width,
+      height,
+      top: decodeFloats(top),
+      bottom: decodeFloats(bottom),
+      left: decodeFloats(left),
+      right: decodeFloats(right),
+    });
+  }
+  if (entry.thumbnail && thumbnails) {
+    ctx.thumbnails.set(fileId, { ...entry.thumbnail, values: decodeFloats(entry.thumbnail.values) });
+  }
+  return { report: entry.report, sha256: entry.sha256 ?? entry.key.sha256 };
+}
+
+export async function saveCachedReport(
+  ctx: RunContext,
+  filePath: string,
+  key: CacheKey,
+  report: QaReport,
+  sha256: string | null
+): Promise<void> {
+  const { cache } = ctx.config;
+  if (!cache) return;
+
+  const entry: CacheEntry = { key, report, sha256 };
+  const edges = ctx.tileEdges.get(report.fileId);
+  if (edges) {
+    entry.edges = {
+      width: edges.width,
+      height: edges.height,
+      top: encodeFloats(edges.top),
+      bottom: encodeFloats(edges.bottom),
+      left: encodeFloats(edges.left),
+      right: encodeFloats(edges.right),
+    };
+  }
+  const thumbnail = ctx.thumbnails.get(report.fileId);
+  if (thumbnail) entry.thumbnail = { ...thumbnail, values: encodeFloats(thumbnail.values) };
+
+  await mkdir(cache.dir, { recursive: true });
+  const target = entryPath(cache, filePath);
+  const temp = `${target}.${process.pid}-${threadId}.tmp`;
+  await writeFile(temp, JSON.stringify(entry, replacer), "utf-8");
+  await rename(temp, target);
+}
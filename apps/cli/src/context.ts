@@ -1,5 +1,5 @@
 import { randomUUID } from "node:crypto";
-import type { RunConfig } from "@mapqc/shared";
+import type { RasterThumbnail, RunConfig, TileEdges } from "@mapqc/shared";
 import { Logger, type LoggerOptions } from "./logger.js";
 
 export class RunContext {
@@ -7,12 +7,25 @@ export class RunContext {
   readonly config: RunConfig;
   readonly logger: Logger;
   readonly startTime: number;
+  readonly tileEdges: Map<string, TileEdges>;
+  readonly thumbnails: Map<string, RasterThumbnail>;
+  readonly artifacts: Set<string>;
+  readonly loggerOptions: LoggerOptions;
 
-  constructor(config: RunConfig, loggerOptions?: LoggerOptions) {
+  constructor(config: RunConfig, loggerOptions: LoggerOptions = {}) {
     this.runId = randomUUID();
     this.config = config;
+    this.loggerOptions = loggerOptions;
     this.logger = new Logger(loggerOptions);
     this.startTime = Date.now();
+    this.tileEdges = new Map();
+    this.thumbnails = new Map();
+    this.artifacts = new Set();
+  }
+
+  recordArtifact(path: string): string {
+    this.artifacts.add(path);
+    return path;
   }
 
   elapsed(): number {
@@ -1,22 +1,29 @@
 import { readFile } from "node:fs/promises";
-import { fromArrayBuffer } from "geotiff";
-import type { GeoTiffMetadata } from "@mapqc/shared";
+import { fromArrayBuffer, fromFile } from "geotiff";
+import type { GeoTIFFImage } from "geotiff";
+import {
+  compressionName,
+  geoKeyCrs,
+  geoKeyCrsWkt,
+  geoKeyRasterType,
+  geoKeyVerticalCrs,
+  geoKeyVerticalUnits,
+  geoTransformExtent,
+  geoTransformPixelSize,
+  geoTransformRotation,
+  readTiffStructure,
+  tiffGeoTransform,
+  tiffOverviews,
+} from "@mapqc/shared";
+import type { GeoTiffMetadata, TiffStructure } from "@mapqc/shared";
+import type { RasterSource } from "./rasterSource.js";
 
 export interface GeoTiffData {
   metadata: GeoTiffMetadata;
   elevations: Float32Array;
 }
 
-export async function loadGeoTiff(filePath: string): Promise<GeoTiffData> {
-  const buffer = await readFile(filePath);
-  const arrayBuffer = buffer.buffer.slice(
-    buffer.byteOffset,
-    buffer.byteOffset + buffer.byteLength
-  );
-
-  const tiff = await fromArrayBuffer(arrayBuffer);
-  const image = await tiff.getImage();
-
+function readMetadata(image: GeoTIFFImage, structure: TiffStructure, format: string): GeoTiffMetadata {
   const width = image.getWidth();
   const height = image.getHeight();
   const bandCount = image.getSamplesPerPixel();
@@ -29,38 +36,83 @@ export async function loadGeoTiff(filePath: string): Promise<GeoTiffData> {
     ? parseFloat(fileDirectory.GDAL_NODATA)
     : null;
 
-  const bbox = image.getBoundingBox();
-  const origin: [number, number] = [bbox[0], bbox[3]];
-  const pixelSizeX = (bbox[2] - bbox[0]) / width;
-  const pixelSizeY = (bbox[3] - bbox[1]) / height;
-
   const geoKeys = image.geoKeys ?? {};
-  let crs: string | null = null;
-  if (geoKeys.ProjectedCSTypeGeoKey) {
-    crs = `EPSG:${geoKeys.ProjectedCSTypeGeoKey}`;
-  } else if (geoKeys.GeographicTypeGeoKey) {
-    crs = `EPSG:${geoKeys.GeographicTypeGeoKey}`;
-  }
-
-  const rasters = await image.readRasters();
-  const firstBand = rasters[0] as ArrayLike<number>;
-  const elevations = new Float32Array(firstBand.length);
-  for (let i = 0; i < firstBand.length; i++) {
-    elevations[i] = firstBand[i];
-  }
+  const rasterType = geoKeyRasterType(geoKeys);
+  const geoTransform = tiffGeoTransform(fileDirectory, rasterType);
+  if (!geoTransform) throw new Error("The image does not have an affine transformation.");
 
-  const metadata: GeoTiffMetadata = {
+  return {
     width,
     height,
     bandCount,
     bitsPerSample,
     sampleFormat,
     noDataValue,
-    origin,
-    pixelSize: { x: pixelSizeX, y: pixelSizeY },
-    extent: { minX: bbox[0], minY: bbox[1], maxX: bbox[2], maxY: bbox[3] },
-    crs,
+    origin: [geoTransform[0], geoTransform[3]],
+    pixelSize: geoTransformPixelSize(geoTransform),
+    extent: geoTransformExtent(geoTransform, width, height),
+    crs: geoKeyCrs(geoKeys),
+    crsWkt: geoKeyCrsWkt(geoKeys),
+    format,
+    geoTransform,
+    rotation: geoTransformRotation(geoTransform),
+    rasterType,
+    verticalCrs: geoKeyVerticalCrs(geoKeys),
+    verticalUnits: geoKeyVerticalUnits(geoKeys),
+    compression: compressionName(fileDirectory.Compression),
+    tiling: { tiled: image.isTiled, blockWidth: image.getTileWidth(), blockHeight: image.getTileHeight() },
+    overviews: tiffOverviews(structure),
   };
+}
+
+function toFloat32(band: ArrayLike<number>): Float32Array {
+  const elevations = new Float32Array(band.length);
+  for (let i = 0; i < band.length; i++) {
+    elevations[i] = band[i];
+  }
+  return elevations;
+}
+
+export async function openGeoTiff(filePath: string, format = "GeoTIFF", band = 0): Promise<RasterSource> {
+  const tiff = await fromFile(filePath);
+  try {
+    const image = await tiff.getImage();
+    const structure = await readTiffStructure(tiff);
+    const metadata = readMetadata(image, structure, format);
+
+    return {
+      metadata,
+      structure,
+      blockHeight: image.getTileHeight(),
+      bytesPerPixel: image.getSampleByteSize(band),
+      async readRows(startRow, endRow) {
+        const rasters = await image.readRasters({
+          window: [0, startRow, metadata.width, endRow],
+          samples: [band],
+        });
+        return toFloat32(rasters[0] as ArrayLike<number>);
+      },
+      close() {
+        tiff.close();
+      },
+    };
+  } catch (err) {
+    tiff.close();
+    throw err;
+  }
+}
+
+export async function loadGeoTiff(filePath: string, format = "GeoTIFF"): Promise<GeoTiffData> {
+  const buffer = await readFile(filePath);
+  const arrayBuffer = buffer.buffer.slice(
+    buffer.byteOffset,
+    buffer.byteOffset + buffer.byteLength
+  );
+
+  const tiff = await fromArrayBuffer(arrayBuffer);
+  const image = await tiff.getImage();
+  const metadata = readMetadata(image, await readTiffStructure(tiff), format);
+  const rasters = await image.readRasters();
 
-  return { metadata, elevations };
+  return { metadata, elevations: toFloat32(rasters[0] as ArrayLike<number>) };
 }
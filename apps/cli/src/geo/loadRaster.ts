@@ -0,0 +1,74 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import {
+  FORMATS,
+  detectFormat,
+  parseDted,
+  parseLas,
+  parseNetcdf,
+  parseUsgsDem,
+  parseXyz,
+} from "@mapqc/shared";
+import type { FormatId, FormatInfo, LazPerfModule, ParsedRaster } from "@mapqc/shared";
+import { loadGeoTiff, openGeoTiff } from "./loadGeoTiff.js";
+import { createMemorySource, type RasterSource } from "./rasterSource.js";
+
+const IMAGE_DECODING_FORMATS: FormatId[] = ["worldfile"];
+
+export const SCANNABLE_EXTENSIONS = FORMATS
+  .filter((f) => f.supported && !IMAGE_DECODING_FORMATS.includes(f.id))
+  .flatMap((f) => f.extensions);
+
+async function loadLazPerf(): Promise<LazPerfModule> {
+  const { createLazPerf } = await import("laz-perf");
+  return createLazPerf();
+}
+
+export function isGeoTiffFormat(id: FormatId): boolean {
+  return id === "geotiff" || id === "cog" || id === "erdas";
+}
+
+export function scannableFormat(fileName: string): FormatInfo {
+  const format = detectFormat(fileName);
+  if (!format.supported || IMAGE_DECODING_FORMATS.includes(format.id)) {
+    throw new Error(`${format.name} files cannot be scanned by the CLI: ${fileName}`);
+  }
+  return format;
+}
+
+async function parseRaster(filePath: string, formatId: FormatId): Promise<ParsedRaster> {
+  const fileName = basename(filePath);
+  const file = await readFile(filePath);
+  const buffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+
+  switch (formatId) {
+    case "xyz":
+      return parseXyz(buffer);
+    case "usgsdem":
+      return parseUsgsDem(buffer);
+    case "dted":
+      return parseDted(buffer, fileName);
+    case "netcdf":
+      return parseNetcdf(buffer);
+    case "las":
+      return parseLas(buffer, { loadLazPerf });
+    default:
+      throw new Error(`Unsupported format: ${fileName}`);
+  }
+}
+
+export async function openRaster(filePath: string): Promise<RasterSource> {
+  const format = scannableFormat(basename(filePath));
+  if (isGeoTiffFormat(format.id)) {
+    return openGeoTiff(filePath, format.name);
+  }
+  return createMemorySource(await parseRaster(filePath, format.id));
+}
+
+export async function loadRaster(filePath: string): Promise<ParsedRaster> {
+  const format = scannableFormat(basename(filePath));
+  if (isGeoTiffFormat(format.id)) {
+    return loadGeoTiff(filePath, format.name);
+  }
+  return parseRaster(filePath, format.id);
+}
@@ -0,0 +1,48 @@
+import { feedRows } from "@mapqc/shared";
+import type { GeoTiffMetadata, ParsedRaster, RasterRowSink, TiffStructure } from "@mapqc/shared";
+
+export const DEFAULT_MAX_MEMORY_MB = 1024;
+
+export interface RasterSource {
+  metadata: GeoTiffMetadata;
+  structure?: TiffStructure;
+  blockHeight: number;
+  bytesPerPixel: number;
+  readRows(startRow: number, endRow: number): Promise<ArrayLike<number>>;
+  close(): void;
+}
+
+export function createMemorySource(raster: ParsedRaster): RasterSource {
+  const { metadata, elevations } = raster;
+  return {
+    metadata,
+    blockHeight: metadata.height,
+    bytesPerPixel: 4,
+    async readRows(startRow, endRow) {
+      return elevations.subarray(startRow * metadata.width, endRow * metadata.width);
+    },
+    close() {},
+  };
+}
+
+export function rowsPerRead(source: RasterSource, maxMemoryMb: number): number {
+  const { width, height } = source.metadata;
+  const rowBytes = width * (source.bytesPerPixel + 4);
+  const budgetRows = Math.floor((maxMemoryMb * 1024 * 1024) / Math.max(rowBytes, 1));
+  if (budgetRows >= height) return height;
+
+  const block = Math.max(1, Math.min(source.blockHeight, height));
+  return Math.max(block, Math.floor(budgetRows / block) * block);
+}
+
+export async function readRasterRows(
+  source: RasterSource,
+  rowsPerBlock: number,
+  sinks: RasterRowSink<unknown>[]
+): Promise<void> {
+  const { width, height } = source.metadata;
+  for (let startRow = 0; startRow < height; startRow += rowsPerBlock) {
+    const block = await source.readRows(startRow, Math.min(startRow + rowsPerBlock, height));
+    for (const sink of sinks) feedRows(sink, block, width, startRow);
+  }
+}
@@ -0,0 +1,89 @@
+import { createNoDataTest } from "@mapqc/shared";
+import type { GeoTiffMetadata, RasterRowSink, RasterThumbnail } from "@mapqc/shared";
+
+export const THUMBNAIL_SIZE = 160;
+
+const METRES_PER_DEGREE = 111320;
+
+function isGeographic(meta: GeoTiffMetadata): boolean {
+  const { minX, minY, maxX, maxY } = meta.extent;
+  return meta.crs === "EPSG:4326" || (minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90 && Math.abs(meta.pixelSize.x) < 1);
+}
+
+export function createThumbnailSink(
+  meta: GeoTiffMetadata,
+  maxSize = THUMBNAIL_SIZE
+): RasterRowSink<RasterThumbnail> {
+  const step = Math.max(1, Math.ceil(Math.max(meta.width, meta.height) / maxSize));
+  const width = Math.ceil(meta.width / step);
+  const height = Math.ceil(meta.height / step);
+  const values = new Float32Array(width * height).fill(NaN);
+  const isNoData = createNoDataTest(meta.noDataValue);
+
+  let cellSizeX = Math.abs(meta.pixelSize.x) * step;
+  let cellSizeY = Math.abs(meta.pixelSize.y) * step;
+  if (isGeographic(meta)) {
+    const latitude = ((meta.extent.minY + meta.extent.maxY) / 2) * (Math.PI / 180);
+    cellSizeX *= METRES_PER_DEGREE * Math.cos(latitude);
+    cellSizeY *= METRES_PER_DEGREE;
+  }
+
+  return {
+    addRow(row, rowIndex) {
+      if (rowIndex % step !== 0) return;
+      const offset = (rowIndex / step) * width;
+      for (let col = 0; col < width; col++) {
+        const v = row[col * step];
+        values[offset + col] = isNoData(v) || !Number.isFinite(v) ? NaN : v;
+      }
+    },
+    finish() {
+      return { width, height, cellSizeX: cellSizeX || 1, cellSizeY: cellSizeY || 1, values };
+    },
+  };
+}
+
+export function hillshade(thumbnail: RasterThumbnail, azimuth = 315, altitude = 45): Uint8Array {
+  const { width, height, cellSizeX, cellSizeY, values } = thumbnail;
+  const zenith = ((90 - altitude) * Math.PI) / 180;
+  const azimuthRad = ((360 - azimuth + 90) * Math.PI) / 180;
+  const rgba = new Uint8Array(width * height * 4);
+
+  const at = (row: number, col: number, fallback: number) => {
+    const r = Math.min(height - 1, Math.max(0, row));
+    const c = Math.min(width - 1, Math.max(0, col));
+    const v = values[r * width + c];
+    return Number.isNaN(v) ? fallback : v;
+  };
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const z = values[i];
+      if (Number.isNaN(z)) continue;
+
+      const a = at(row - 1, col - 1, z);
+      const b = at(row - 1, col, z);
+      const c = at(row - 1, col + 1, z);
+      const d = at(row, col - 1, z);
+      const f = at(row, col + 1, z);
+      const g = at(row + 1, col - 1, z);
+      const h = at(row + 1, col, z);
+      const k = at(row + 1, col + 1, z);
+
+      const dzdx = (c + 2 * f + k - (a + 2 * d + g)) / (8 * cellSizeX);
+      const dzdy = (g + 2 * h + k - (a + 2 * b + c)) / (8 * cellSizeY);
+      const slope = Math.atan(Math.hypot(dzdx, dzdy));
+      const aspect = Math.atan2(dzdy, -dzdx);
+      const shade = Math.cos(zenith) * Math.cos(slope)
+        + Math.sin(zenith) * Math.sin(slope) * Math.cos(azimuthRad - aspect);
+      const gray = Math.round(255 * Math.max(0, shade));
+
+      rgba[i * 4] = gray;
+      rgba[i * 4 + 1] = gray;
+      rgba[i * 4 + 2] = gray;
+      rgba[i * 4 + 3] = 255;
+    }
+  }
+  return rgba;
+}
@@ -0,0 +1,170 @@
+import { fromFile, globals } from "geotiff";
+import type { GeoTIFFImage } from "geotiff";
+import { COMPRESSION_NAMES, PREDICTOR_NAMES } from "@mapqc/shared";
+
+const GEO_KEY_LOCATIONS: Record<number, string> = {
+  0: "SHORT",
+  34736: "GeoDoubleParams",
+  34737: "GeoAsciiParams",
+};
+
+const BLOCK_ARRAY_TAGS = ["TileOffsets", "TileByteCounts", "StripOffsets", "StripByteCounts"];
+const MAX_LISTED_VALUES = 16;
+
+export type TagValue = string | number | number[];
+
+export interface CodedValue {
+  code: number;
+  name: string;
+}
+
+export interface BlockLayout {
+  tiled: boolean;
+  blockWidth: number;
+  blockHeight: number;
+  blocksAcross: number;
+  blocksDown: number;
+  blockCount: number;
+}
+
+export interface GeoKeyEntry {
+  id: number;
+  name: string;
+  location: string;
+  count: number;
+  value: unknown;
+}
+
+export interface TiffImageInfo {
+  index: number;
+  width: number;
+  height: number;
+  subfileType: number;
+  layout: BlockLayout;
+  compression: CodedValue;
+}
+
+export interface TiffInfo {
+  bigTiff: boolean;
+  littleEndian: boolean;
+  layout: BlockLayout;
+  compression: CodedValue;
+  predictor: CodedValue;
+  interleave: "pixel" | "band";
+  overviews: TiffImageInfo[];
+  masks: TiffImageInfo[];
+  geoKeyDirectory: { version: string; keys: GeoKeyEntry[] } | null;
+  gdalMetadata: string | null;
+  tags: Record<string, TagValue>;
+}
+
+function coded(code: number | undefined, names: Record<number, string>, fallback: number): CodedValue {
+  const value = code ?? fallback;
+  return { code: value, name: names[value] ?? `Unknown (${value})` };
+}
+
+function blockLayout(image: GeoTIFFImage): BlockLayout {
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const blockWidth = image.getTileWidth();
+  const blockHeight = image.getTileHeight();
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const blocksDown = Math.ceil(height / blockHeight);
+  return {
+    tiled: image.isTiled,
+    blockWidth,
+    blockHeight,
+    blocksAcross,
+    blocksDown,
+    blockCount: blocksAcross * blocksDown,
+  };
+}
+
+function tagValue(name: string, value: unknown): TagValue {
+  if (typeof value === "string") return value.replace(/\0+$/, "");
+  if (typeof value === "number") return value;
+  if (ArrayBuffer.isView(value) || Array.isArray(value)) {
+    const values = Array.from(value as ArrayLike<number>);
+    if (BLOCK_ARRAY_TAGS.includes(name) || values.length > MAX_LISTED_VALUES) {
+      return `[${values.length} values]`;
+    }
+    return values;
+  }
+  return String(value);
+}
+
+function readGeoKeyDirectory(image: GeoTIFFImage): TiffInfo["geoKeyDirectory"] {
+  const directory = image.fileDirectory.GeoKeyDirectory as ArrayLike<number> | undefined;
+  if (!directory || directory.length < 4) return null;
+
+  const names = globals.geoKeyNames as Record<number, string>;
+  const values = (image.geoKeys ?? {}) as Record<string, unknown>;
+  const keys: GeoKeyEntry[] = [];
+  for (let i = 0; i < directory[3]; i++) {
+    const offset = 4 + i * 4;
+    if (offset + 3 >= directory.length) break;
+    const id = directory[offset];
+    const name = names[id] ?? `GeoKey${id}`;
+    const location = directory[offset + 1];
+    keys.push({
+      id,
+      name,
+      location: GEO_KEY_LOCATIONS[location] ?? String(location),
+      count: directory[offset + 2],
+      value: values[name] ?? (location === 0 ? directory[offset + 3] : null),
+    });
+  }
+  return { version: `${directory[0]}.${directory[1]}.${directory[2]}`, keys };
+}
+
+function imageInfo(image: GeoTIFFImage, index: number): TiffImageInfo {
+  return {
+    index,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    subfileType: (image.fileDirectory.NewSubfileType as number | undefined) ?? 0,
+    layout: blockLayout(image),
+    compression: coded(image.fileDirectory.Compression as number | undefined, COMPRESSION_NAMES, 1),
+  };
+}
+
+export async function readTiffInfo(filePath: string): Promise<TiffInfo> {
+  const tiff = await fromFile(filePath);
+  try {
+    const image = await tiff.getImage();
+    const directory = image.fileDirectory as Record<string, unknown>;
+
+    const overviews: TiffImageInfo[] = [];
+    const masks: TiffImageInfo[] = [];
+    const count = await tiff.getImageCount();
+    for (let i = 1; i < count; i++) {
+      const info = imageInfo(await tiff.getImage(i), i);
+      if (info.subfileType & 4) masks.push(info);
+      else overviews.push(info);
+    }
+
+    const tags: Record<string, TagValue> = {};
+    for (const [name, value] of Object.entries(directory)) {
+      if (name === "GDAL_METADATA") continue;
+      tags[name] = tagValue(name, value);
+    }
+
+    return {
+      bigTiff: tiff.bigTiff,
+      littleEndian: tiff.littleEndian,
+      layout: blockLayout(image),
+      compression: coded(directory.Compression as number | undefined, COMPRESSION_NAMES, 1),
+      predictor: coded(directory.Predictor as number | undefined, PREDICTOR_NAMES, 1),
+      interleave: directory.PlanarConfiguration === 2 ? "band" : "pixel",
+      overviews,
+      masks,
+      geoKeyDirectory: readGeoKeyDirectory(image),
+      gdalMetadata: typeof directory.GDAL_METADATA === "string"
+        ? directory.GDAL_METADATA.replace(/\0+$/, "").trim()
+        : null,
+      tags,
+    };
+  } finally {
+    tiff.close();
+  }
+}
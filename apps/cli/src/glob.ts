@@ -0,0 +1,55 @@
+function escapeRegExp(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? `\\${char}` : char;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const slashAfter = pattern[i + 2] === "/";
+        source += slashAfter ? "(?:.*/)?" : ".*";
+        i += slashAfter ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob "${pattern}": unclosed brace`);
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const target = pattern.includes("/")
+    ? relativePath
+    : relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  return globToRegExp(pattern.replace(/^\.\//, "")).test(target);
+}
@@ -1,8 +1,44 @@
 export { RunContext, createRunContext } from "./context.js";
 export { Logger } from "./logger.js";
-export type { LogLevel, LoggerOptions } from "./logger.js";
-export { scanDirectory, processFile } from "./scanner.js";
+export type { LogLevel, LoggerOptions, LogEntry } from "./logger.js";
+export { scanDirectory, processFile, toRelativePath } from "./scanner.js";
+export type { ProcessedFile } from "./scanner.js";
+export { processFiles } from "./pool.js";
+export { REPORT_FORMATS, runBatch, writeFileReports, writeSummaryReports } from "./output.js";
+export { DEFAULT_WATCH_INTERVAL_MS, DEFAULT_SETTLE_MS, watchDirectory } from "./watch.js";
+export type { WatchOptions, WatchEvent, WatchEventType } from "./watch.js";
+export type { WorkerTask, WorkerResult } from "./pool.js";
 export { writeJsonReport, writeSummaryReport } from "./reporters/jsonReporter.js";
 export { writePdfReport, writeSummaryPdf } from "./reporters/pdfReporter.js";
-export { loadGeoTiff } from "./geo/loadGeoTiff.js";
+export { reportsToHtml, writeHtmlReport } from "./reporters/htmlReporter.js";
+export { writeDiffReport } from "./reporters/diffReporter.js";
+export { reportsToJunit, writeJunitReport } from "./reporters/junitReporter.js";
+export { reportsToSarif, writeSarifReport } from "./reporters/sarifReporter.js";
+export { checkSidecars, findSidecars, extractEpsgFromWkt } from "./sidecars.js";
+export type { SidecarType, SidecarFinding } from "./sidecars.js";
+export { loadProfile, loadAoi, withAoi } from "./profile.js";
+export { loadSummary } from "./baseline.js";
+export { hashFile, hashText } from "./hash.js";
+export { DEFAULT_CACHE_DIR, cacheSettings, computeCacheKey, loadCachedReport, saveCachedReport } from "./cache.js";
+export type { CacheKey, CachedReport } from "./cache.js";
+export { hashInputs, buildManifest, writeManifest } from "./manifest.js";
+export type { ManifestOptions } from "./manifest.js";
+export { loadGeoTiff, openGeoTiff } from "./geo/loadGeoTiff.js";
 export type { GeoTiffData } from "./geo/loadGeoTiff.js";
+export { loadRaster, openRaster, SCANNABLE_EXTENSIONS } from "./geo/loadRaster.js";
+export {
+  DEFAULT_MAX_MEMORY_MB,
+  createMemorySource,
+  rowsPerRead,
+  readRasterRows,
+} from "./geo/rasterSource.js";
+export type { RasterSource } from "./geo/rasterSource.js";
+export { THUMBNAIL_SIZE, createThumbnailSink, hillshade } from "./geo/thumbnail.js";
+export { encodePng } from "./reporters/png.js";
+export { ExitCode, FAIL_ON_MODES, evaluateRun, formatOutcome } from "./outcome.js";
+export type { FailOn, RunOutcome } from "./outcome.js";
+export { CLI_VERSION } from "./version.js";
+export { describeRaster, formatInfo, dataTypeName } from "./info.js";
+export type { BandInfo, RasterInfo, DescribeOptions } from "./info.js";
+export { readTiffInfo } from "./geo/tiffInfo.js";
+export type { TiffInfo, TiffImageInfo, BlockLayout, GeoKeyEntry, CodedValue, TagValue } from "./geo/tiffInfo.js";
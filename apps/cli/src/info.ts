@@ -0,0 +1,215 @@
+import { stat } from "node:fs/promises";
+import { basename } from "node:path";
+import { VERTICAL_UNIT_NAMES, createStatisticsSink, geoTransformPoint, verticalCrsLabel } from "@mapqc/shared";
+import type { GeoTiffMetadata, RasterHistogram, RasterStatistics } from "@mapqc/shared";
+import { openGeoTiff } from "./geo/loadGeoTiff.js";
+import { isGeoTiffFormat, openRaster, scannableFormat } from "./geo/loadRaster.js";
+import { DEFAULT_MAX_MEMORY_MB, readRasterRows, rowsPerRead, type RasterSource } from "./geo/rasterSource.js";
+import { readTiffInfo, type TiffInfo } from "./geo/tiffInfo.js";
+import { findSidecars, type SidecarType } from "./sidecars.js";
+
+const HISTOGRAM_ROWS = 16;
+const HISTOGRAM_WIDTH = 40;
+
+export interface BandInfo {
+  band: number;
+  dataType: string;
+  statistics?: RasterStatistics;
+}
+
+export interface RasterInfo {
+  file: string;
+  size: number;
+  format: string;
+  metadata: GeoTiffMetadata;
+  tiff: TiffInfo | null;
+  sidecars: Partial<Record<SidecarType, string>>;
+  bands: BandInfo[];
+}
+
+export interface DescribeOptions {
+  statistics?: boolean;
+  histogram?: boolean;
+  histogramBins?: number;
+  maxMemoryMb?: number;
+}
+
+export function dataTypeName(bits: number, sampleFormat: number): string {
+  const kind = sampleFormat === 3 ? "Float" : sampleFormat === 2 ? "Int" : "UInt";
+  return `${kind}${bits}`;
+}
+
+async function bandStatistics(
+  source: RasterSource,
+  maxMemoryMb: number,
+  histogramBins?: number
+): Promise<RasterStatistics> {
+  const { metadata } = source;
+  const sink = createStatisticsSink(metadata.width, metadata.noDataValue, { histogramBins });
+  await readRasterRows(source, rowsPerRead(source, maxMemoryMb), [sink]);
+  return sink.finish();
+}
+
+export async function describeRaster(filePath: string, options: DescribeOptions = {}): Promise<RasterInfo> {
+  const format = scannableFormat(basename(filePath));
+  const { statistics = true, histogram = false, histogramBins, maxMemoryMb = DEFAULT_MAX_MEMORY_MB } = options;
+  const geoTiff = isGeoTiffFormat(format.id);
+
+  const first = await openRaster(filePath);
+  const { metadata } = first;
+  const bands: BandInfo[] = [];
+  try {
+    for (let band = 0; band < metadata.bandCount; band++) {
+      const bits = metadata.bitsPerSample[band] ?? metadata.bitsPerSample[0];
+      const sampleFormat = metadata.sampleFormat[band] ?? metadata.sampleFormat[0];
+      bands.push({ band: band + 1, dataType: dataTypeName(bits, sampleFormat) });
+      if (!geoTiff) break;
+    }
+    if (statistics) {
+      bands[0].statistics = await bandStatistics(first, maxMemoryMb, histogramBins);
+      for (const info of bands.slice(1)) {
+        const source = await openGeoTiff(filePath, format.name, info.band - 1);
+        try {
+          info.statistics = await bandStatistics(source, maxMemoryMb, histogramBins);
+        } finally {
+          source.close();
+        }
+      }
+      if (!histogram) {
+        for (const info of bands) delete info.statistics?.histogram;
+      }
+    }
+  } finally {
+    first.close();
+  }
+
+  return {
+    file: filePath,
+    size: (await stat(filePath)).size,
+    format: metadata.format ?? format.name,
+    metadata,
+    tiff: geoTiff ? await readTiffInfo(filePath) : null,
+    sidecars: await findSidecars(filePath),
+    bands,
+  };
+}
+
+const CORNERS: [string, number, number][] = [
+  ["Upper left", 0, 0],
+  ["Lower left", 0, 1],
+  ["Upper right", 1, 0],
+  ["Lower right", 1, 1],
+];
+
+function cornerCoordinate(meta: GeoTiffMetadata, col: number, row: number): [number, number] {
+  const { width, height, extent } = meta;
+  if (!meta.geoTransform) {
+    return [col ? extent.maxX : extent.minX, row ? extent.minY : extent.maxY];
+  }
+  return geoTransformPoint(meta.geoTransform, col * width, row * height);
+}
+
+function formatNumber(value: number | null | undefined, digits = 6): string {
+  if (value === null || value === undefined) return "n/a";
+  return Number.isInteger(value) ? String(value) : value.toFixed(digits);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function formatHistogram(histogram: RasterHistogram): string[] {
+  const { min, binWidth, counts } = histogram;
+  const merge = Math.max(1, Math.ceil(counts.length / HISTOGRAM_ROWS));
+  const rows: { from: number; to: number; count: number }[] = [];
+  for (let i = 0; i < counts.length; i += merge) {
+    const count = counts.slice(i, i + merge).reduce((a, b) => a + b, 0);
+    rows.push({ from: min + i * binWidth, to: min + Math.min(i + merge, counts.length) * binWidth, count });
+  }
+  while (rows.length > 1 && rows[rows.length - 1].count === 0) rows.pop();
+  const peak = Math.max(1, ...rows.map((r) => r.count));
+  return rows.map(({ from, to, count }) => {
+    const bar = "#".repeat(Math.round((count / peak) * HISTOGRAM_WIDTH));
+    return `    [${from.toFixed(2)}, ${to.toFixed(2)}) ${String(count).padStart(10)} ${bar}`;
+  });
+}
+
+export function formatInfo(info: RasterInfo): string {
+  const { metadata: meta, tiff } = info;
+  const ext = meta.extent;
+  const lines = [
+    `File: ${info.file} (${info.size} bytes)`,
+    `Format: ${info.format}`,
+    `Size: ${meta.width} x ${meta.height}, ${meta.bandCount} band(s)`,
+    `Coordinate system: ${meta.crs ?? "Not defined"}`,
+    `Origin: (${formatNumber(meta.origin[0])}, ${formatNumber(meta.origin[1])})`,
+    `Pixel size: (${formatNumber(meta.pixelSize.x)}, ${formatNumber(meta.pixelSize.y)})`,
+    "Corner coordinates:",
+    ...CORNERS.map(([label, col, row]) => {
+      const [x, y] = cornerCoordinate(meta, col, row);
+      return `  ${label.padEnd(11)} (${formatNumber(x)}, ${formatNumber(y)})`;
+    }),
+    `Extent: (${formatNumber(ext.minX)}, ${formatNumber(ext.minY)}) - (${formatNumber(ext.maxX)}, ${formatNumber(ext.maxY)})`,
+    `NoData: ${meta.noDataValue ?? "Not defined"}`,
+  ];
+  if (meta.geoTransform) {
+    lines.push(`GeoTransform: ${meta.geoTransform.map((v) => formatNumber(v, 9)).join(", ")}`);
+    lines.push(`Rotation: ${formatNumber(meta.rotation ?? 0)} deg`);
+  }
+  if (meta.rasterType) lines.push(`Raster type: ${meta.rasterType}`);
+  if (meta.verticalCrs !== undefined) {
+    lines.push(`Vertical coordinate system: ${meta.verticalCrs ? verticalCrsLabel(meta.verticalCrs) : "Not defined"}`);
+  }
+  if (meta.verticalUnits !== undefined) {
+    lines.push(`Vertical units: ${meta.verticalUnits ? VERTICAL_UNIT_NAMES[meta.verticalUnits] : "Not defined"}`);
+  }
+
+  if (tiff) {
+    const { layout } = tiff;
+    lines.push(
+      `TIFF: ${tiff.bigTiff ? "BigTIFF" : "classic"}, ${tiff.littleEndian ? "little" : "big"}-endian, ${tiff.interleave} interleaved`,
+      layout.tiled
+        ? `Layout: tiled ${layout.blockWidth}x${layout.blockHeight} (${layout.blocksAcross} x ${layout.blocksDown} = ${layout.blockCount} tiles)`
+        : `Layout: strips of ${layout.blockHeight} row(s) (${layout.blockCount} strips)`,
+      `Compression: ${tiff.compression.name} (${tiff.compression.code})`,
+      `Predictor: ${tiff.predictor.name} (${tiff.predictor.code})`,
+      `Overviews: ${tiff.overviews.length > 0 ? tiff.overviews.map((o) => `${o.width}x${o.height}`).join(", ") : "none"}`
+    );
+    if (tiff.masks.length > 0) {
+      lines.push(`Masks: ${tiff.masks.map((m) => `${m.width}x${m.height}`).join(", ")}`);
+    }
+    if (tiff.geoKeyDirectory) {
+      lines.push(`GeoKey directory (version ${tiff.geoKeyDirectory.version}):`);
+      for (const key of tiff.geoKeyDirectory.keys) {
+        lines.push(`  ${key.name} (${key.id}) [${key.location}] = ${formatValue(key.value)}`);
+      }
+    }
+    lines.push("TIFF tags:");
+    for (const [name, value] of Object.entries(tiff.tags)) {
+      lines.push(`  ${name} = ${formatValue(value)}`);
+    }
+    if (tiff.gdalMetadata) {
+      lines.push("GDAL metadata:", ...tiff.gdalMetadata.split(/\r?\n/).map((l) => `  ${l}`));
+    }
+  }
+
+  const sidecars = Object.entries(info.sidecars);
+  lines.push(`Sidecars: ${sidecars.length > 0 ? sidecars.map(([type, path]) => `${type} ${path}`).join(", ") : "none"}`);
+
+  for (const band of info.bands) {
+    lines.push(`Band ${band.band}: ${band.dataType}`);
+    const stats = band.statistics;
+    if (!stats) continue;
+    lines.push(
+      `  Min=${formatNumber(stats.min, 3)} Max=${formatNumber(stats.max, 3)} Mean=${formatNumber(stats.mean, 3)} StdDev=${formatNumber(stats.stdDev, 3)}`,
+      `  Valid=${stats.validCount} NoData=${stats.noDataCount} Invalid=${stats.invalidCount} of ${stats.pixelCount} pixel(s)`
+    );
+    if (stats.percentiles) {
+      lines.push(`  Percentiles: ${stats.percentiles.map((p) => `P${p.percentile}=${formatNumber(p.value, 3)}`).join(" ")}`);
+    }
+    if (stats.histogram) lines.push("  Histogram:", ...formatHistogram(stats.histogram));
+  }
+  return lines.join("\n");
+}
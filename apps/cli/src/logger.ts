@@ -7,18 +7,28 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   error: 3,
 };
 
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
 export interface LoggerOptions {
   level?: LogLevel;
   json?: boolean;
+  sink?: (entry: LogEntry) => void;
 }
 
 export class Logger {
   private level: number;
   private json: boolean;
+  private sink?: (entry: LogEntry) => void;
 
   constructor(options: LoggerOptions = {}) {
     this.level = LOG_LEVELS[options.level ?? "info"];
     this.json = options.json ?? false;
+    this.sink = options.sink;
   }
 
   debug(message: string, data?: Record<string, unknown>): void {
@@ -37,18 +47,23 @@ export class Logger {
     this.log("error", message, data);
   }
 
-  private log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
-    if (LOG_LEVELS[level] < this.level) return;
+  write(entry: LogEntry): void {
+    if (LOG_LEVELS[entry.level] < this.level) return;
+    if (this.sink) {
+      this.sink(entry);
+      return;
+    }
 
+    const { timestamp, level, message, data } = entry;
     if (this.json) {
-      const entry = {
-        timestamp: new Date().toISOString(),
+      const line = {
+        timestamp,
         level,
         message,
         ...data,
       };
       const stream = level === "error" ? process.stderr : process.stdout;
-      stream.write(JSON.stringify(entry) + "\n");
+      stream.write(JSON.stringify(line) + "\n");
     } else {
       const prefix = `[${level.toUpperCase().padEnd(5)}]`;
       const msg = data ? `${message} ${JSON.stringify(data)}` : message;
@@ -56,4 +71,8 @@ export class Logger {
       stream.write(`${prefix} ${msg}\n`);
     }
   }
+
+  private log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    this.write({ timestamp: new Date().toISOString(), level, message, data });
+  }
 }
@@ -1,111 +1,447 @@
 #!/usr/bin/env node
-import { Command } from "commander";
-import type { RunConfig } from "@mapqc/shared";
-import { createRunContext } from "./context.js";
-import { scanDirectory, processFile } from "./scanner.js";
-import { writeJsonReport, writeSummaryReport } from "./reporters/jsonReporter.js";
-import { writePdfReport, writeSummaryPdf } from "./reporters/pdfReporter.js";
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { availableParallelism } from "node:os";
+import { Command, type OptionValues } from "commander";
+import {
+  DEFAULT_HISTOGRAM_BINS,
+  QA_REPORT_SCHEMA,
+  QA_RESULT_SCHEMA,
+  QA_SUMMARY_SCHEMA,
+  REPORT_SCHEMA_VERSION,
+  RUN_MANIFEST_SCHEMA,
+  diffSummaries,
+  diffToJson,
+  formatDiff,
+  validateReport,
+} from "@mapqc/shared";
+import type { QaReport, QaSummary, RunConfig } from "@mapqc/shared";
+import { createRunContext, type RunContext } from "./context.js";
+import { CLI_VERSION } from "./version.js";
+import { loadProfile, loadAoi, withAoi } from "./profile.js";
+import { loadSummary } from "./baseline.js";
+import { buildManifest, hashInputs, writeManifest } from "./manifest.js";
+import { DEFAULT_CACHE_DIR } from "./cache.js";
+import { scanDirectory } from "./scanner.js";
+import { processFiles } from "./pool.js";
+import { DEFAULT_MAX_MEMORY_MB } from "./geo/rasterSource.js";
+import { ExitCode, FAIL_ON_MODES, evaluateRun, formatOutcome, type FailOn } from "./outcome.js";
+import { REPORT_FORMATS, runBatch, writeFileReports, writeSummaryReports } from "./output.js";
+import { writeDiffReport } from "./reporters/diffReporter.js";
+import { DEFAULT_SETTLE_MS, DEFAULT_WATCH_INTERVAL_MS, watchDirectory } from "./watch.js";
+import { describeRaster, formatInfo, type RasterInfo } from "./info.js";
+
+const SIDECAR_MODES = ["error", "warn", "ignore"];
+const SCHEMAS = {
+  report: QA_REPORT_SCHEMA,
+  summary: QA_SUMMARY_SCHEMA,
+  result: QA_RESULT_SCHEMA,
+  manifest: RUN_MANIFEST_SCHEMA,
+};
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseFormats(value: string): string[] {
+  return [...new Set(
+    value
+      .split(",")
+      .map((f) => f.trim().toLowerCase())
+      .filter((f) => f.length > 0)
+      .flatMap((f) => (f === "both" ? ["json", "pdf"] : [f]))
+  )];
+}
+
+function usageError(message: string): never {
+  console.error(message);
+  process.exit(ExitCode.USAGE_ERROR);
+}
+
+function fatalError(err: unknown): never {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(ExitCode.INTERNAL_ERROR);
+}
+
+function parseHistogramBins(value: string): number {
+  const bins = Number(value);
+  if (!Number.isInteger(bins) || bins < 1) {
+    usageError(`Invalid --histogram-bins "${value}". Use a positive integer`);
+  }
+  return bins;
+}
+
+function addRunOptions(command: Command): Command {
+  return command
+    .option("-i, --input <dir>", "Input directory containing raster files")
+    .option("-r, --recursive", "Scan subdirectories", false)
+    .option("--max-depth <n>", "Maximum subdirectory depth when scanning recursively")
+    .option("--include <glob>", "Only scan files matching this glob (repeatable)", collect, [])
+    .option("--exclude <glob>", "Skip files and directories matching this glob (repeatable)", collect, [])
+    .option("--follow-symlinks", "Follow symbolic links to files and directories", false)
+    .option("-j, --concurrency <n>", "Number of files processed in parallel worker threads", String(availableParallelism()))
+    .option("--max-memory <mb>", "Total memory budget in MB, shared by the worker threads; larger rasters are read in blocks", String(DEFAULT_MAX_MEMORY_MB))
+    .option("--histogram-bins <n>", "Number of bins in the elevation histogram", String(DEFAULT_HISTOGRAM_BINS))
+    .option("-o, --output <dir>", "Output directory for reports", "./output")
+    .option("-f, --format <formats>", "Comma-separated report formats: json, pdf, html, junit, sarif (both = json,pdf)", "json")
+    .option("--legacy-summary", "Write summary_report.json as a plain array of file reports, the format before it carried schemaVersion, manifest and batch", false)
+    .option("--sidecars <mode>", "Sidecar check (.tfw, .prj, .aux.xml, .ovr, .msk) severity: error, warn, ignore", "warn")
+    .option("-p, --profile <file>", "QA profile (JSON or YAML) with check rules and expected values")
+    .option("--aoi <bbox|file>", "Project AOI as minX,minY,maxX,maxY in the raster CRS or a GeoJSON polygon file")
+    .option("--no-cache", "Re-check every file instead of reusing cached results for unchanged files")
+    .option("--cache-dir <dir>", `Directory for cached results (default: <output>/${DEFAULT_CACHE_DIR})`)
+    .option("--cache-hash", "Match cached results by SHA-256 of the file contents instead of modification time", false)
+    .option("--json-log", "Output structured JSON logs", false)
+    .option("--log-level <level>", "Log level: debug, info, warn, error", "info");
+}
+
+function parseRunOptions(
+  options: OptionValues,
+  inputDir: string
+): { config: RunConfig; formats: string[]; concurrency: number } {
+  if (!SIDECAR_MODES.includes(options.sidecars)) {
+    usageError(`Invalid --sidecars mode "${options.sidecars}". Use one of: ${SIDECAR_MODES.join(", ")}`);
+  }
+  const formats = parseFormats(options.format);
+  const unknownFormats = formats.filter((f) => !REPORT_FORMATS.includes(f));
+  if (formats.length === 0 || unknownFormats.length > 0) {
+    usageError(`Invalid --format "${options.format}". Use a comma-separated list of: ${REPORT_FORMATS.join(", ")}`);
+  }
+  const maxDepth = options.maxDepth !== undefined ? Number(options.maxDepth) : undefined;
+  if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+    usageError(`Invalid --max-depth "${options.maxDepth}". Use a non-negative integer`);
+  }
+  const concurrency = Number(options.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    usageError(`Invalid --concurrency "${options.concurrency}". Use a positive integer`);
+  }
+  const maxMemoryMb = Number(options.maxMemory);
+  if (!Number.isFinite(maxMemoryMb) || maxMemoryMb <= 0) {
+    usageError(`Invalid --max-memory "${options.maxMemory}". Use a positive number of megabytes`);
+  }
+  const histogramBins = parseHistogramBins(options.histogramBins);
+
+  const config: RunConfig = {
+    inputDir,
+    outputDir: options.output,
+    sidecars: options.sidecars as RunConfig["sidecars"],
+    scan: {
+      recursive: options.recursive || maxDepth !== undefined,
+      maxDepth,
+      include: options.include,
+      exclude: options.exclude,
+      followSymlinks: options.followSymlinks,
+      listFile: options.list,
+    },
+    maxMemoryMb,
+    histogramBins,
+    legacySummary: options.legacySummary,
+    thumbnails: formats.includes("html") || formats.includes("pdf"),
+    cache: options.cache
+      ? { dir: options.cacheDir ?? join(options.output, DEFAULT_CACHE_DIR), hashContents: options.cacheHash }
+      : undefined,
+  };
+  return { config, formats, concurrency };
+}
+
+async function createContext(config: RunConfig, options: OptionValues): Promise<RunContext> {
+  const ctx = createRunContext(config, {
+    json: options.jsonLog,
+    level: options.logLevel,
+  });
+
+  if (options.profile) {
+    try {
+      config.profile = await loadProfile(options.profile);
+    } catch (err) {
+      ctx.logger.error("Failed to load QA profile", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      process.exit(ExitCode.USAGE_ERROR);
+    }
+  }
+
+  if (options.aoi) {
+    try {
+      config.profile = withAoi(config.profile, await loadAoi(options.aoi));
+    } catch (err) {
+      ctx.logger.error("Failed to load AOI", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      process.exit(ExitCode.USAGE_ERROR);
+    }
+  }
+  return ctx;
+}
 
 const program = new Command();
 
 program
   .name("mapqc")
-  .description("MapQC CLI — batch GeoTIFF quality assurance")
-  .version("0.1.0");
+  .description("MapQC CLI — batch raster quality assurance")
+  .version(CLI_VERSION)
+  .exitOverride((err) => process.exit(err.exitCode === 0 ? ExitCode.PASSED : ExitCode.USAGE_ERROR));
 
-program
-  .command("scan")
-  .description("Scan a directory of GeoTIFF files and run QA checks")
-  .requiredOption("-i, --input <dir>", "Input directory containing .tif/.tiff files")
-  .option("-o, --output <dir>", "Output directory for reports", "./output")
-  .option("-f, --format <format>", "Report format: json, pdf, or both", "json")
-  .option("--sidecars <mode>", "Sidecar handling: error, warn, ignore", "warn")
-  .option("--json-log", "Output structured JSON logs", false)
-  .option("--log-level <level>", "Log level: debug, info, warn, error", "info")
+addRunOptions(
+  program
+    .command("scan")
+    .description("Scan a directory of raster files and run QA checks")
+)
+  .option("--list <file>", "Text file listing raster paths to scan, one per line (relative to the list file)")
+  .option("--fail-on <severity>", "Exit non-zero when a check fails at this severity or above: error, warning, never", "error")
+  .option("--baseline <file>", "Previous summary_report.json to diff this scan against")
   .action(async (options) => {
-    const config: RunConfig = {
-      inputDir: options.input,
-      outputDir: options.output,
-      sidecars: options.sidecars as RunConfig["sidecars"],
-    };
+    if (!FAIL_ON_MODES.includes(options.failOn)) {
+      usageError(`Invalid --fail-on "${options.failOn}". Use one of: ${FAIL_ON_MODES.join(", ")}`);
+    }
+    const failOn = options.failOn as FailOn;
+    if (!options.input && !options.list) {
+      usageError("Either --input <dir> or --list <file> is required");
+    }
+    const { config, formats, concurrency } = parseRunOptions(options, options.input ?? dirname(options.list));
+    const ctx = await createContext(config, options);
 
-    const ctx = createRunContext(config, {
-      json: options.jsonLog,
-      level: options.logLevel,
-    });
+    let baseline: QaSummary | undefined;
+    if (options.baseline) {
+      try {
+        baseline = await loadSummary(options.baseline);
+      } catch (err) {
+        ctx.logger.error("Failed to load baseline report", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+        process.exit(ExitCode.USAGE_ERROR);
+      }
+    }
 
-    ctx.logger.info("MapQC scan started", { runId: ctx.runId });
+    ctx.logger.info("MapQC scan started", { runId: ctx.runId, profile: config.profile?.name, concurrency });
 
     let files: string[];
     try {
       files = await scanDirectory(ctx);
     } catch (err) {
-      ctx.logger.error("Failed to scan directory", {
+      ctx.logger.error(options.list ? "Failed to read file list" : "Failed to scan directory", {
         error: err instanceof Error ? err.message : String(err),
       });
-      process.exit(1);
+      process.exit(ExitCode.USAGE_ERROR);
     }
 
     if (files.length === 0) {
-      ctx.logger.warn("No GeoTIFF files found in input directory");
-      process.exit(0);
+      ctx.logger.warn("No supported raster files found");
+      console.log(formatOutcome(evaluateRun(0, [], undefined, failOn, ctx.elapsed())));
+      process.exit(ExitCode.PASSED);
     }
 
-    const reports = [];
-    for (const file of files) {
-      const report = await processFile(ctx, file);
-      if (report) {
+    const reports: QaReport[] = [];
+    const hashes = new Map<string, string>();
+    let filesCached = 0;
+    try {
+      let index = 0;
+      await processFiles(ctx, files, concurrency, async (processed) => {
+        const file = files[index++];
+        if (!processed) return;
+        const { report, cached, sha256 } = processed;
+        if (cached) filesCached++;
+        if (sha256) hashes.set(file, sha256);
         reports.push(report);
-
-        const format = options.format as string;
-        try {
-          if (format === "json" || format === "both") {
-            const path = await writeJsonReport(report, config.outputDir);
-            ctx.logger.info(`JSON report written: ${path}`);
-          }
-          if (format === "pdf" || format === "both") {
-            const path = await writePdfReport(report, config.outputDir);
-            ctx.logger.info(`PDF report written: ${path}`);
-          }
-        } catch (err) {
-          ctx.logger.error(`Failed to write report for ${report.fileName}`, {
-            error: err instanceof Error ? err.message : String(err),
-          });
-        }
-      }
+        await writeFileReports(ctx, report, formats);
+      });
+    } catch (err) {
+      ctx.logger.error("File processing aborted", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      process.exit(ExitCode.INTERNAL_ERROR);
     }
 
-    if (reports.length > 0) {
-      const format = options.format as string;
+    const batch = runBatch(ctx, reports);
+
+    if (baseline) {
+      const diff = diffSummaries(baseline, { reports, batch });
+      ctx.logger.info("Baseline diff complete", {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        regressed: diff.regressed,
+        fixed: diff.fixed,
+      });
       try {
-        if (format === "json" || format === "both") {
-          const path = await writeSummaryReport(reports, config.outputDir);
-          ctx.logger.info(`Summary JSON report written: ${path}`);
-        }
-        if (format === "pdf" || format === "both") {
-          const path = await writeSummaryPdf(reports, config.outputDir);
-          ctx.logger.info(`Summary PDF report written: ${path}`);
-        }
+        const paths = await writeDiffReport(diff, config.outputDir);
+        paths.forEach((path) => ctx.recordArtifact(path));
+        ctx.logger.info(`Diff report written: ${paths.join(", ")}`);
       } catch (err) {
-        ctx.logger.error("Failed to write summary reports", {
+        ctx.logger.error("Failed to write diff report", {
           error: err instanceof Error ? err.message : String(err),
         });
       }
     }
 
-    const totalPassed = reports.reduce(
-      (sum, r) => sum + r.results.filter((res: { passed: boolean }) => res.passed).length,
-      0
-    );
-    const totalChecks = reports.reduce((sum, r) => sum + r.results.length, 0);
+    ctx.logger.info(`Hashing ${files.length} input file(s)`);
+    const inputs = await hashInputs(ctx, files, hashes);
+    const manifestOptions = { arguments: process.argv.slice(2), profilePath: options.profile };
+
+    if (reports.length > 0) {
+      await writeSummaryReports(ctx, reports, formats, batch, () => buildManifest(ctx, manifestOptions, inputs));
+    }
+
+    try {
+      const path = await writeManifest(await buildManifest(ctx, manifestOptions, inputs), config.outputDir);
+      ctx.logger.info(`Run manifest written: ${path}`);
+    } catch (err) {
+      ctx.logger.error("Failed to write run manifest", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
 
+    const outcome = evaluateRun(files.length, reports, batch, failOn, ctx.elapsed());
     ctx.logger.info("Scan complete", {
-      filesProcessed: reports.length,
-      totalChecks,
-      totalPassed,
-      totalFailed: totalChecks - totalPassed,
-      elapsed: ctx.elapsed(),
+      filesProcessed: outcome.files.processed,
+      filesCached,
+      filesUnreadable: outcome.files.unreadable,
+      totalChecks: outcome.checks.total,
+      totalPassed: outcome.checks.passed,
+      totalFailed: outcome.checks.failed,
+      elapsed: outcome.elapsed,
     });
+    console.log(formatOutcome(outcome));
+    process.exitCode = outcome.exitCode;
+  });
+
+addRunOptions(
+  program
+    .command("watch")
+    .description("Watch a drop folder and run QA on new or modified rasters once they have finished writing")
+)
+  .option("--interval <ms>", "How often the input directory is polled", String(DEFAULT_WATCH_INTERVAL_MS))
+  .option("--settle <ms>", "How long a file's size and modification time must stay unchanged before it is checked", String(DEFAULT_SETTLE_MS))
+  .action(async (options) => {
+    if (!options.input) usageError("--input <dir> is required");
+    const intervalMs = Number(options.interval);
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      usageError(`Invalid --interval "${options.interval}". Use a positive number of milliseconds`);
+    }
+    const settleMs = Number(options.settle);
+    if (!Number.isFinite(settleMs) || settleMs < 0) {
+      usageError(`Invalid --settle "${options.settle}". Use a non-negative number of milliseconds`);
+    }
+    const { config, formats, concurrency } = parseRunOptions(options, options.input);
+    const input = await stat(options.input).catch(() => null);
+    if (!input?.isDirectory()) usageError(`Input directory not found: ${options.input}`);
+    const ctx = await createContext(config, options);
+
+    const controller = new AbortController();
+    const stop = (signal: string) => {
+      ctx.logger.info(`${signal} received, finishing current files before exiting`);
+      controller.abort();
+    };
+    process.once("SIGINT", () => stop("SIGINT"));
+    process.once("SIGTERM", () => stop("SIGTERM"));
+
+    try {
+      await watchDirectory(ctx, { formats, concurrency, intervalMs, settleMs, signal: controller.signal });
+    } catch (err) {
+      ctx.logger.error("Watch aborted", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      process.exit(ExitCode.INTERNAL_ERROR);
+    }
+    process.exitCode = ExitCode.PASSED;
+  });
+
+program
+  .command("diff")
+  .description("Compare two scans: files added or removed, checks that changed, metadata changes")
+  .argument("<old>", "Baseline summary_report.json")
+  .argument("<new>", "New summary_report.json")
+  .option("--json", "Print the diff as JSON instead of text", false)
+  .option("-o, --output <file>", "Write the diff to a file instead of stdout")
+  .action(async (oldPath: string, newPath: string, options) => {
+    let previous: QaSummary;
+    let current: QaSummary;
+    try {
+      [previous, current] = await Promise.all([loadSummary(oldPath), loadSummary(newPath)]);
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exit(ExitCode.USAGE_ERROR);
+    }
+
+    const diff = diffSummaries(previous, current);
+    const text = options.json ? diffToJson(diff) : `MapQC diff: ${oldPath} -> ${newPath}\n${formatDiff(diff)}`;
+    if (options.output) {
+      await writeFile(options.output, `${text}\n`, "utf-8");
+    } else {
+      console.log(text);
+    }
+  });
+
+program
+  .command("validate-report")
+  .description(`Validate report JSON files against the report schema (version ${REPORT_SCHEMA_VERSION})`)
+  .argument("<files...>", "*_report.json, summary_report.json or run_manifest.json files")
+  .action(async (files: string[]) => {
+    let exitCode = ExitCode.PASSED;
+    for (const file of files) {
+      let value: unknown;
+      try {
+        value = JSON.parse(await readFile(file, "utf-8"));
+      } catch (err) {
+        console.error(`${file}: cannot read: ${err instanceof Error ? err.message : String(err)}`);
+        exitCode = ExitCode.UNREADABLE_FILES;
+        continue;
+      }
+
+      const { kind, errors } = validateReport(value);
+      if (errors.length === 0) {
+        console.log(`${file}: valid (${kind}, schema ${REPORT_SCHEMA_VERSION})`);
+        continue;
+      }
+      console.log(`${file}: ${errors.length} schema error(s) (${kind})`);
+      for (const error of errors) console.log(`  ${error.path}: ${error.message}`);
+      if (exitCode === ExitCode.PASSED) exitCode = ExitCode.QA_FAILED;
+    }
+    process.exitCode = exitCode;
+  });
+
+program
+  .command("schema")
+  .description("Print the JSON Schema for report files")
+  .argument("[type]", `Schema to print: ${Object.keys(SCHEMAS).join(", ")}`, "report")
+  .action((type: string) => {
+    const schema = SCHEMAS[type as keyof typeof SCHEMAS];
+    if (!schema) {
+      console.error(`Unknown schema "${type}". Use one of: ${Object.keys(SCHEMAS).join(", ")}`);
+      process.exit(ExitCode.USAGE_ERROR);
+    }
+    console.log(JSON.stringify(schema, null, 2));
+  });
+
+program
+  .command("info")
+  .description("Print metadata, TIFF layout and band statistics for a single raster")
+  .argument("<file>", "Raster file to describe")
+  .option("--json", "Print the information as JSON instead of text", false)
+  .option("--histogram", "Include a histogram for each band", false)
+  .option("--histogram-bins <n>", "Number of bins in the histogram", String(DEFAULT_HISTOGRAM_BINS))
+  .option("--no-stats", "Skip reading pixels for band statistics")
+  .option("--max-memory <mb>", "Memory budget in MB; larger rasters are read in blocks", String(DEFAULT_MAX_MEMORY_MB))
+  .action(async (file: string, options) => {
+    const maxMemoryMb = Number(options.maxMemory);
+    if (!Number.isFinite(maxMemoryMb) || maxMemoryMb <= 0) {
+      usageError(`Invalid --max-memory "${options.maxMemory}". Use a positive number of megabytes`);
+    }
+
+    const histogramBins = parseHistogramBins(options.histogramBins);
+
+    let info: RasterInfo;
+    try {
+      info = await describeRaster(file, { statistics: options.stats, histogram: options.histogram, histogramBins, maxMemoryMb });
+    } catch (err) {
+      console.error(`${file}: cannot read: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(ExitCode.UNREADABLE_FILES);
+    }
+    console.log(options.json ? JSON.stringify(info, null, 2) : formatInfo(info));
   });
 
-program.parse();
+try {
+  await program.parseAsync();
+} catch (err) {
+  fatalError(err);
+}
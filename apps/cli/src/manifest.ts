@@ -0,0 +1,81 @@
+import { stat, writeFile, mkdir } from "node:fs/promises";
+import { hostname, platform, release } from "node:os";
+import { join, relative, sep } from "node:path";
+import { REPORT_SCHEMA_VERSION } from "@mapqc/shared";
+import type { ManifestFile, RunManifest } from "@mapqc/shared";
+import type { RunContext } from "./context.js";
+import { hashFile } from "./hash.js";
+import { toRelativePath } from "./scanner.js";
+import { CLI_VERSION } from "./version.js";
+
+export interface ManifestOptions {
+  arguments: string[];
+  profilePath?: string;
+}
+
+async function describeFile(ctx: RunContext, filePath: string, path: string, known?: string): Promise<ManifestFile> {
+  try {
+    const [info, sha256] = await Promise.all([stat(filePath), known ?? hashFile(filePath)]);
+    return { path, size: info.size, sha256 };
+  } catch (err) {
+    ctx.logger.warn(`Could not hash ${path}`, { error: err instanceof Error ? err.message : String(err) });
+    return { path, size: 0, sha256: null };
+  }
+}
+
+export async function hashInputs(
+  ctx: RunContext,
+  files: string[],
+  hashes: ReadonlyMap<string, string> = new Map()
+): Promise<ManifestFile[]> {
+  const inputs: ManifestFile[] = [];
+  for (const file of files) {
+    inputs.push(await describeFile(ctx, file, toRelativePath(ctx.config.inputDir, file), hashes.get(file)));
+  }
+  return inputs;
+}
+
+export async function buildManifest(
+  ctx: RunContext,
+  options: ManifestOptions,
+  inputs: ManifestFile[]
+): Promise<RunManifest> {
+  const { config } = ctx;
+  const artifacts: ManifestFile[] = [];
+  for (const artifact of ctx.artifacts) {
+    artifacts.push(await describeFile(ctx, artifact, relative(config.outputDir, artifact).split(sep).join("/")));
+  }
+
+  const profile = config.profile && options.profilePath
+    ? {
+        name: config.profile.name,
+        version: config.profile.version,
+        path: options.profilePath,
+        sha256: (await describeFile(ctx, options.profilePath, options.profilePath)).sha256,
+      }
+    : null;
+  const finished = Date.now();
+
+  return {
+    runId: ctx.runId,
+    tool: { name: "mapqc", version: CLI_VERSION, node: process.version },
+    arguments: options.arguments,
+    profile,
+    hostname: hostname(),
+    platform: `${platform()} ${release()}`,
+    startedAt: new Date(ctx.startTime).toISOString(),
+    finishedAt: new Date(finished).toISOString(),
+    durationMs: finished - ctx.startTime,
+    inputDir: config.inputDir,
+    outputDir: config.outputDir,
+    inputs,
+    artifacts,
+  };
+}
+
+export async function writeManifest(manifest: RunManifest, outputDir: string): Promise<string> {
+  await mkdir(outputDir, { recursive: true });
+  const filePath = join(outputDir, "run_manifest.json");
+  await writeFile(filePath, JSON.stringify({ schemaVersion: REPORT_SCHEMA_VERSION, ...manifest }, null, 2), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,69 @@
+import { QaSeverity } from "@mapqc/shared";
+import type { BatchQaReport, QaReport, QaResult } from "@mapqc/shared";
+
+export enum ExitCode {
+  PASSED = 0,
+  QA_FAILED = 1,
+  UNREADABLE_FILES = 2,
+  USAGE_ERROR = 3,
+  INTERNAL_ERROR = 4,
+}
+
+export type FailOn = "error" | "warning" | "never";
+
+export const FAIL_ON_MODES: FailOn[] = ["error", "warning", "never"];
+
+const FAILING_SEVERITIES: Record<FailOn, QaSeverity[]> = {
+  error: [QaSeverity.ERROR],
+  warning: [QaSeverity.ERROR, QaSeverity.WARNING],
+  never: [],
+};
+
+export interface RunOutcome {
+  status: "passed" | "failed" | "unreadable";
+  exitCode: ExitCode;
+  failOn: FailOn;
+  files: { found: number; processed: number; unreadable: number };
+  checks: { total: number; passed: number; failed: number };
+  failures: Record<"error" | "warning" | "info", number>;
+  elapsed: number;
+}
+
+export function evaluateRun(
+  fileCount: number,
+  reports: QaReport[],
+  batch: BatchQaReport | undefined,
+  failOn: FailOn,
+  elapsed: number
+): RunOutcome {
+  const results: QaResult[] = [
+    ...reports.flatMap((r) => r.results),
+    ...(batch?.results ?? []),
+  ];
+  const failed = results.filter((r) => !r.passed);
+  const countOf = (severity: QaSeverity) => failed.filter((r) => r.severity === severity).length;
+  const unreadable = fileCount - reports.length;
+  const gating = failed.some((r) => FAILING_SEVERITIES[failOn].includes(r.severity));
+
+  let exitCode: ExitCode = ExitCode.PASSED;
+  if (unreadable > 0) exitCode = ExitCode.UNREADABLE_FILES;
+  else if (gating) exitCode = ExitCode.QA_FAILED;
+
+  return {
+    status: unreadable > 0 ? "unreadable" : gating ? "failed" : "passed",
+    exitCode,
+    failOn,
+    files: { found: fileCount, processed: reports.length, unreadable },
+    checks: { total: results.length, passed: results.length - failed.length, failed: failed.length },
+    failures: {
+      error: countOf(QaSeverity.ERROR),
+      warning: countOf(QaSeverity.WARNING),
+      info: countOf(QaSeverity.INFO),
+    },
+    elapsed,
+  };
+}
+
+export function formatOutcome(outcome: RunOutcome): string {
+  return `MAPQC_RESULT ${JSON.stringify(outcome)}`;
+}
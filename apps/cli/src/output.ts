@@ -0,0 +1,79 @@
+import { runBatchChecks } from "@mapqc/shared";
+import type { BatchQaReport, QaReport, RunManifest } from "@mapqc/shared";
+import type { RunContext } from "./context.js";
+import { writeJsonReport, writeSummaryReport } from "./reporters/jsonReporter.js";
+import { writePdfReport, writeSummaryPdf } from "./reporters/pdfReporter.js";
+import { writeJunitReport } from "./reporters/junitReporter.js";
+import { writeSarifReport } from "./reporters/sarifReporter.js";
+import { writeHtmlReport } from "./reporters/htmlReporter.js";
+
+export const REPORT_FORMATS = ["json", "pdf", "html", "junit", "sarif"];
+
+export async function writeFileReports(ctx: RunContext, report: QaReport, formats: string[]): Promise<void> {
+  const { outputDir } = ctx.config;
+  try {
+    if (formats.includes("json")) {
+      const path = ctx.recordArtifact(await writeJsonReport(report, outputDir));
+      ctx.logger.info(`JSON report written: ${path}`);
+    }
+    if (formats.includes("pdf")) {
+      const path = ctx.recordArtifact(await writePdfReport(report, outputDir, ctx.thumbnails.get(report.fileId)));
+      ctx.logger.info(`PDF report written: ${path}`);
+    }
+  } catch (err) {
+    ctx.logger.error(`Failed to write report for ${report.relativePath ?? report.fileName}`, {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+export function runBatch(ctx: RunContext, reports: QaReport[]): BatchQaReport | undefined {
+  if (reports.length <= 1) return undefined;
+
+  const batch = runBatchChecks(reports, { profile: ctx.config.profile, edges: ctx.tileEdges });
+  const batchFailed = batch.results.filter((r) => !r.passed);
+  for (const result of batchFailed) {
+    ctx.logger.warn(`Batch check failed: ${result.checkId}`, { message: result.message });
+  }
+  ctx.logger.info("Batch checks complete", {
+    totalChecks: batch.results.length,
+    totalFailed: batchFailed.length,
+  });
+  return batch;
+}
+
+export async function writeSummaryReports(
+  ctx: RunContext,
+  reports: QaReport[],
+  formats: string[],
+  batch?: BatchQaReport,
+  manifest?: () => Promise<RunManifest>
+): Promise<void> {
+  const { outputDir, inputDir, legacySummary } = ctx.config;
+  try {
+    if (formats.includes("pdf")) {
+      const path = ctx.recordArtifact(await writeSummaryPdf(reports, outputDir, batch));
+      ctx.logger.info(`Summary PDF report written: ${path}`);
+    }
+    if (formats.includes("html")) {
+      const path = ctx.recordArtifact(await writeHtmlReport(reports, outputDir, ctx.thumbnails, batch));
+      ctx.logger.info(`HTML report written: ${path}`);
+    }
+    if (formats.includes("junit")) {
+      const path = ctx.recordArtifact(await writeJunitReport(reports, outputDir, batch));
+      ctx.logger.info(`JUnit XML report written: ${path}`);
+    }
+    if (formats.includes("sarif")) {
+      const path = ctx.recordArtifact(await writeSarifReport(reports, outputDir, inputDir, batch));
+      ctx.logger.info(`SARIF report written: ${path}`);
+    }
+    if (formats.includes("json")) {
+      const path = ctx.recordArtifact(await writeSummaryReport(reports, outputDir, batch, await manifest?.(), legacySummary));
+      ctx.logger.info(`Summary JSON report written: ${path}`);
+    }
+  } catch (err) {
+    ctx.logger.error("Failed to write summary reports", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { Worker } from "node:worker_threads";
+import { extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { RasterThumbnail, TileEdges } from "@mapqc/shared";
+import type { RunContext } from "./context.js";
+import type { LogEntry } from "./logger.js";
+import { DEFAULT_MAX_MEMORY_MB } from "./geo/rasterSource.js";
+import { processFile, type ProcessedFile } from "./scanner.js";
+
+export interface WorkerTask {
+  index: number;
+  filePath: string;
+}
+
+export interface WorkerResult {
+  index: number;
+  file: ProcessedFile | null;
+  logs: LogEntry[];
+  edges?: TileEdges;
+  thumbnail?: RasterThumbnail;
+}
+
+const MODULE_EXTENSION = extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(`./worker${MODULE_EXTENSION}`, import.meta.url);
+
+function createWorker(workerData: unknown): Worker {
+  if (MODULE_EXTENSION !== ".ts") return new Worker(WORKER_URL, { workerData });
+
+  const tsxApi = JSON.stringify(import.meta.resolve("tsx/esm/api"));
+  const entry = JSON.stringify(WORKER_URL.href);
+  return new Worker(
+    `import(${tsxApi}).then(({ register }) => { register(); return import(${entry}); });`,
+    { eval: true, workerData }
+  );
+}
+
+export async function processFiles(
+  ctx: RunContext,
+  files: string[],
+  concurrency: number,
+  onFile: (file: ProcessedFile | null) => Promise<void>
+): Promise<void> {
+  if (concurrency <= 1 || files.length <= 1) {
+    for (const file of files) {
+      await onFile(await processFile(ctx, file));
+    }
+    return;
+  }
+
+  const poolSize = Math.min(concurrency, files.length);
+  const maxPending = poolSize * 2;
+  const maxMemoryMb = (ctx.config.maxMemoryMb ?? DEFAULT_MAX_MEMORY_MB) / poolSize;
+  const workerData = { config: { ...ctx.config, maxMemoryMb }, level: ctx.loggerOptions.level };
+
+  return new Promise<void>((resolve, reject) => {
+    const workers = new Set<Worker>();
+    const idle: Worker[] = [];
+    const assigned = new Map<Worker, number>();
+    const completed = new Map<number, WorkerResult>();
+    let nextDispatch = 0;
+    let nextEmit = 0;
+    let settled = false;
+    let chain = Promise.resolve();
+
+    const shutdown = () => Promise.all([...workers].map((w) => w.terminate()));
+
+    const fail = (err: unknown) => {
+      if (settled) return;
+      settled = true;
+      shutdown().finally(() => reject(err));
+    };
+
+    const emit = async (result: WorkerResult) => {
+      for (const entry of result.logs) ctx.logger.write(entry);
+      if (result.file && result.edges) ctx.tileEdges.set(result.file.report.fileId, result.edges);
+      if (result.file && result.thumbnail) ctx.thumbnails.set(result.file.report.fileId, result.thumbnail);
+      await onFile(result.file);
+    };
+
+    const dispatch = () => {
+      while (idle.length > 0 && nextDispatch < files.length && nextDispatch < nextEmit + maxPending) {
+        const worker = idle.pop()!;
+        const task: WorkerTask = { index: nextDispatch, filePath: files[nextDispatch] };
+        assigned.set(worker, task.index);
+        worker.postMessage(task);
+        nextDispatch++;
+      }
+    };
+
+    const complete = (worker: Worker | null, result: WorkerResult) => {
+      if (worker) {
+        assigned.delete(worker);
+        idle.push(worker);
+      }
+      completed.set(result.index, result);
+
+      while (completed.has(nextEmit)) {
+        const next = completed.get(nextEmit)!;
+        completed.delete(nextEmit);
+        chain = chain.then(() => emit(next));
+        nextEmit++;
+      }
+      chain.catch(fail);
+
+      if (nextEmit === files.length) {
+        chain.then(() => {
+          if (settled) return;
+          settled = true;
+          return shutdown().then(() => resolve());
+        }, fail);
+        return;
+      }
+      dispatch();
+    };
+
+    const spawn = () => {
+      const worker = createWorker(workerData);
+      workers.add(worker);
+      worker.on("message", (result: WorkerResult) => complete(worker, result));
+      worker.on("error", (err) => {
+        const index = assigned.get(worker);
+        workers.delete(worker);
+        assigned.delete(worker);
+        if (settled) return;
+        if (index === undefined) {
+          fail(err);
+          return;
+        }
+        spawn();
+        complete(null, {
+          index,
+          file: null,
+          logs: [{
+            timestamp: new Date().toISOString(),
+            level: "error",
+            message: `Worker crashed while processing: ${files[index]}`,
+            data: { error: err.message },
+          }],
+        });
+      });
+      idle.push(worker);
+    };
+
+    for (let i = 0; i < poolSize; i++) spawn();
+    dispatch();
+  });
+}
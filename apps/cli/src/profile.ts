@@ -0,0 +1,43 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { parseQaProfile, parseAoi } from "@mapqc/shared";
+import type { Aoi, QaProfile } from "@mapqc/shared";
+
+const BBOX_PATTERN = /^\s*-?[\d.eE+-]+(\s*,\s*-?[\d.eE+-]+){3}\s*$/;
+
+export async function loadProfile(filePath: string): Promise<QaProfile> {
+  const text = await readFile(filePath, "utf-8");
+  const ext = extname(filePath).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw = ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not parse QA profile ${filePath}: ${message}`);
+  }
+
+  return parseQaProfile(raw);
+}
+
+export async function loadAoi(value: string): Promise<Aoi> {
+  if (BBOX_PATTERN.test(value)) {
+    return parseAoi(value.split(",").map((n) => parseFloat(n)));
+  }
+
+  const text = await readFile(value, "utf-8");
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not parse AOI ${value}: ${message}`);
+  }
+  return parseAoi(raw);
+}
+
+export function withAoi(profile: QaProfile | undefined, aoi: Aoi): QaProfile {
+  const base = profile ?? { name: "default" };
+  return { ...base, expected: { ...base.expected, aoi } };
+}
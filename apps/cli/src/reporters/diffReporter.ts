@@ -0,0 +1,13 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { diffToJson, formatDiff } from "@mapqc/shared";
+import type { QaDiff } from "@mapqc/shared";
+
+export async function writeDiffReport(diff: QaDiff, outputDir: string): Promise<string[]> {
+  await mkdir(outputDir, { recursive: true });
+  const jsonPath = join(outputDir, "diff_report.json");
+  const textPath = join(outputDir, "diff_report.txt");
+  await writeFile(jsonPath, diffToJson(diff), "utf-8");
+  await writeFile(textPath, `${formatDiff(diff)}\n`, "utf-8");
+  return [jsonPath, textPath];
+}
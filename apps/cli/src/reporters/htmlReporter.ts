@@ -0,0 +1,352 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { QaSeverity, resultViolations, statisticsPercentile } from "@mapqc/shared";
+import type { BatchQaReport, QaReport, QaResult, RasterHistogram, RasterThumbnail } from "@mapqc/shared";
+import { hillshadePng } from "./png.js";
+import { fileLabel, fileStatus, resultStatus, storageLabel, unitSuffix, verticalLabel, type FileStatus } from "./status.js";
+
+const MAP_WIDTH = 720;
+const MAP_HEIGHT = 420;
+const HISTOGRAM_WIDTH = 320;
+const HISTOGRAM_HEIGHT = 120;
+
+const STATUS_COLORS: Record<FileStatus, string> = {
+  passed: "#2e7d32",
+  warning: "#ed8c00",
+  failed: "#c62828",
+};
+
+const STYLES = `
+body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; margin: 0; color: #1d1d1f; background: #f6f7f9; }
+header { background: #1f2937; color: #fff; padding: 20px 32px; }
+header h1 { margin: 0 0 4px; font-size: 22px; }
+main { padding: 24px 32px; max-width: 1280px; }
+section { background: #fff; border: 1px solid #d9dce1; border-radius: 6px; padding: 16px 20px; margin-bottom: 24px; }
+h2 { font-size: 17px; margin: 0 0 12px; }
+h3 { font-size: 15px; margin: 0 0 8px; word-break: break-all; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; }
+.card { border: 1px solid #d9dce1; border-radius: 6px; padding: 8px 14px; min-width: 110px; }
+.card b { display: block; font-size: 20px; }
+.filters { display: flex; gap: 12px; margin-bottom: 10px; flex-wrap: wrap; }
+.filters input, .filters select { padding: 6px 8px; font: inherit; border: 1px solid #9aa1ab; border-radius: 4px; }
+.filters input { min-width: 280px; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e6e8eb; vertical-align: top; }
+th { background: #eef0f3; cursor: pointer; user-select: none; white-space: nowrap; }
+th[aria-sort="ascending"]::after { content: " \\25B2"; }
+th[aria-sort="descending"]::after { content: " \\25BC"; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.badge { display: inline-block; padding: 1px 8px; border-radius: 10px; color: #fff; font-size: 12px; }
+.badge.passed { background: ${STATUS_COLORS.passed}; }
+.badge.warning { background: ${STATUS_COLORS.warning}; }
+.badge.failed { background: ${STATUS_COLORS.failed}; }
+.file { display: grid; grid-template-columns: 180px 340px 1fr; gap: 16px; border-top: 1px solid #e6e8eb; padding: 16px 0; }
+.file:first-of-type { border-top: none; }
+.file img { width: 160px; image-rendering: pixelated; background: repeating-conic-gradient(#eee 0 25%, #fff 0 50%) 0 0 / 12px 12px; border: 1px solid #d9dce1; }
+.muted { color: #5f6670; font-size: 12px; }
+dl { display: grid; grid-template-columns: auto 1fr; gap: 2px 10px; margin: 0; font-size: 12px; }
+dt { color: #5f6670; }
+dd { margin: 0; }
+svg text { font-family: inherit; }
+@media (max-width: 960px) { .file { grid-template-columns: 1fr; } }
+`;
+
+const SCRIPT = `
+document.querySelectorAll("table.sortable").forEach(function (table) {
+  var headers = table.querySelectorAll("th");
+  headers.forEach(function (th, index) {
+    th.tabIndex = 0;
+    var sort = function () {
+      var ascending = th.getAttribute("aria-sort") !== "ascending";
+      headers.forEach(function (h) { h.removeAttribute("aria-sort"); });
+      th.setAttribute("aria-sort", ascending ? "ascending" : "descending");
+      var body = table.tBodies[0];
+      var rows = Array.prototype.slice.call(body.rows);
+      rows.sort(function (a, b) {
+        var x = a.cells[index].getAttribute("data-sort") || a.cells[index].textContent;
+        var y = b.cells[index].getAttribute("data-sort") || b.cells[index].textContent;
+        var nx = parseFloat(x), ny = parseFloat(y);
+        var cmp = !isNaN(nx) && !isNaN(ny) && String(nx) === x && String(ny) === y ? nx - ny : x.localeCompare(y);
+        return ascending ? cmp : -cmp;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    };
+    th.addEventListener("click", sort);
+    th.addEventListener("keydown", function (e) { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); sort(); } });
+  });
+});
+document.querySelectorAll(".filters").forEach(function (filters) {
+  var table = document.getElementById(filters.getAttribute("data-table"));
+  var text = filters.querySelector("input");
+  var status = filters.querySelector("select");
+  var apply = function () {
+    var query = text.value.trim().toLowerCase();
+    Array.prototype.forEach.call(table.tBodies[0].rows, function (row) {
+      var matchesText = !query || row.textContent.toLowerCase().indexOf(query) !== -1;
+      var matchesStatus = !status.value || row.getAttribute("data-status") === status.value;
+      row.hidden = !(matchesText && matchesStatus);
+    });
+  };
+  text.addEventListener("input", apply);
+  status.addEventListener("change", apply);
+});
+`;
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function violationList(result: QaResult): string {
+  const violations = resultViolations(result);
+  if (violations.length === 0) return "";
+  return `<ul>${violations.map((v) => `<li>${escapeHtml(v.message)}</li>`).join("")}</ul>`;
+}
+
+function anchorId(report: QaReport): string {
+  return `file-${report.fileId}`;
+}
+
+function badge(status: FileStatus): string {
+  return `<span class="badge ${status}">${status}</span>`;
+}
+
+function formatNumber(value: number | null | undefined, digits = 2): string {
+  return value === null || value === undefined ? "—" : Number(value.toFixed(digits)).toLocaleString("en-US");
+}
+
+function thumbnailImage(report: QaReport, thumbnail?: RasterThumbnail): string {
+  if (!thumbnail) return `<p class="muted">No thumbnail (pixels not decoded)</p>`;
+  const png = hillshadePng(thumbnail);
+  return `<img src="data:image/png;base64,${png.toString("base64")}" alt="Hillshade of ${escapeHtml(fileLabel(report))}">`;
+}
+
+function histogramSvg(histogram?: RasterHistogram): string {
+  if (!histogram || histogram.counts.length === 0) return `<p class="muted">No elevation histogram</p>`;
+
+  const { min, binWidth, counts } = histogram;
+  const max = min + binWidth * counts.length;
+  const peak = Math.max(...counts);
+  const plotHeight = HISTOGRAM_HEIGHT - 20;
+  const barWidth = HISTOGRAM_WIDTH / counts.length;
+  const bars = counts
+    .map((count, i) => {
+      const h = peak > 0 ? (count / peak) * plotHeight : 0;
+      const from = min + i * binWidth;
+      return `<rect x="${(i * barWidth).toFixed(2)}" y="${(plotHeight - h).toFixed(2)}" width="${Math.max(barWidth - 0.5, 0.5).toFixed(2)}" height="${h.toFixed(2)}" fill="#4a6fa5"><title>${formatNumber(from)} – ${formatNumber(from + binWidth)}: ${count.toLocaleString("en-US")}</title></rect>`;
+    })
+    .join("");
+
+  return `<svg width="${HISTOGRAM_WIDTH}" height="${HISTOGRAM_HEIGHT}" viewBox="0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}" role="img" aria-label="Elevation histogram">
+<line x1="0" y1="${plotHeight}" x2="${HISTOGRAM_WIDTH}" y2="${plotHeight}" stroke="#9aa1ab"/>${bars}
+<text x="0" y="${HISTOGRAM_HEIGHT - 4}" font-size="11" fill="#5f6670">${formatNumber(min)}</text>
+<text x="${HISTOGRAM_WIDTH}" y="${HISTOGRAM_HEIGHT - 4}" font-size="11" fill="#5f6670" text-anchor="end">${formatNumber(max)}</text>
+</svg>`;
+}
+
+function footprintMap(reports: QaReport[]): string {
+  const byCrs = new Map<string, QaReport[]>();
+  for (const report of reports) {
+    const { minX, minY, maxX, maxY } = report.metadata.extent;
+    if (![minX, minY, maxX, maxY].every(Number.isFinite)) continue;
+    const key = report.metadata.crs ?? "unknown CRS";
+    byCrs.set(key, [...(byCrs.get(key) ?? []), report]);
+  }
+  if (byCrs.size === 0) return `<p class="muted">No georeferenced footprints</p>`;
+
+  const [crs, shown] = [...byCrs.entries()].sort((a, b) => b[1].length - a[1].length)[0];
+  const hidden = reports.length - shown.length;
+  const minX = Math.min(...shown.map((r) => r.metadata.extent.minX));
+  const minY = Math.min(...shown.map((r) => r.metadata.extent.minY));
+  const maxX = Math.max(...shown.map((r) => r.metadata.extent.maxX));
+  const maxY = Math.max(...shown.map((r) => r.metadata.extent.maxY));
+  const pad = 10;
+  const scale = Math.min(
+    (MAP_WIDTH - 2 * pad) / Math.max(maxX - minX, 1e-9),
+    (MAP_HEIGHT - 2 * pad) / Math.max(maxY - minY, 1e-9)
+  );
+  const width = (maxX - minX) * scale + 2 * pad;
+  const height = (maxY - minY) * scale + 2 * pad;
+
+  const rects = shown
+    .map((report) => {
+      const e = report.metadata.extent;
+      const status = fileStatus(report.results);
+      const x = pad + (e.minX - minX) * scale;
+      const y = pad + (maxY - e.maxY) * scale;
+      return `<a href="#${anchorId(report)}"><rect x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${Math.max((e.maxX - e.minX) * scale, 1).toFixed(2)}" height="${Math.max((e.maxY - e.minY) * scale, 1).toFixed(2)}" fill="${STATUS_COLORS[status]}" fill-opacity="0.35" stroke="${STATUS_COLORS[status]}" stroke-width="1"><title>${escapeHtml(fileLabel(report))} (${status})</title></rect></a>`;
+    })
+    .join("\n");
+
+  return `<svg width="${width.toFixed(0)}" height="${height.toFixed(0)}" viewBox="0 0 ${width.toFixed(2)} ${height.toFixed(2)}" role="img" aria-label="Tile footprints">
+<rect width="100%" height="100%" fill="#fbfbfc" stroke="#d9dce1"/>
+${rects}
+</svg>
+<p class="muted">${escapeHtml(crs)} · ${shown.length} footprint(s) · ${formatNumber(minX)}, ${formatNumber(minY)} – ${formatNumber(maxX)}, ${formatNumber(maxY)}${hidden > 0 ? ` · ${hidden} file(s) in other or unknown CRS not shown` : ""}</p>`;
+}
+
+function filters(tableId: string, placeholder: string): string {
+  return `<div class="filters" data-table="${tableId}">
+<input type="search" placeholder="${placeholder}" aria-label="${placeholder}">
+<select aria-label="Filter by status"><option value="">All statuses</option><option value="passed">Passed</option><option value="warning">Warning</option><option value="failed">Failed</option></select>
+</div>`;
+}
+
+function filesTable(reports: QaReport[]): string {
+  const rows = reports
+    .map((report) => {
+      const status = fileStatus(report.results);
+      const failed = report.results.filter((r) => !r.passed);
+      const errors = failed.filter((r) => r.severity === QaSeverity.ERROR).length;
+      const { metadata } = report;
+      return `<tr data-status="${status}">
+<td><a href="#${anchorId(report)}">${escapeHtml(fileLabel(report))}</a></td>
+<td>${escapeHtml(metadata.format ?? "GeoTIFF")}</td>
+<td class="num" data-sort="${metadata.width * metadata.height}">${metadata.width} × ${metadata.height}</td>
+<td>${escapeHtml(metadata.crs ?? "—")}</td>
+<td class="num">${report.results.length - failed.length}</td>
+<td class="num">${errors}</td>
+<td class="num">${failed.length - errors}</td>
+<td class="num">${report.duration}</td>
+<td data-sort="${status}">${badge(status)}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  return `${filters("files-table", "Filter files, formats, CRS…")}
+<table id="files-table" class="sortable">
+<thead><tr><th>File</th><th>Format</th><th>Size (px)</th><th>CRS</th><th>Passed</th><th>Errors</th><th>Warnings</th><th>Time (ms)</th><th>Status</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+function checksTable(reports: QaReport[], batch?: BatchQaReport): string {
+  const row = (file: string, href: string | null, result: QaResult) => {
+    const status = resultStatus(result);
+    const fileCell = href ? `<a href="${href}">${escapeHtml(file)}</a>` : escapeHtml(file);
+    return `<tr data-status="${status}"><td>${fileCell}</td><td>${result.checkId}</td><td>${result.severity}</td><td data-sort="${status}">${badge(status)}</td><td>${escapeHtml(result.message)}</td></tr>`;
+  };
+  const rows = [
+    ...reports.flatMap((report) => report.results.map((r) => row(fileLabel(report), `#${anchorId(report)}`, r))),
+    ...(batch?.results ?? []).map((r) => row("(batch)", null, r)),
+  ].join("\n");
+
+  return `${filters("checks-table", "Filter checks, files, messages…")}
+<table id="checks-table" class="sortable">
+<thead><tr><th>File</th><th>Check</th><th>Severity</th><th>Status</th><th>Message</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+function fileSection(report: QaReport, thumbnail?: RasterThumbnail): string {
+  const { metadata, statistics } = report;
+  const status = fileStatus(report.results);
+  const failed = report.results.filter((r) => !r.passed);
+  const storage = storageLabel(metadata);
+  const vertical = verticalLabel(metadata);
+  const units = unitSuffix(metadata);
+  const georeferencing = [
+    metadata.rotation ? `<dt>Rotation</dt><dd>${formatNumber(metadata.rotation, 4)}°</dd>` : "",
+    vertical ? `<dt>Vertical</dt><dd>${escapeHtml(vertical)}</dd>` : "",
+    storage ? `<dt>Storage</dt><dd>${escapeHtml(storage)}</dd>` : "",
+  ].filter(Boolean).join("\n");
+  const stats = statistics
+    ? [
+      `<dt>Min / max</dt><dd>${formatNumber(statistics.min)} / ${formatNumber(statistics.max)}${units}</dd>`,
+      `<dt>Mean ± σ</dt><dd>${formatNumber(statistics.mean)} ± ${formatNumber(statistics.stdDev)}${units}</dd>`,
+      statistics.percentiles
+        ? `<dt>P5 / median / P95</dt><dd>${[5, 50, 95].map((p) => formatNumber(statisticsPercentile(statistics, p))).join(" / ")}${units}</dd>`
+        : "",
+      `<dt>Valid / nodata</dt><dd>${statistics.validCount.toLocaleString("en-US")} / ${statistics.noDataCount.toLocaleString("en-US")}</dd>`,
+    ].filter(Boolean).join("\n")
+    : "";
+
+  return `<article class="file" id="${anchorId(report)}">
+<div>${thumbnailImage(report, thumbnail)}</div>
+<div>${histogramSvg(statistics?.histogram)}
+<dl>
+<dt>Format</dt><dd>${escapeHtml(metadata.format ?? "GeoTIFF")}</dd>
+<dt>Size</dt><dd>${metadata.width} × ${metadata.height} px, ${metadata.bandCount} band(s)</dd>
+<dt>Pixel size</dt><dd>${formatNumber(metadata.pixelSize.x, 4)} × ${formatNumber(metadata.pixelSize.y, 4)}</dd>
+<dt>CRS</dt><dd>${escapeHtml(metadata.crs ?? "Not defined")}</dd>
+${georeferencing}
+<dt>NoData</dt><dd>${escapeHtml(metadata.noDataValue ?? "None")}</dd>
+${stats}
+</dl></div>
+<div><h3>${escapeHtml(fileLabel(report))} ${badge(status)}</h3>
+<p class="muted">${report.results.length - failed.length}/${report.results.length} checks passed · ${escapeHtml(report.timestamp)} · ${report.duration} ms${report.profile ? ` · profile ${escapeHtml(report.profile)}` : ""}</p>
+${failed.length > 0
+    ? `<ul>${failed.map((r) => `<li>${badge(resultStatus(r))} <b>${r.checkId}</b>: ${escapeHtml(r.message)}${violationList(r)}</li>`).join("")}</ul>`
+    : "<p>All checks passed.</p>"}
+</div>
+</article>`;
+}
+
+export function reportsToHtml(
+  reports: QaReport[],
+  thumbnails: Map<string, RasterThumbnail>,
+  batch?: BatchQaReport
+): string {
+  const all = [...reports.flatMap((r) => r.results), ...(batch?.results ?? [])];
+  const failed = all.filter((r) => !r.passed);
+  const statuses = reports.map((r) => fileStatus(r.results));
+  const cards: [string, string | number][] = [
+    ["Files", reports.length],
+    ["Passed", statuses.filter((s) => s === "passed").length],
+    ["With warnings", statuses.filter((s) => s === "warning").length],
+    ["Failed", statuses.filter((s) => s === "failed").length],
+    ["Checks run", all.length],
+    ["Checks failed", failed.length],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>MapQC Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header><h1>MapQC Report</h1><div>Generated ${escapeHtml(new Date().toISOString())}</div></header>
+<main>
+<section aria-labelledby="overview"><h2 id="overview">Overview</h2>
+<div class="cards">${cards.map(([label, value]) => `<div class="card"><b>${value}</b>${label}</div>`).join("")}</div>
+</section>
+<section aria-labelledby="footprints"><h2 id="footprints">Footprints</h2>
+${footprintMap(reports)}
+</section>
+<section aria-labelledby="files"><h2 id="files">Files</h2>
+${filesTable(reports)}
+</section>
+<section aria-labelledby="checks"><h2 id="checks">Checks</h2>
+${checksTable(reports, batch)}
+</section>
+<section aria-labelledby="details"><h2 id="details">File details</h2>
+${reports.map((r) => fileSection(r, thumbnails.get(r.fileId))).join("\n")}
+</section>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export async function writeHtmlReport(
+  reports: QaReport[],
+  outputDir: string,
+  thumbnails: Map<string, RasterThumbnail>,
+  batch?: BatchQaReport
+): Promise<string> {
+  await mkdir(outputDir, { recursive: true });
+  const filePath = join(outputDir, "summary_report.html");
+  await writeFile(filePath, reportsToHtml(reports, thumbnails, batch), "utf-8");
+  return filePath;
+}
@@ -1,19 +1,25 @@
 import { writeFile, mkdir } from "node:fs/promises";
-import { join } from "node:path";
-import { reportToJson, reportsToJson } from "@mapqc/shared";
-import type { QaReport } from "@mapqc/shared";
+import { dirname, join } from "node:path";
+import { reportToJson, reportsToJson, summaryToJson } from "@mapqc/shared";
+import type { BatchQaReport, QaReport, RunManifest } from "@mapqc/shared";
+import { reportOutputPath } from "./paths.js";
 
 export async function writeJsonReport(report: QaReport, outputDir: string): Promise<string> {
-  await mkdir(outputDir, { recursive: true });
-  const fileName = `${report.fileName.replace(/\.[^.]+$/, "")}_report.json`;
-  const filePath = join(outputDir, fileName);
+  const filePath = reportOutputPath(report, outputDir, "json");
+  await mkdir(dirname(filePath), { recursive: true });
   await writeFile(filePath, reportToJson(report), "utf-8");
   return filePath;
 }
 
-export async function writeSummaryReport(reports: QaReport[], outputDir: string): Promise<string> {
+export async function writeSummaryReport(
+  reports: QaReport[],
+  outputDir: string,
+  batch?: BatchQaReport,
+  manifest?: RunManifest,
+  legacy = false
+): Promise<string> {
   await mkdir(outputDir, { recursive: true });
   const filePath = join(outputDir, "summary_report.json");
-  await writeFile(filePath, reportsToJson(reports), "utf-8");
+  await writeFile(filePath, legacy ? reportsToJson(reports) : summaryToJson({ manifest, reports, batch }), "utf-8");
   return filePath;
 }
@@ -0,0 +1,109 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { BatchQaReport, QaReport, QaResult } from "@mapqc/shared";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;").replace(/\n/g, "&#10;");
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => ` ${k}="${escapeAttribute(String(v))}"`)
+    .join("");
+}
+
+function testCase(result: QaResult, classname: string): string[] {
+  const open = `    <testcase${attrs({ classname, name: result.checkId, time: 0 })}`;
+  if (result.passed) {
+    return [`${open}>`, `      <system-out>${escapeText(result.message)}</system-out>`, "    </testcase>"];
+  }
+
+  const body = result.details ? `${result.message}\n${JSON.stringify(result.details, null, 2)}` : result.message;
+  return [
+    `${open}>`,
+    `      <failure${attrs({ type: result.severity, message: result.message })}>${escapeText(body)}</failure>`,
+    "    </testcase>",
+  ];
+}
+
+function testSuite(
+  name: string,
+  results: QaResult[],
+  timestamp: string,
+  durationMs: number,
+  properties: Record<string, string | undefined>
+): string[] {
+  const failures = results.filter((r) => !r.passed).length;
+  const props = Object.entries(properties).filter(([, v]) => v !== undefined);
+  return [
+    `  <testsuite${attrs({
+      name,
+      tests: results.length,
+      failures,
+      errors: 0,
+      skipped: 0,
+      time: (durationMs / 1000).toFixed(3),
+      timestamp,
+    })}>`,
+    ...(props.length > 0
+      ? [
+          "    <properties>",
+          ...props.map(([k, v]) => `      <property${attrs({ name: k, value: v })}/>`),
+          "    </properties>",
+        ]
+      : []),
+    ...results.flatMap((r) => testCase(r, name)),
+    "  </testsuite>",
+  ];
+}
+
+export function reportsToJunit(reports: QaReport[], batch?: BatchQaReport): string {
+  const suites = reports.map((report) => {
+    const name = report.relativePath ?? report.fileName;
+    return testSuite(name, report.results, report.timestamp, report.duration, {
+      fileId: report.fileId,
+      format: report.metadata.format,
+      crs: report.metadata.crs ?? undefined,
+      profile: report.profile,
+    });
+  });
+  if (batch) {
+    suites.push(testSuite("batch", batch.results, batch.timestamp, 0, { fileCount: String(batch.fileCount) }));
+  }
+
+  const all = [...reports.flatMap((r) => r.results), ...(batch?.results ?? [])];
+  const time = reports.reduce((sum, r) => sum + r.duration, 0) / 1000;
+  return [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    `<testsuites${attrs({
+      name: "MapQC",
+      tests: all.length,
+      failures: all.filter((r) => !r.passed).length,
+      errors: 0,
+      time: time.toFixed(3),
+    })}>`,
+    ...suites.flat(),
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+export async function writeJunitReport(
+  reports: QaReport[],
+  outputDir: string,
+  batch?: BatchQaReport
+): Promise<string> {
+  await mkdir(outputDir, { recursive: true });
+  const filePath = join(outputDir, "summary_report.xml");
+  await writeFile(filePath, reportsToJunit(reports, batch), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,7 @@
+import { join } from "node:path";
+import type { QaReport } from "@mapqc/shared";
+
+export function reportOutputPath(report: QaReport, outputDir: string, extension: string): string {
+  const source = report.relativePath ?? report.fileName;
+  return join(outputDir, `${source}_report.${extension}`);
+}
@@ -0,0 +1,309 @@
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import type { PDFFont, PDFPage, RGB } from "pdf-lib";
+import { CLI_VERSION } from "../version.js";
+
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 50;
+const CONTENT_TOP = PAGE_SIZE[1] - 64;
+const CONTENT_BOTTOM = 56;
+const CONTENT_WIDTH = PAGE_SIZE[0] - 2 * MARGIN;
+
+export const COLORS = {
+  text: rgb(0, 0, 0),
+  muted: rgb(0.4, 0.4, 0.4),
+  rule: rgb(0.8, 0.8, 0.8),
+  passed: rgb(0, 0.5, 0),
+  warning: rgb(0.85, 0.5, 0),
+  failed: rgb(0.8, 0, 0),
+};
+
+export interface TextOptions {
+  bold?: boolean;
+  size?: number;
+  color?: RGB;
+  indent?: number;
+}
+
+export interface TableColumn {
+  text: string;
+  width: number;
+  color?: RGB;
+  bold?: boolean;
+  align?: "left" | "right";
+}
+
+export interface BarChartRow {
+  label: string;
+  passed: number;
+  failed: number;
+}
+
+export interface PdfLayout {
+  readonly doc: PDFDocument;
+  readonly contentWidth: number;
+  newPage(): void;
+  ensureSpace(height: number): void;
+  gap(height: number): void;
+  text(text: string, options?: TextOptions): void;
+  heading(text: string, size?: number): void;
+  row(columns: TableColumn[], options?: { size?: number; bold?: boolean }): void;
+  table(header: TableColumn[], rows: TableColumn[][]): void;
+  rule(): void;
+  image(png: Uint8Array, width: number, height: number, caption?: string): Promise<void>;
+  barChart(rows: BarChartRow[]): void;
+  save(): Promise<Uint8Array>;
+}
+
+function wrapLine(line: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  const pushWord = (word: string) => {
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  };
+
+  for (const word of line.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+    } else {
+      if (current) lines.push(current);
+      pushWord(word);
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  return text.split(/\r?\n/).flatMap((line) => wrapLine(line, font, size, maxWidth));
+}
+
+function truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 1 && font.widthOfTextAtSize(`${text.slice(0, end)}…`, size) > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+export async function createPdfLayout(title: string, subtitle: string): Promise<PdfLayout> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await doc.embedFont(StandardFonts.HelveticaBold);
+  const charset = new Set(font.getCharacterSet());
+  const generated = new Date().toISOString();
+
+  const clean = (text: string) =>
+    [...text].map((c) => (charset.has(c.codePointAt(0) ?? 0) ? c : "?")).join("");
+
+  let page: PDFPage = doc.addPage(PAGE_SIZE);
+  let y = CONTENT_TOP;
+
+  const layout: PdfLayout = {
+    doc,
+    contentWidth: CONTENT_WIDTH,
+
+    newPage() {
+      page = doc.addPage(PAGE_SIZE);
+      y = CONTENT_TOP;
+    },
+
+    ensureSpace(height) {
+      if (y - height < CONTENT_BOTTOM) layout.newPage();
+    },
+
+    gap(height) {
+      y -= height;
+    },
+
+    text(text, options = {}) {
+      const size = options.size ?? 10;
+      const selected = options.bold ? boldFont : font;
+      const indent = options.indent ?? 0;
+      const lineHeight = size * 1.4;
+      for (const line of wrapText(clean(text), selected, size, CONTENT_WIDTH - indent)) {
+        layout.ensureSpace(lineHeight);
+        page.drawText(line, {
+          x: MARGIN + indent,
+          y: y - size,
+          size,
+          font: selected,
+          color: options.color ?? COLORS.text,
+        });
+        y -= lineHeight;
+      }
+    },
+
+    heading(text, size = 12) {
+      layout.ensureSpace(size * 4);
+      y -= size * 0.6;
+      layout.text(text, { bold: true, size });
+      y -= 2;
+    },
+
+    row(columns, options = {}) {
+      const size = options.size ?? 9;
+      const lineHeight = size * 1.5;
+      layout.ensureSpace(lineHeight);
+      let x = MARGIN;
+      for (const column of columns) {
+        const selected = (column.bold ?? options.bold) ? boldFont : font;
+        const text = truncate(clean(column.text), selected, size, column.width - 4);
+        const offset = column.align === "right" ? column.width - 4 - selected.widthOfTextAtSize(text, size) : 0;
+        page.drawText(text, {
+          x: x + offset,
+          y: y - size,
+          size,
+          font: selected,
+          color: column.color ?? COLORS.text,
+        });
+        x += column.width;
+      }
+      y -= lineHeight;
+    },
+
+    table(header, rows) {
+      const lineHeight = 9 * 1.5;
+      const drawHeader = () => {
+        layout.row(header, { bold: true });
+        layout.rule();
+      };
+      layout.ensureSpace(lineHeight * 2 + 6);
+      drawHeader();
+      for (const columns of rows) {
+        if (y - lineHeight < CONTENT_BOTTOM) {
+          layout.newPage();
+          drawHeader();
+        }
+        layout.row(columns);
+      }
+    },
+
+    rule() {
+      layout.ensureSpace(6);
+      page.drawLine({
+        start: { x: MARGIN, y: y - 2 },
+        end: { x: MARGIN + CONTENT_WIDTH, y: y - 2 },
+        thickness: 0.5,
+        color: COLORS.rule,
+      });
+      y -= 6;
+    },
+
+    async image(png, width, height, caption) {
+      const embedded = await doc.embedPng(png);
+      const scale = Math.min(width / embedded.width, height / embedded.height);
+      const drawWidth = embedded.width * scale;
+      const drawHeight = embedded.height * scale;
+      layout.ensureSpace(drawHeight + (caption ? 14 : 4));
+      page.drawImage(embedded, { x: MARGIN, y: y - drawHeight, width: drawWidth, height: drawHeight });
+      page.drawRectangle({
+        x: MARGIN,
+        y: y - drawHeight,
+        width: drawWidth,
+        height: drawHeight,
+        borderColor: COLORS.rule,
+        borderWidth: 0.5,
+      });
+      y -= drawHeight + 4;
+      if (caption) layout.text(caption, { size: 8, color: COLORS.muted });
+    },
+
+    barChart(rows) {
+      const size = 8;
+      const labelWidth = 150;
+      const countWidth = 60;
+      const barWidth = CONTENT_WIDTH - labelWidth - countWidth;
+      const barHeight = 9;
+      const rowHeight = 14;
+      const maxTotal = Math.max(1, ...rows.map((r) => r.passed + r.failed));
+
+      layout.ensureSpace(rowHeight * 2);
+      const legend: [string, RGB][] = [["Passed", COLORS.passed], ["Failed", COLORS.failed]];
+      let legendX = MARGIN + labelWidth;
+      for (const [label, color] of legend) {
+        page.drawRectangle({ x: legendX, y: y - barHeight, width: barHeight, height: barHeight, color });
+        page.drawText(label, { x: legendX + barHeight + 4, y: y - size - 0.5, size, font, color: COLORS.muted });
+        legendX += 70;
+      }
+      y -= rowHeight;
+
+      for (const row of rows) {
+        layout.ensureSpace(rowHeight);
+        const total = row.passed + row.failed;
+        const passedWidth = (row.passed / maxTotal) * barWidth;
+        const failedWidth = (row.failed / maxTotal) * barWidth;
+        const barX = MARGIN + labelWidth;
+        page.drawText(truncate(clean(row.label), font, size, labelWidth - 6), {
+          x: MARGIN,
+          y: y - size - 0.5,
+          size,
+          font,
+        });
+        if (passedWidth > 0) {
+          page.drawRectangle({ x: barX, y: y - barHeight, width: passedWidth, height: barHeight, color: COLORS.passed });
+        }
+        if (failedWidth > 0) {
+          page.drawRectangle({
+            x: barX + passedWidth,
+            y: y - barHeight,
+            width: failedWidth,
+            height: barHeight,
+            color: COLORS.failed,
+          });
+        }
+        const count = `${row.passed}/${total}`;
+        page.drawText(count, {
+          x: MARGIN + CONTENT_WIDTH - font.widthOfTextAtSize(count, size),
+          y: y - size - 0.5,
+          size,
+          font,
+          color: COLORS.muted,
+        });
+        y -= rowHeight;
+      }
+    },
+
+    async save() {
+      const pages = doc.getPages();
+      pages.forEach((p, i) => {
+        const { height } = p.getSize();
+        p.drawText(clean(title), { x: MARGIN, y: height - 36, size: 9, font: boldFont, color: COLORS.muted });
+        const sub = truncate(clean(subtitle), font, 9, CONTENT_WIDTH / 2);
+        p.drawText(sub, {
+          x: MARGIN + CONTENT_WIDTH - font.widthOfTextAtSize(sub, 9),
+          y: height - 36,
+          size: 9,
+          font,
+          color: COLORS.muted,
+        });
+        p.drawLine({
+          start: { x: MARGIN, y: height - 42 },
+          end: { x: MARGIN + CONTENT_WIDTH, y: height - 42 },
+          thickness: 0.5,
+          color: COLORS.rule,
+        });
+        p.drawLine({ start: { x: MARGIN, y: 40 }, end: { x: MARGIN + CONTENT_WIDTH, y: 40 }, thickness: 0.5, color: COLORS.rule });
+        p.drawText(`MapQC ${CLI_VERSION} · ${generated}`, { x: MARGIN, y: 28, size: 8, font, color: COLORS.muted });
+        const pageLabel = `Page ${i + 1} of ${pages.length}`;
+        p.drawText(pageLabel, {
+          x: MARGIN + CONTENT_WIDTH - font.widthOfTextAtSize(pageLabel, 8),
+          y: 28,
+          size: 8,
+          font,
+          color: COLORS.muted,
+        });
+      });
+      return doc.save();
+    },
+  };
+
+  return layout;
+}
@@ -1,107 +1,184 @@
 import { writeFile, mkdir } from "node:fs/promises";
-import { join } from "node:path";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
-import type { QaReport } from "@mapqc/shared";
+import { dirname, join } from "node:path";
+import { QaSeverity, VERTICAL_UNIT_SYMBOLS, resultViolations, statisticsPercentile } from "@mapqc/shared";
+import type { BatchQaReport, QaReport, QaResult, RasterThumbnail } from "@mapqc/shared";
+import { reportOutputPath } from "./paths.js";
+import { hillshadePng } from "./png.js";
+import { COLORS, createPdfLayout, type BarChartRow, type PdfLayout } from "./pdfLayout.js";
+import { fileLabel, fileStatus, resultStatus, storageLabel, verticalLabel, type FileStatus } from "./status.js";
+
+const STATUS_LABELS: Record<FileStatus, string> = {
+  passed: "PASS",
+  warning: "WARN",
+  failed: "FAIL",
+};
+
+function formatValue(value: number | null | undefined, digits = 2): string {
+  return value === null || value === undefined ? "n/a" : value.toFixed(digits);
+}
 
-export async function writePdfReport(report: QaReport, outputDir: string): Promise<string> {
-  await mkdir(outputDir, { recursive: true });
+function drawResults(layout: PdfLayout, results: QaResult[]): void {
+  for (const result of results) {
+    const status = resultStatus(result);
+    layout.ensureSpace(28);
+    layout.row([
+      { text: `[${STATUS_LABELS[status]}]`, width: 44, color: COLORS[status], bold: true },
+      { text: result.checkId, width: 160, bold: true },
+      { text: result.severity, width: 80, color: COLORS.muted },
+    ]);
+    layout.text(result.message, { indent: 44, size: 9 });
+    for (const violation of resultViolations(result)) {
+      layout.text(`- ${violation.message}`, { indent: 54, size: 8 });
+    }
+  }
+}
 
-  const pdfDoc = await PDFDocument.create();
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-
-  const page = pdfDoc.addPage([612, 792]);
-  const { height } = page.getSize();
-  let y = height - 50;
-  const leftMargin = 50;
-  const lineHeight = 16;
-
-  const drawText = (text: string, options?: { bold?: boolean; size?: number; color?: ReturnType<typeof rgb> }) => {
-    const size = options?.size ?? 10;
-    const selectedFont = options?.bold ? boldFont : font;
-    const color = options?.color ?? rgb(0, 0, 0);
-    page.drawText(text, { x: leftMargin, y, size, font: selectedFont, color });
-    y -= lineHeight;
-  };
-
-  drawText("MapQC Report", { bold: true, size: 18 });
-  y -= 10;
-
-  drawText(`File: ${report.fileName}`, { bold: true, size: 12 });
-  drawText(`ID: ${report.fileId}`, { size: 9, color: rgb(0.4, 0.4, 0.4) });
-  drawText(`Timestamp: ${report.timestamp}`);
-  drawText(`Duration: ${report.duration}ms`);
-  y -= 10;
-
-  drawText("Metadata", { bold: true, size: 12 });
-  drawText(`Dimensions: ${report.metadata.width} x ${report.metadata.height}`);
-  drawText(`Bands: ${report.metadata.bandCount}`);
-  drawText(`Bits per sample: ${report.metadata.bitsPerSample.join(", ")}`);
-  drawText(`CRS: ${report.metadata.crs ?? "Not defined"}`);
-  drawText(`NoData: ${report.metadata.noDataValue ?? "Not defined"}`);
-  drawText(`Pixel size: ${report.metadata.pixelSize.x.toFixed(4)} x ${report.metadata.pixelSize.y.toFixed(4)}`);
-  const ext = report.metadata.extent;
-  drawText(`Extent: [${ext.minX.toFixed(2)}, ${ext.minY.toFixed(2)}, ${ext.maxX.toFixed(2)}, ${ext.maxY.toFixed(2)}]`);
-  y -= 10;
-
-  drawText("QA Results", { bold: true, size: 12 });
-  y -= 5;
-
-  for (const result of report.results) {
-    const status = result.passed ? "PASS" : "FAIL";
-    const color = result.passed ? rgb(0, 0.5, 0) : rgb(0.8, 0, 0);
-    drawText(`[${status}] ${result.checkId}: ${result.message}`, { color });
+function checkChartRows(reports: QaReport[], batch?: BatchQaReport): BarChartRow[] {
+  const counts = new Map<string, BarChartRow>();
+  for (const result of [...reports.flatMap((r) => r.results), ...(batch?.results ?? [])]) {
+    const row = counts.get(result.checkId) ?? { label: result.checkId, passed: 0, failed: 0 };
+    if (result.passed) row.passed++;
+    else row.failed++;
+    counts.set(result.checkId, row);
   }
+  return [...counts.values()];
+}
 
-  y -= 15;
-  const passed = report.results.filter((r: { passed: boolean }) => r.passed).length;
-  const total = report.results.length;
-  drawText(`Summary: ${passed}/${total} checks passed`, { bold: true });
+export async function writePdfReport(
+  report: QaReport,
+  outputDir: string,
+  thumbnail?: RasterThumbnail
+): Promise<string> {
+  const label = fileLabel(report);
+  const layout = await createPdfLayout("MapQC Report", label);
+  const { metadata, statistics } = report;
+
+  layout.text("MapQC Report", { bold: true, size: 18 });
+  layout.gap(6);
+  layout.text(`File: ${label}`, { bold: true, size: 12 });
+  layout.text(`ID: ${report.fileId}`, { size: 9, color: COLORS.muted });
+  layout.text(`Timestamp: ${report.timestamp}`);
+  layout.text(`Duration: ${report.duration}ms`);
+  if (report.profile) layout.text(`Profile: ${report.profile}`);
+
+  if (thumbnail) {
+    layout.heading("Hillshade");
+    await layout.image(hillshadePng(thumbnail), 200, 200, `${metadata.width} x ${metadata.height} px, shaded from the north-west`);
+  }
 
-  const pdfBytes = await pdfDoc.save();
-  const fileName = `${report.fileName.replace(/\.[^.]+$/, "")}_report.pdf`;
-  const filePath = join(outputDir, fileName);
+  layout.heading("Metadata");
+  layout.text(`Format: ${metadata.format ?? "GeoTIFF"}`);
+  layout.text(`Dimensions: ${metadata.width} x ${metadata.height}`);
+  layout.text(`Bands: ${metadata.bandCount}`);
+  layout.text(`Bits per sample: ${metadata.bitsPerSample.join(", ")}`);
+  layout.text(`CRS: ${metadata.crs ?? "Not defined"}`);
+  layout.text(`NoData: ${metadata.noDataValue ?? "Not defined"}`);
+  layout.text(`Pixel size: ${metadata.pixelSize.x.toFixed(4)} x ${metadata.pixelSize.y.toFixed(4)}`);
+  const ext = metadata.extent;
+  layout.text(`Extent: [${ext.minX.toFixed(2)}, ${ext.minY.toFixed(2)}, ${ext.maxX.toFixed(2)}, ${ext.maxY.toFixed(2)}]`);
+  if (metadata.rotation) layout.text(`Rotation: ${metadata.rotation.toFixed(4)} deg`);
+  if (metadata.rasterType) layout.text(`Raster type: ${metadata.rasterType}`);
+  const vertical = verticalLabel(metadata);
+  if (vertical) layout.text(`Vertical: ${vertical}`);
+  const storage = storageLabel(metadata);
+  if (storage) layout.text(`Storage: ${storage}`);
+
+  if (statistics) {
+    const units = metadata.verticalUnits ? ` (${VERTICAL_UNIT_SYMBOLS[metadata.verticalUnits]})` : "";
+    layout.heading(`Elevation Statistics${units}`);
+    layout.text(`Min / max: ${formatValue(statistics.min)} / ${formatValue(statistics.max)}`);
+    layout.text(`Mean / std. dev.: ${formatValue(statistics.mean)} / ${formatValue(statistics.stdDev)}`);
+    if (statistics.percentiles) {
+      layout.text(`P5 / median / P95: ${[5, 50, 95].map((p) => formatValue(statisticsPercentile(statistics, p))).join(" / ")}`);
+    }
+    layout.text(`Valid / nodata / invalid pixels: ${statistics.validCount} / ${statistics.noDataCount} / ${statistics.invalidCount}`);
+  }
+
+  layout.heading("QA Results");
+  drawResults(layout, report.results);
+
+  const passed = report.results.filter((r) => r.passed).length;
+  layout.gap(8);
+  layout.text(`Summary: ${passed}/${report.results.length} checks passed`, { bold: true });
+
+  const pdfBytes = await layout.save();
+  const filePath = reportOutputPath(report, outputDir, "pdf");
+  await mkdir(dirname(filePath), { recursive: true });
   await writeFile(filePath, pdfBytes);
   return filePath;
 }
 
-export async function writeSummaryPdf(reports: QaReport[], outputDir: string): Promise<string> {
+export async function writeSummaryPdf(
+  reports: QaReport[],
+  outputDir: string,
+  batch?: BatchQaReport
+): Promise<string> {
   await mkdir(outputDir, { recursive: true });
+  const layout = await createPdfLayout("MapQC Batch Summary", `${reports.length} file(s)`);
+
+  const statuses = reports.map((r) => fileStatus(r.results));
+  const results = [...reports.flatMap((r) => r.results), ...(batch?.results ?? [])];
+  const failed = results.filter((r) => !r.passed);
+  const profiles = [...new Set(reports.map((r) => r.profile).filter((p): p is string => !!p))];
+
+  layout.gap(160);
+  layout.text("MapQC Batch Summary", { bold: true, size: 26 });
+  layout.gap(8);
+  layout.text(new Date().toUTCString(), { color: COLORS.muted });
+  if (profiles.length > 0) layout.text(`Profile: ${profiles.join(", ")}`, { color: COLORS.muted });
+  layout.gap(24);
+  layout.text(`Total files: ${reports.length}`, { size: 14, bold: true });
+  layout.text(`Passed: ${statuses.filter((s) => s === "passed").length}`, { size: 12, color: COLORS.passed });
+  layout.text(`With warnings: ${statuses.filter((s) => s === "warning").length}`, { size: 12, color: COLORS.warning });
+  layout.text(`Failed: ${statuses.filter((s) => s === "failed").length}`, { size: 12, color: COLORS.failed });
+  layout.gap(12);
+  layout.text(`Checks run: ${results.length}`, { size: 12 });
+  layout.text(
+    `Checks failed: ${failed.length} (${failed.filter((r) => r.severity === QaSeverity.ERROR).length} error, ${failed.filter((r) => r.severity === QaSeverity.WARNING).length} warning)`,
+    { size: 12 }
+  );
+
+  layout.newPage();
+  layout.heading("Checks by Type");
+  layout.barChart(checkChartRows(reports, batch));
+
+  if (batch) {
+    layout.heading("Batch Checks");
+    drawResults(layout, batch.results);
+  }
 
-  const pdfDoc = await PDFDocument.create();
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-
-  const page = pdfDoc.addPage([612, 792]);
-  const { height } = page.getSize();
-  let y = height - 50;
-  const leftMargin = 50;
-  const lineHeight = 16;
-
-  const drawText = (text: string, options?: { bold?: boolean; size?: number; color?: ReturnType<typeof rgb> }) => {
-    const size = options?.size ?? 10;
-    const selectedFont = options?.bold ? boldFont : font;
-    const color = options?.color ?? rgb(0, 0, 0);
-    page.drawText(text, { x: leftMargin, y, size, font: selectedFont, color });
-    y -= lineHeight;
-  };
-
-  drawText("MapQC Batch Summary", { bold: true, size: 18 });
-  y -= 10;
-  drawText(`Total files: ${reports.length}`, { size: 12 });
-  y -= 10;
-
-  for (const report of reports) {
-    const passed = report.results.filter((r: { passed: boolean }) => r.passed).length;
-    const total = report.results.length;
-    const allPassed = passed === total;
-    const color = allPassed ? rgb(0, 0.5, 0) : rgb(0.8, 0, 0);
-    drawText(`${report.fileName}: ${passed}/${total} passed (${report.duration}ms)`, { color });
-
-    if (y < 50) break;
+  layout.heading("Files");
+  layout.table(
+    [
+      { text: "File", width: 292 },
+      { text: "Status", width: 50 },
+      { text: "Passed", width: 60, align: "right" },
+      { text: "Time (ms)", width: 110, align: "right" },
+    ],
+    reports.map((report, i) => {
+      const status = statuses[i];
+      const passed = report.results.filter((r) => r.passed).length;
+      return [
+        { text: fileLabel(report), width: 292 },
+        { text: STATUS_LABELS[status], width: 50, color: COLORS[status], bold: true },
+        { text: `${passed}/${report.results.length}`, width: 60, align: "right" },
+        { text: String(report.duration), width: 110, align: "right" },
+      ];
+    })
+  );
+
+  const failing = reports.filter((r) => r.results.some((res) => !res.passed));
+  if (failing.length > 0) {
+    layout.heading("Failures by File");
+    for (const report of failing) {
+      layout.ensureSpace(40);
+      layout.gap(4);
+      layout.text(fileLabel(report), { bold: true });
+      drawResults(layout, report.results.filter((r) => !r.passed));
+    }
   }
 
-  const pdfBytes = await pdfDoc.save();
+  const pdfBytes = await layout.save();
   const filePath = join(outputDir, "summary_report.pdf");
   await writeFile(filePath, pdfBytes);
   return filePath;
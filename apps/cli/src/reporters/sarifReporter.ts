@@ -0,0 +1,135 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { QaSeverity } from "@mapqc/shared";
+import type { BatchQaReport, QaReport, QaResult } from "@mapqc/shared";
+import { CLI_VERSION } from "../version.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const INPUT_ROOT = "INPUTROOT";
+
+const LEVELS: Record<QaSeverity, string> = {
+  [QaSeverity.ERROR]: "error",
+  [QaSeverity.WARNING]: "warning",
+  [QaSeverity.INFO]: "note",
+};
+
+interface PixelSpan {
+  minRow: number;
+  minCol: number;
+  maxRow: number;
+  maxCol: number;
+  properties: Record<string, unknown>;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function toSpan(entry: Record<string, unknown>): PixelSpan | null {
+  if (isNumber(entry.row) && isNumber(entry.col)) {
+    return { minRow: entry.row, minCol: entry.col, maxRow: entry.row, maxCol: entry.col, properties: entry };
+  }
+  if (isNumber(entry.minRow) && isNumber(entry.minCol) && isNumber(entry.maxRow) && isNumber(entry.maxCol)) {
+    return { minRow: entry.minRow, minCol: entry.minCol, maxRow: entry.maxRow, maxCol: entry.maxCol, properties: entry };
+  }
+  return null;
+}
+
+function pixelSpans(details: Record<string, unknown> | undefined): PixelSpan[] {
+  if (!details) return [];
+  return Object.values(details)
+    .filter((value): value is unknown[] => Array.isArray(value))
+    .flat()
+    .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+    .map(toSpan)
+    .filter((span): span is PixelSpan => span !== null);
+}
+
+function describeSpan(span: PixelSpan): string {
+  const { minRow, minCol, maxRow, maxCol, properties } = span;
+  const where = minRow === maxRow && minCol === maxCol
+    ? `row ${minRow}, col ${minCol}`
+    : `rows ${minRow}-${maxRow}, cols ${minCol}-${maxCol}`;
+  const extras = ["value", "kind", "pixelCount"]
+    .filter((k) => properties[k] !== undefined)
+    .map((k) => `${k} ${properties[k]}`);
+  return extras.length > 0 ? `${where} (${extras.join(", ")})` : where;
+}
+
+function toSarifResult(result: QaResult, uri?: string): Record<string, unknown> {
+  const artifactLocation = uri ? { uri, uriBaseId: INPUT_ROOT } : undefined;
+  const spans = pixelSpans(result.details);
+  const locations = !artifactLocation
+    ? []
+    : spans.length === 0
+      ? [{ physicalLocation: { artifactLocation } }]
+      : spans.map((span) => ({
+          physicalLocation: {
+            artifactLocation,
+            region: {
+              startLine: span.minRow + 1,
+              startColumn: span.minCol + 1,
+              endLine: span.maxRow + 1,
+              endColumn: span.maxCol + 2,
+            },
+          },
+          message: { text: describeSpan(span) },
+          properties: span.properties,
+        }));
+
+  return {
+    ruleId: result.checkId,
+    level: LEVELS[result.severity],
+    message: { text: result.message },
+    ...(locations.length > 0 ? { locations } : {}),
+    ...(result.details ? { properties: { details: result.details } } : {}),
+  };
+}
+
+export function reportsToSarif(reports: QaReport[], inputDir: string, batch?: BatchQaReport): string {
+  const results = [
+    ...reports.flatMap((report) =>
+      report.results
+        .filter((r) => !r.passed)
+        .map((r) => toSarifResult(r, report.relativePath ?? report.fileName))
+    ),
+    ...(batch?.results ?? []).filter((r) => !r.passed).map((r) => toSarifResult(r)),
+  ];
+  const checkIds = [
+    ...new Set([...reports.flatMap((r) => r.results), ...(batch?.results ?? [])].map((r) => r.checkId)),
+  ].sort();
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "MapQC",
+            version: CLI_VERSION,
+            rules: checkIds.map((id) => ({ id, name: id })),
+          },
+        },
+        originalUriBaseIds: {
+          [INPUT_ROOT]: { uri: pathToFileURL(resolve(inputDir)).href.replace(/\/?$/, "/") },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+export async function writeSarifReport(
+  reports: QaReport[],
+  outputDir: string,
+  inputDir: string,
+  batch?: BatchQaReport
+): Promise<string> {
+  await mkdir(outputDir, { recursive: true });
+  const filePath = join(outputDir, "summary_report.sarif");
+  await writeFile(filePath, reportsToSarif(reports, inputDir, batch), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,43 @@
+import { QaSeverity, VERTICAL_UNIT_NAMES, VERTICAL_UNIT_SYMBOLS, verticalCrsLabel } from "@mapqc/shared";
+import type { GeoTiffMetadata, QaReport, QaResult } from "@mapqc/shared";
+
+export type FileStatus = "passed" | "warning" | "failed";
+
+export function fileLabel(report: QaReport): string {
+  return report.relativePath ?? report.fileName;
+}
+
+export function storageLabel(metadata: GeoTiffMetadata): string | null {
+  const { compression, tiling, overviews } = metadata;
+  if (!compression && !tiling) return null;
+  const parts = [compression ?? "Unknown compression"];
+  if (tiling) {
+    parts.push(tiling.tiled ? `tiled ${tiling.blockWidth}x${tiling.blockHeight}` : `strips of ${tiling.blockHeight} row(s)`);
+  }
+  if (overviews) parts.push(overviews.length > 0 ? `${overviews.length} overview(s)` : "no overviews");
+  return parts.join(", ");
+}
+
+export function verticalLabel(metadata: GeoTiffMetadata): string | null {
+  const { verticalCrs, verticalUnits } = metadata;
+  if (!verticalCrs && !verticalUnits) return null;
+  return [
+    verticalCrs ? verticalCrsLabel(verticalCrs) : "Unknown datum",
+    verticalUnits ? VERTICAL_UNIT_NAMES[verticalUnits] : "units not declared",
+  ].join(", ");
+}
+
+export function unitSuffix(metadata: GeoTiffMetadata): string {
+  return metadata.verticalUnits ? ` ${VERTICAL_UNIT_SYMBOLS[metadata.verticalUnits]}` : "";
+}
+
+export function resultStatus(result: QaResult): FileStatus {
+  if (result.passed) return "passed";
+  return result.severity === QaSeverity.ERROR ? "failed" : "warning";
+}
+
+export function fileStatus(results: QaResult[]): FileStatus {
+  const statuses = results.map(resultStatus);
+  if (statuses.includes("failed")) return "failed";
+  return statuses.includes("warning") ? "warning" : "passed";
+}
@@ -1,46 +1,259 @@
-import { readdir } from "node:fs/promises";
-import { join, basename } from "node:path";
+import { readdir, readFile, realpath, stat } from "node:fs/promises";
+import { join, basename, dirname, isAbsolute, relative, resolve, sep } from "node:path";
 import { randomUUID } from "node:crypto";
-import { runAllChecks, buildReport } from "@mapqc/shared";
-import type { QaReport } from "@mapqc/shared";
-import { loadGeoTiff } from "./geo/loadGeoTiff.js";
+import {
+  runAllChecks,
+  buildReport,
+  createPixelCheckSink,
+  createStatisticsSink,
+  createTileEdgesSink,
+  hasPixelChecks,
+  hasStatisticsChecks,
+  runStatisticsChecks,
+  isCheckEnabled,
+  applySeverityOverride,
+  QaCheckId,
+} from "@mapqc/shared";
+import type { QaReport, RasterRowSink, ScanOptions } from "@mapqc/shared";
+import { openRaster, SCANNABLE_EXTENSIONS } from "./geo/loadRaster.js";
+import { DEFAULT_MAX_MEMORY_MB, readRasterRows, rowsPerRead } from "./geo/rasterSource.js";
+import { createThumbnailSink } from "./geo/thumbnail.js";
+import { checkSidecars } from "./sidecars.js";
+import { computeCacheKey, loadCachedReport, saveCachedReport, type CacheKey } from "./cache.js";
+import { matchesGlob } from "./glob.js";
+import { hashFile } from "./hash.js";
 import type { RunContext } from "./context.js";
 
-const TIFF_EXTENSIONS = [".tif", ".tiff"];
+export function toRelativePath(inputDir: string, filePath: string): string {
+  const rel = relative(inputDir, filePath);
+  const safe = rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)
+    ? resolve(filePath).replace(/^([A-Za-z]:)?[\\/]+/, "")
+    : rel;
+  return safe.split(sep).join("/");
+}
+
+function isSelected(relativePath: string, options: ScanOptions): boolean {
+  const lower = relativePath.toLowerCase();
+  if (!SCANNABLE_EXTENSIONS.some((ext) => lower.endsWith(ext))) return false;
+  if (options.include?.length && !options.include.some((p) => matchesGlob(relativePath, p))) return false;
+  return !options.exclude?.some((p) => matchesGlob(relativePath, p));
+}
+
+function isExcludedDirectory(relativePath: string, options: ScanOptions): boolean {
+  return !!options.exclude?.some(
+    (p) => matchesGlob(relativePath, p) || matchesGlob(`${relativePath}/`, p)
+  );
+}
+
+async function walk(
+  ctx: RunContext,
+  dir: string,
+  depth: number,
+  visited: Set<string>,
+  files: string[]
+): Promise<void> {
+  const { inputDir, scan = {} } = ctx.config;
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    const rel = toRelativePath(inputDir, path);
+    let isDirectory = entry.isDirectory();
+    let isFile = entry.isFile();
+
+    if (entry.isSymbolicLink()) {
+      if (!scan.followSymlinks) {
+        ctx.logger.debug(`Skipping symlink: ${rel}`);
+        continue;
+      }
+      try {
+        const target = await stat(path);
+        isDirectory = target.isDirectory();
+        isFile = target.isFile();
+      } catch {
+        ctx.logger.warn(`Skipping broken symlink: ${rel}`);
+        continue;
+      }
+    }
+
+    if (isDirectory) {
+      if (!scan.recursive) continue;
+      if (scan.maxDepth !== undefined && depth >= scan.maxDepth) continue;
+      if (isExcludedDirectory(rel, scan)) {
+        ctx.logger.debug(`Skipping excluded directory: ${rel}`);
+        continue;
+      }
+      const real = await realpath(path);
+      if (visited.has(real)) {
+        ctx.logger.warn(`Skipping directory already visited (symlink loop?): ${rel}`);
+        continue;
+      }
+      visited.add(real);
+      await walk(ctx, path, depth + 1, visited, files);
+    } else if (isFile && isSelected(rel, scan)) {
+      files.push(path);
+    }
+  }
+}
+
+async function readFileList(ctx: RunContext, listFile: string): Promise<string[]> {
+  const { inputDir, scan = {} } = ctx.config;
+  const baseDir = dirname(listFile);
+  const lines = (await readFile(listFile, "utf-8"))
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0 && !l.startsWith("#"));
+
+  const files: string[] = [];
+  for (const line of lines) {
+    const path = isAbsolute(line) ? line : join(baseDir, line);
+    try {
+      if (!(await stat(path)).isFile()) {
+        ctx.logger.warn(`Listed path is not a file: ${line}`);
+        continue;
+      }
+    } catch {
+      ctx.logger.warn(`Listed file not found: ${line}`);
+      continue;
+    }
+    if (isSelected(toRelativePath(inputDir, path), scan)) files.push(path);
+  }
+  return files;
+}
 
 export async function scanDirectory(ctx: RunContext): Promise<string[]> {
-  const { inputDir } = ctx.config;
-  ctx.logger.info("Scanning directory", { inputDir });
+  const { inputDir, scan = {} } = ctx.config;
 
-  const entries = await readdir(inputDir, { withFileTypes: true });
-  const tiffFiles = entries
-    .filter((e) => e.isFile() && TIFF_EXTENSIONS.some((ext) => e.name.toLowerCase().endsWith(ext)))
-    .map((e) => join(inputDir, e.name));
+  let rasterFiles: string[];
+  if (scan.listFile) {
+    ctx.logger.info("Reading file list", { listFile: scan.listFile });
+    rasterFiles = await readFileList(ctx, scan.listFile);
+  } else {
+    ctx.logger.info("Scanning directory", {
+      inputDir,
+      recursive: !!scan.recursive,
+      maxDepth: scan.maxDepth,
+    });
+    rasterFiles = [];
+    await walk(ctx, inputDir, 0, new Set([await realpath(inputDir)]), rasterFiles);
+  }
+
+  const unique = [...new Set(rasterFiles)].sort((a, b) =>
+    toRelativePath(inputDir, a).localeCompare(toRelativePath(inputDir, b))
+  );
+  ctx.logger.info(`Found ${unique.length} raster file(s)`, { count: unique.length });
+  return unique;
+}
 
-  ctx.logger.info(`Found ${tiffFiles.length} GeoTIFF file(s)`, { count: tiffFiles.length });
-  return tiffFiles;
+export interface ProcessedFile {
+  report: QaReport;
+  cached: boolean;
+  sha256: string | null;
 }
 
-export async function processFile(ctx: RunContext, filePath: string): Promise<QaReport | null> {
+export async function processFile(ctx: RunContext, filePath: string): Promise<ProcessedFile | null> {
   const fileName = basename(filePath);
+  const relativePath = toRelativePath(ctx.config.inputDir, filePath);
   const fileId = randomUUID();
   const startTime = Date.now();
 
-  ctx.logger.info(`Processing: ${fileName}`, { filePath });
+  let cacheKey: CacheKey | null = null;
+  if (ctx.config.cache) {
+    try {
+      cacheKey = await computeCacheKey(ctx.config, filePath);
+      const cached = await loadCachedReport(ctx, filePath, cacheKey);
+      if (cached) {
+        ctx.logger.info(`Reused cached result: ${relativePath}`, { filePath });
+        return { report: { ...cached.report, fileName, relativePath }, cached: true, sha256: cached.sha256 };
+      }
+    } catch (err) {
+      ctx.logger.debug(`Cache lookup failed: ${relativePath}`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  ctx.logger.info(`Processing: ${relativePath}`, { filePath });
 
   try {
-    const { metadata } = await loadGeoTiff(filePath);
-    const results = runAllChecks(metadata);
-    const report = buildReport(fileId, fileName, metadata, results, startTime);
+    const source = await openRaster(filePath);
+    const { metadata } = source;
+    ctx.logger.debug(`Detected format: ${metadata.format}`, { relativePath });
+    const { profile, maxMemoryMb = DEFAULT_MAX_MEMORY_MB } = ctx.config;
+    const results = runAllChecks(metadata, { profile, tiff: source.structure });
+
+    const pixelSink = hasPixelChecks(profile) ? createPixelCheckSink(metadata, profile) : null;
+    const edgesSink = isCheckEnabled(QaCheckId.EDGE_SEAMS, profile)
+      ? createTileEdgesSink(metadata.width, metadata.height, metadata.noDataValue)
+      : null;
+    const decodePixels = pixelSink !== null || edgesSink !== null || hasStatisticsChecks(profile);
+    const statsSink = createStatisticsSink(metadata.width, metadata.noDataValue, {
+      histogramBins: ctx.config.histogramBins,
+    });
+    const thumbnailSink = ctx.config.thumbnails ? createThumbnailSink(metadata) : null;
+
+    try {
+      if (decodePixels) {
+        const rows = rowsPerRead(source, maxMemoryMb);
+        if (rows < metadata.height) {
+          ctx.logger.info(`Streaming ${relativePath} in blocks of ${rows} row(s)`, {
+            width: metadata.width,
+            height: metadata.height,
+            maxMemoryMb,
+          });
+        }
+        const sinks: RasterRowSink<unknown>[] = [statsSink];
+        if (pixelSink) sinks.push(pixelSink);
+        if (edgesSink) sinks.push(edgesSink);
+        if (thumbnailSink) sinks.push(thumbnailSink);
+        await readRasterRows(source, rows, sinks);
+      } else {
+        ctx.logger.debug("No pixel checks enabled, skipping pixel decoding", { relativePath });
+      }
+    } finally {
+      source.close();
+    }
+
+    if (pixelSink) results.push(...pixelSink.finish());
+    const statistics = decodePixels ? statsSink.finish() : undefined;
+    if (statistics) results.push(...runStatisticsChecks(metadata, statistics, profile));
+    if (isCheckEnabled(QaCheckId.SIDECARS, profile)) {
+      const sidecarResult = await checkSidecars(filePath, metadata, ctx.config.sidecars);
+      if (sidecarResult) results.push(applySeverityOverride(sidecarResult, profile));
+    }
+    const report = buildReport(
+      fileId,
+      fileName,
+      metadata,
+      results,
+      startTime,
+      profile?.name,
+      relativePath
+    );
+    if (statistics) report.statistics = statistics;
+    if (edgesSink) ctx.tileEdges.set(fileId, edgesSink.finish());
+    if (thumbnailSink && decodePixels) ctx.thumbnails.set(fileId, thumbnailSink.finish());
+
+    let sha256 = cacheKey?.sha256 ?? null;
+    if (cacheKey) {
+      try {
+        sha256 ??= await hashFile(filePath);
+        await saveCachedReport(ctx, filePath, cacheKey, report, sha256);
+      } catch (err) {
+        ctx.logger.warn(`Failed to cache result: ${relativePath}`, {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
 
     const passed = results.filter((r: { passed: boolean }) => r.passed).length;
     const failed = results.length - passed;
-    ctx.logger.info(`Completed: ${fileName}`, { passed, failed, duration: report.duration });
+    ctx.logger.info(`Completed: ${relativePath}`, { passed, failed, duration: report.duration });
 
-    return report;
+    return { report, cached: false, sha256 };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    ctx.logger.error(`Failed to process: ${fileName}`, { error: message });
+    ctx.logger.error(`Failed to process: ${relativePath}`, { error: message });
     return null;
   }
 }
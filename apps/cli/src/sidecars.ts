@@ -0,0 +1,286 @@
+import { readFile, stat } from "node:fs/promises";
+import { dirname, basename, extname, join } from "node:path";
+import { fromFile } from "geotiff";
+import { QaCheckId, QaSeverity } from "@mapqc/shared";
+import type { GeoTiffMetadata, QaResult, RunConfig } from "@mapqc/shared";
+
+export type SidecarType = "worldfile" | "aux" | "prj" | "ovr" | "msk";
+
+export interface SidecarFinding {
+  type: SidecarType;
+  path: string;
+  status: "ok" | "mismatch" | "unreadable" | "unverified";
+  issues: string[];
+}
+
+const RELATIVE_TOLERANCE = 1e-3;
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function findFirst(candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    if (await exists(candidate)) return candidate;
+  }
+  return null;
+}
+
+function withCase(paths: string[]): string[] {
+  return paths.flatMap((p) => {
+    const ext = extname(p);
+    return [p, p.slice(0, p.length - ext.length) + ext.toUpperCase()];
+  });
+}
+
+export async function findSidecars(filePath: string): Promise<Partial<Record<SidecarType, string>>> {
+  const dir = dirname(filePath);
+  const stem = basename(filePath, extname(filePath));
+  const base = join(dir, stem);
+
+  const found: Partial<Record<SidecarType, string>> = {};
+  const candidates: [SidecarType, string[]][] = [
+    ["worldfile", withCase([`${base}.tfw`, `${base}.tifw`, `${base}.wld`])],
+    ["aux", [`${filePath}.aux.xml`, `${base}.aux.xml`]],
+    ["prj", withCase([`${base}.prj`])],
+    ["ovr", withCase([`${filePath}.ovr`, `${base}.ovr`])],
+    ["msk", withCase([`${filePath}.msk`, `${base}.msk`])],
+  ];
+
+  for (const [type, paths] of candidates) {
+    const path = await findFirst(paths);
+    if (path) found[type] = path;
+  }
+  return found;
+}
+
+function differs(actual: number, expected: number, scale: number): boolean {
+  return Math.abs(actual - expected) > Math.abs(scale) * RELATIVE_TOLERANCE;
+}
+
+export function extractEpsgFromWkt(wkt: string): string | null {
+  const wkt1 = [...wkt.matchAll(/AUTHORITY\s*\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/gi)];
+  const wkt2 = [...wkt.matchAll(/\bID\s*\[\s*"EPSG"\s*,\s*(\d+)\s*\]/gi)];
+  const last = [...wkt1, ...wkt2].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).pop();
+  return last ? `EPSG:${last[1]}` : null;
+}
+
+function compareCrs(sidecarCrs: string | null, meta: GeoTiffMetadata, label: string, finding: SidecarFinding): void {
+  if (!sidecarCrs) {
+    finding.status = "unverified";
+    finding.issues.push(`${label} has no EPSG code to compare`);
+  } else if (!meta.crs) {
+    finding.status = "unverified";
+    finding.issues.push(`${label} declares ${sidecarCrs} but the GeoTIFF has no CRS`);
+  } else if (sidecarCrs !== meta.crs) {
+    finding.status = "mismatch";
+    finding.issues.push(`${label} declares ${sidecarCrs}, GeoTIFF declares ${meta.crs}`);
+  }
+}
+
+function compareGeoTransform(
+  transform: number[],
+  meta: GeoTiffMetadata,
+  label: string,
+  finding: SidecarFinding
+): void {
+  const [originX, pixelX, rotX, originY, rotY, pixelY] = transform;
+  const expected = meta.geoTransform ?? [meta.origin[0], meta.pixelSize.x, 0, meta.origin[1], 0, -Math.abs(meta.pixelSize.y)];
+  const names = ["origin X", "pixel width", "X rotation", "origin Y", "Y rotation", "pixel height"];
+  const scale = Math.hypot(expected[1], expected[4]) || 1;
+  [originX, pixelX, rotX, originY, rotY, pixelY].forEach((value, i) => {
+    if (differs(value, expected[i], scale)) {
+      finding.status = "mismatch";
+      finding.issues.push(`${label} ${names[i]} ${value} != GeoTIFF ${expected[i]}`);
+    }
+  });
+}
+
+async function checkWorldFile(path: string, meta: GeoTiffMetadata): Promise<SidecarFinding> {
+  const finding: SidecarFinding = { type: "worldfile", path, status: "ok", issues: [] };
+  const values = (await readFile(path, "utf-8"))
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0)
+    .map(Number);
+
+  if (values.length < 6 || values.slice(0, 6).some((v) => !Number.isFinite(v))) {
+    finding.status = "unreadable";
+    finding.issues.push("World file must contain six numeric lines");
+    return finding;
+  }
+
+  const [a, d, b, e, c, f] = values;
+  compareGeoTransform([c - a / 2 - b / 2, a, b, f - d / 2 - e / 2, d, e], meta, "World file", finding);
+  return finding;
+}
+
+async function checkPrj(path: string, meta: GeoTiffMetadata): Promise<SidecarFinding> {
+  const finding: SidecarFinding = { type: "prj", path, status: "ok", issues: [] };
+  const wkt = await readFile(path, "utf-8");
+  compareCrs(extractEpsgFromWkt(wkt), meta, ".prj", finding);
+  return finding;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+async function checkAux(path: string, meta: GeoTiffMetadata): Promise<SidecarFinding> {
+  const finding: SidecarFinding = { type: "aux", path, status: "ok", issues: [] };
+  const xml = await readFile(path, "utf-8");
+
+  if (!/<PAMDataset/i.test(xml)) {
+    finding.status = "unreadable";
+    finding.issues.push("Not a GDAL PAM dataset (.aux.xml)");
+    return finding;
+  }
+
+  const srs = xml.match(/<SRS[^>]*>([\s\S]*?)<\/SRS>/i);
+  if (srs) compareCrs(extractEpsgFromWkt(decodeXml(srs[1])), meta, ".aux.xml SRS", finding);
+
+  const gt = xml.match(/<GeoTransform>([\s\S]*?)<\/GeoTransform>/i);
+  if (gt) {
+    const transform = gt[1].split(",").map((v) => parseFloat(v));
+    if (transform.length === 6 && transform.every(Number.isFinite)) {
+      compareGeoTransform(transform, meta, ".aux.xml GeoTransform", finding);
+    }
+  }
+
+  const nodata = xml.match(/<NoDataValue[^>]*>([\s\S]*?)<\/NoDataValue>/i);
+  if (nodata) {
+    const value = parseFloat(nodata[1]);
+    const embedded = meta.noDataValue;
+    const same = embedded !== null && (value === embedded || (Number.isNaN(value) && Number.isNaN(embedded)));
+    if (!same) {
+      finding.status = "mismatch";
+      finding.issues.push(`.aux.xml NoDataValue ${nodata[1].trim()} != GeoTIFF ${embedded ?? "none"}`);
+    }
+  }
+
+  if (finding.status === "ok" && !srs && !gt && !nodata) {
+    finding.status = "unverified";
+    finding.issues.push(".aux.xml carries no SRS, GeoTransform or NoDataValue to compare");
+  }
+  return finding;
+}
+
+async function readImageSizes(path: string): Promise<[number, number][]> {
+  const tiff = await fromFile(path);
+  try {
+    const count = await tiff.getImageCount();
+    const sizes: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      const image = await tiff.getImage(i);
+      sizes.push([image.getWidth(), image.getHeight()]);
+    }
+    return sizes;
+  } finally {
+    tiff.close();
+  }
+}
+
+async function checkOverviews(path: string, meta: GeoTiffMetadata): Promise<SidecarFinding> {
+  const finding: SidecarFinding = { type: "ovr", path, status: "ok", issues: [] };
+  const sizes = await readImageSizes(path);
+
+  if (sizes.length === 0) {
+    finding.status = "unreadable";
+    finding.issues.push("Overview file contains no images");
+    return finding;
+  }
+
+  let previous = meta.width;
+  sizes.forEach(([w, h], level) => {
+    const factor = meta.width / w;
+    const expectedH = Math.ceil(meta.height / Math.round(factor));
+    if (w >= previous) {
+      finding.status = "mismatch";
+      finding.issues.push(`Overview ${level + 1} (${w}x${h}) is not smaller than the previous level`);
+    } else if (Math.abs(h - expectedH) > 1) {
+      finding.status = "mismatch";
+      finding.issues.push(
+        `Overview ${level + 1} is ${w}x${h}, expected height ${expectedH} for factor ${Math.round(factor)} of ${meta.width}x${meta.height}`
+      );
+    }
+    previous = w;
+  });
+  return finding;
+}
+
+async function checkMask(path: string, meta: GeoTiffMetadata): Promise<SidecarFinding> {
+  const finding: SidecarFinding = { type: "msk", path, status: "ok", issues: [] };
+  const sizes = await readImageSizes(path);
+
+  if (sizes.length === 0) {
+    finding.status = "unreadable";
+    finding.issues.push("Mask file contains no images");
+  } else if (sizes[0][0] !== meta.width || sizes[0][1] !== meta.height) {
+    finding.status = "mismatch";
+    finding.issues.push(`Mask is ${sizes[0][0]}x${sizes[0][1]}, raster is ${meta.width}x${meta.height}`);
+  }
+  return finding;
+}
+
+const VALIDATORS: Record<SidecarType, (path: string, meta: GeoTiffMetadata) => Promise<SidecarFinding>> = {
+  worldfile: checkWorldFile,
+  aux: checkAux,
+  prj: checkPrj,
+  ovr: checkOverviews,
+  msk: checkMask,
+};
+
+export async function checkSidecars(
+  filePath: string,
+  meta: GeoTiffMetadata,
+  mode: RunConfig["sidecars"]
+): Promise<QaResult | null> {
+  if (mode === "ignore") return null;
+
+  const sidecars = await findSidecars(filePath);
+  const findings: SidecarFinding[] = [];
+  for (const [type, path] of Object.entries(sidecars) as [SidecarType, string][]) {
+    try {
+      findings.push(await VALIDATORS[type](path, meta));
+    } catch (err) {
+      findings.push({
+        type,
+        path,
+        status: "unreadable",
+        issues: [err instanceof Error ? err.message : String(err)],
+      });
+    }
+  }
+
+  const problems = findings.filter((f) => f.status === "mismatch" || f.status === "unreadable");
+  const details = { mode, found: findings.map((f) => f.type), findings };
+
+  if (problems.length > 0) {
+    return {
+      checkId: QaCheckId.SIDECARS,
+      severity: mode === "error" ? QaSeverity.ERROR : QaSeverity.WARNING,
+      passed: false,
+      message: `Sidecar problems: ${problems.flatMap((f) => f.issues).join("; ")}`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.SIDECARS,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: findings.length > 0
+      ? `Sidecars consistent: ${findings.map((f) => basename(f.path)).join(", ")}`
+      : "No sidecar files found",
+    details,
+  };
+}
@@ -0,0 +1 @@
+export const CLI_VERSION = "0.1.0";
@@ -0,0 +1,178 @@
+import { appendFile, mkdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { QaReport } from "@mapqc/shared";
+import { createRunContext, type RunContext } from "./context.js";
+import { processFiles } from "./pool.js";
+import { scanDirectory, toRelativePath } from "./scanner.js";
+import { runBatch, writeFileReports, writeSummaryReports } from "./output.js";
+import { fileStatus } from "./reporters/status.js";
+
+export const DEFAULT_WATCH_INTERVAL_MS = 5000;
+export const DEFAULT_SETTLE_MS = 2000;
+
+export interface WatchOptions {
+  formats: string[];
+  concurrency: number;
+  intervalMs: number;
+  settleMs: number;
+  signal: AbortSignal;
+}
+
+export type WatchEventType = "started" | "detected" | "processed" | "unreadable" | "removed" | "summary" | "stopped";
+
+export interface WatchEvent {
+  timestamp: string;
+  runId: string;
+  event: WatchEventType;
+  file?: string;
+  data?: Record<string, unknown>;
+}
+
+interface FileState {
+  size: number;
+  mtimeMs: number;
+}
+
+interface PendingFile extends FileState {
+  since: number;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+export async function watchDirectory(ctx: RunContext, options: WatchOptions): Promise<void> {
+  const { config, logger } = ctx;
+  const { formats, concurrency, intervalMs, settleMs, signal } = options;
+  const eventsPath = join(config.outputDir, "events.jsonl");
+  const pollCtx = createRunContext(config, { ...ctx.loggerOptions, level: "warn" });
+
+  const checked = new Map<string, FileState>();
+  const pending = new Map<string, PendingFile>();
+  const reports = new Map<string, QaReport>();
+
+  await mkdir(config.outputDir, { recursive: true });
+  const emit = async (event: WatchEventType, file?: string, data?: Record<string, unknown>) => {
+    const entry: WatchEvent = { timestamp: new Date().toISOString(), runId: ctx.runId, event, file, data };
+    await appendFile(eventsPath, `${JSON.stringify(entry)}\n`, "utf-8");
+  };
+
+  const forget = (relativePath: string) => {
+    const previous = reports.get(relativePath);
+    if (!previous) return;
+    ctx.tileEdges.delete(previous.fileId);
+    ctx.thumbnails.delete(previous.fileId);
+    reports.delete(relativePath);
+  };
+
+  logger.info(`Watching ${config.inputDir}`, { runId: ctx.runId, intervalMs, settleMs, events: eventsPath });
+  await emit("started", undefined, { inputDir: config.inputDir, outputDir: config.outputDir });
+
+  while (!signal.aborted) {
+    let files: string[];
+    try {
+      files = await scanDirectory(pollCtx);
+    } catch (err) {
+      logger.warn("Failed to scan directory, retrying", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await sleep(intervalMs, signal);
+      continue;
+    }
+    const now = Date.now();
+    const ready: string[] = [];
+    let changed = false;
+
+    const present = new Set(files);
+    for (const file of [...checked.keys(), ...pending.keys()]) {
+      if (present.has(file)) continue;
+      const relativePath = toRelativePath(config.inputDir, file);
+      if (checked.delete(file)) {
+        forget(relativePath);
+        changed = true;
+        logger.info(`Removed: ${relativePath}`);
+        await emit("removed", relativePath);
+      }
+      pending.delete(file);
+    }
+
+    for (const file of files) {
+      let state: FileState;
+      try {
+        const info = await stat(file);
+        state = { size: info.size, mtimeMs: info.mtimeMs };
+      } catch {
+        continue;
+      }
+      const previous = checked.get(file);
+      if (previous && previous.size === state.size && previous.mtimeMs === state.mtimeMs) continue;
+
+      const waiting = pending.get(file);
+      if (!waiting || waiting.size !== state.size || waiting.mtimeMs !== state.mtimeMs) {
+        if (!waiting) {
+          const relativePath = toRelativePath(config.inputDir, file);
+          logger.info(`Detected: ${relativePath}`, { size: state.size });
+          await emit("detected", relativePath, { size: state.size, modified: previous !== undefined });
+        }
+        pending.set(file, { ...state, since: now });
+        if (settleMs > 0) continue;
+      }
+      if (now - (pending.get(file)?.since ?? now) >= settleMs) ready.push(file);
+    }
+
+    if (ready.length > 0) {
+      let index = 0;
+      await processFiles(ctx, ready, concurrency, async (processed) => {
+        const file = ready[index++];
+        const relativePath = toRelativePath(config.inputDir, file);
+        const waiting = pending.get(file)!;
+        pending.delete(file);
+        checked.set(file, { size: waiting.size, mtimeMs: waiting.mtimeMs });
+        forget(relativePath);
+        changed = true;
+
+        if (!processed) {
+          await emit("unreadable", relativePath);
+          return;
+        }
+        const { report } = processed;
+        reports.set(relativePath, report);
+        await writeFileReports(ctx, report, formats);
+        const passed = report.results.filter((r) => r.passed).length;
+        await emit("processed", relativePath, {
+          status: fileStatus(report.results),
+          passed,
+          failed: report.results.length - passed,
+        });
+      });
+    }
+
+    if (changed) {
+      const current = [...reports.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, r]) => r);
+      const batch = runBatch(ctx, current);
+      await writeSummaryReports(ctx, current, formats, batch);
+      const statuses = current.map((r) => fileStatus(r.results));
+      await emit("summary", undefined, {
+        files: current.length,
+        passed: statuses.filter((s) => s === "passed").length,
+        warning: statuses.filter((s) => s === "warning").length,
+        failed: statuses.filter((s) => s === "failed").length,
+        batchFailed: batch?.results.filter((r) => !r.passed).length ?? 0,
+      });
+    }
+
+    await sleep(ready.length > 0 || pending.size > 0 ? Math.min(intervalMs, Math.max(settleMs, 100)) : intervalMs, signal);
+  }
+
+  logger.info("Watch stopped", { files: reports.size, elapsed: ctx.elapsed() });
+  await emit("stopped", undefined, { files: reports.size });
+}
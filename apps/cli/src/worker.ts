@@ -0,0 +1,22 @@
+import { parentPort, workerData } from "node:worker_threads";
+import type { RunConfig } from "@mapqc/shared";
+import { RunContext } from "./context.js";
+import type { LogEntry, LogLevel } from "./logger.js";
+import { processFile } from "./scanner.js";
+import type { WorkerResult, WorkerTask } from "./pool.js";
+
+const { config, level } = workerData as { config: RunConfig; level?: LogLevel };
+
+parentPort?.on("message", async ({ index, filePath }: WorkerTask) => {
+  const logs: LogEntry[] = [];
+  const ctx = new RunContext(config, { level, sink: (entry) => logs.push(entry) });
+  const file = await processFile(ctx, filePath);
+  const result: WorkerResult = {
+    index,
+    file,
+    logs,
+    edges: file ? ctx.tileEdges.get(file.report.fileId) : undefined,
+    thumbnail: file ? ctx.thumbnails.get(file.report.fileId) : undefined,
+  };
+  parentPort?.postMessage(result);
+});
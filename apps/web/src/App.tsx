@@ -1,4 +1,18 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import {
+  VERTICAL_UNITS,
+  VERTICAL_UNIT_NAMES,
+  VERTICAL_UNIT_SYMBOLS,
+  computeStatistics,
+  convertElevation,
+  convertStatistics,
+  crsDisplayName,
+  geoTransformRotation,
+  isRotated,
+  statisticsPercentile,
+  verticalCrsLabel,
+} from "@mapqc/shared";
+import type { VerticalUnit } from "@mapqc/shared";
 import { loadRasterFile } from "./geo/loader";
 import type { RasterInfo, LoadResult } from "./geo/loader";
 import type { TerrainData, ColorRampName } from "./three/modules/TerrainModule";
@@ -9,6 +23,7 @@ import { LeafletMap } from "./components/LeafletMap";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { ProfileTool } from "./components/ProfileTool";
 import { ArcGISSearch } from "./components/ArcGISSearch";
+import { QaPanel } from "./components/QaPanel";
 import { generateSampleTerrain } from "./geo/sampleTerrain";
 import { parseUrlState, useUrlStateSync } from "./hooks/useUrlState";
 
@@ -81,6 +96,9 @@ export function App() {
   const [wireframe, setWireframe] = useState(initialUrlState.wireframe ?? false);
   const [elevRange, setElevRange] = useState<{ min: number; max: number } | null>(null);
   const [basemap, setBasemap] = useState(initialUrlState.basemap ?? "Topographic");
+  const [displayUnit, setDisplayUnit] = useState<VerticalUnit>(
+    VERTICAL_UNITS.find((unit) => unit === initialUrlState.units) ?? "metre"
+  );
 
   const [profileMode, setProfileMode] = useState(false);
   const [profileStart, setProfileStart] = useState<ProfilePoint | null>(null);
@@ -90,6 +108,21 @@ export function App() {
 
   const viewportRef = useRef<ViewportHandle>(null);
 
+  const statistics = useMemo(
+    () => terrainData ? computeStatistics(terrainData.elevations, terrainData.width, terrainData.noDataValue) : null,
+    [terrainData]
+  );
+  const sourceUnit = info?.verticalUnits ?? null;
+  const unitSymbol = VERTICAL_UNIT_SYMBOLS[displayUnit];
+  const toDisplay = useCallback(
+    (value: number) => convertElevation(value, sourceUnit, displayUnit),
+    [sourceUnit, displayUnit]
+  );
+  const displayStatistics = useMemo(
+    () => statistics ? convertStatistics(statistics, sourceUnit, displayUnit) : null,
+    [statistics, sourceUnit, displayUnit]
+  );
+
   const hasUrlCamera = !!(initialUrlState.cam && initialUrlState.target);
 
   useEffect(() => {
@@ -106,7 +139,7 @@ export function App() {
   }, []);
 
   useUrlStateSync(
-    { exaggeration, colorRamp, wireframe, basemap },
+    { exaggeration, colorRamp, wireframe, basemap, units: displayUnit },
     getCameraState
   );
 
@@ -189,29 +222,41 @@ export function App() {
       bandCount: info.bandCount,
       bitsPerSample: info.bitsPerSample,
       crs: info.crs,
+      crsWkt: info.crsWkt ?? null,
       noDataValue: info.noDataValue,
       origin: { x: info.originX, y: info.originY },
       pixelSize: { x: info.pixelSizeX, y: info.pixelSizeY },
-      elevation: { min: elevRange.min, max: elevRange.max, range: elevRange.max - elevRange.min },
+      geoTransform: info.geoTransform,
+      rasterType: info.rasterType ?? null,
+      verticalCrs: info.verticalCrs ?? null,
+      verticalUnits: sourceUnit,
+      elevation: {
+        units: displayUnit,
+        min: toDisplay(elevRange.min),
+        max: toDisplay(elevRange.max),
+        range: toDisplay(elevRange.max) - toDisplay(elevRange.min),
+      },
+      statistics: displayStatistics,
       exportedAt: new Date().toISOString(),
     };
     const baseName = fileName ? fileName.replace(/\.[^.]+$/, "") : "terrain";
     downloadBlob(JSON.stringify(report, null, 2), `${baseName}_report.json`, "application/json");
-  }, [info, elevRange, fileName]);
+  }, [info, elevRange, sourceUnit, displayUnit, toDisplay, displayStatistics, fileName]);
 
   const handleExportElevationCsv = useCallback(() => {
     if (!terrainData) return;
-    const { elevations, width, height } = terrainData;
+    const { elevations, width, height, noDataValue } = terrainData;
     const lines: string[] = [];
-    lines.push("row,col,elevation");
+    lines.push(`row,col,elevation_${unitSymbol.replace(" ", "_")}`);
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        lines.push(`${y},${x},${elevations[y * width + x].toFixed(3)}`);
+        const value = elevations[y * width + x];
+        lines.push(`${y},${x},${(value === noDataValue ? value : toDisplay(value)).toFixed(3)}`);
       }
     }
     const baseName = fileName ? fileName.replace(/\.[^.]+$/, "") : "terrain";
     downloadBlob(lines.join("\n"), `${baseName}_elevation.csv`, "text/csv");
-  }, [terrainData, fileName]);
+  }, [terrainData, unitSymbol, toDisplay, fileName]);
 
   const handleCopyLink = useCallback(() => {
     navigator.clipboard.writeText(window.location.href).then(() => {
@@ -289,7 +334,7 @@ export function App() {
   }, [handleExportScreenshot]);
 
   const totalPixels = info ? info.width * info.height : 0;
-  const elevRangeVal = elevRange ? (elevRange.max - elevRange.min) : 0;
+  const elevRangeVal = elevRange ? toDisplay(elevRange.max) - toDisplay(elevRange.min) : 0;
 
   return (
     <div className="app-layout">
@@ -344,20 +389,83 @@ export function App() {
               </div>
               <div className="info-item">
                 <span className="info-label">CRS</span>
-                <span className="info-value">{info.crs ?? "Unknown"}</span>
+                <span className="info-value">{info.crs || info.crsWkt ? crsDisplayName(info.crs, info.crsWkt) : "Unknown"}</span>
+              </div>
+              {info.compression && (
+                <div className="info-item">
+                  <span className="info-label">Compression</span>
+                  <span className="info-value">{info.compression}</span>
+                </div>
+              )}
+              {info.tiling && (
+                <div className="info-item">
+                  <span className="info-label">Layout</span>
+                  <span className="info-value">
+                    {info.tiling.tiled ? `Tiled ${info.tiling.blockWidth} x ${info.tiling.blockHeight}` : "Strips"}
+                    {info.overviews?.length ? `, ${info.overviews.length} overview(s)` : ""}
+                  </span>
+                </div>
+              )}
+              {isRotated(info.geoTransform) && (
+                <div className="info-item full-width">
+                  <span className="info-label">Rotation</span>
+                  <span className="info-value">{geoTransformRotation(info.geoTransform).toFixed(4)}°</span>
+                </div>
+              )}
+              {info.verticalCrs && (
+                <div className="info-item full-width">
+                  <span className="info-label">Vertical CRS</span>
+                  <span className="info-value">{verticalCrsLabel(info.verticalCrs)}</span>
+                </div>
+              )}
+              <div className="info-item full-width">
+                <span className="info-label">Vertical Units</span>
+                <span className="info-value">
+                  {sourceUnit ? VERTICAL_UNIT_NAMES[sourceUnit] : "Not declared (assuming metres)"}
+                </span>
               </div>
               {elevRange && (
                 <>
                   <div className="info-item">
                     <span className="info-label">Min Elev</span>
-                    <span className="info-value">{elevRange.min.toFixed(1)} m</span>
+                    <span className="info-value">{toDisplay(elevRange.min).toFixed(1)} {unitSymbol}</span>
                   </div>
                   <div className="info-item">
                     <span className="info-label">Max Elev</span>
-                    <span className="info-value">{elevRange.max.toFixed(1)} m</span>
+                    <span className="info-value">{toDisplay(elevRange.max).toFixed(1)} {unitSymbol}</span>
+                  </div>
+                </>
+              )}
+              {displayStatistics && displayStatistics.mean !== null && (
+                <>
+                  <div className="info-item">
+                    <span className="info-label">Mean Elev</span>
+                    <span className="info-value">{displayStatistics.mean.toFixed(1)} {unitSymbol}</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-label">Std Dev</span>
+                    <span className="info-value">{displayStatistics.stdDev?.toFixed(1)} {unitSymbol}</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-label">Median</span>
+                    <span className="info-value">{statisticsPercentile(displayStatistics, 50)?.toFixed(1)} {unitSymbol}</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-label">P5 / P95</span>
+                    <span className="info-value">
+                      {statisticsPercentile(displayStatistics, 5)?.toFixed(1)} / {statisticsPercentile(displayStatistics, 95)?.toFixed(1)} {unitSymbol}
+                    </span>
                   </div>
                 </>
               )}
+              {displayStatistics && (
+                <div className="info-item full-width">
+                  <span className="info-label">Valid / NoData</span>
+                  <span className="info-value">
+                    {displayStatistics.validCount.toLocaleString()} / {displayStatistics.noDataCount.toLocaleString()} px
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -371,7 +479,7 @@ export function App() {
                 <span className="stat-key">Pixels</span>
               </div>
               <div className="stat-chip">
-                <span className="stat-val">{elevRangeVal.toFixed(1)}m</span>
+                <span className="stat-val">{elevRangeVal.toFixed(1)} {unitSymbol}</span>
                 <span className="stat-key">Relief</span>
               </div>
               <div className="stat-chip">
@@ -382,6 +490,13 @@ export function App() {
           </div>
         )}
 
+        {info && (
+          <div className="sidebar-section">
+            <h2>QA Checks</h2>
+            <QaPanel info={info} terrainData={terrainData} statistics={statistics} />
+          </div>
+        )}
+
         {terrainData && (
           <div className="sidebar-section">
             <h2>Controls</h2>
@@ -423,6 +538,23 @@ export function App() {
               </div>
             </div>
 
+            <div className="control-group">
+              <label className="control-label">Elevation Units</label>
+              <div className="ramp-buttons">
+                {VERTICAL_UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    className={`ramp-btn ${displayUnit === unit ? "active" : ""}`}
+                    onClick={() => setDisplayUnit(unit)}
+                    aria-pressed={displayUnit === unit}
+                    aria-label={`Display elevations in ${VERTICAL_UNIT_NAMES[unit]}`}
+                  >
+                    {VERTICAL_UNIT_SYMBOLS[unit]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="control-group">
               <label className="control-label">
                 <input
@@ -510,6 +642,8 @@ export function App() {
                 startPoint={profileStart}
                 endPoint={profileEnd}
                 terrainBounds={bounds}
+                toDisplay={toDisplay}
+                unitSymbol={unitSymbol}
                 onClear={handleProfileClear}
               />
             );
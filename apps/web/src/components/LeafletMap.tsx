@@ -2,7 +2,10 @@ import { useEffect, useRef, useCallback } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import * as esriLeaflet from "esri-leaflet";
+import { crsDisplayName, geoTransformExtent, geoTransformPoint } from "@mapqc/shared";
+import type { CrsTransformer } from "@mapqc/shared";
 import type { RasterInfo } from "../geo/loader";
+import { rasterTransformer } from "../geo/projection";
 
 interface LeafletMapProps {
   info: RasterInfo | null;
@@ -17,117 +20,44 @@ const VALID_ESRI_BASEMAPS = new Set([
   "Gray", "DarkGray", "Imagery", "ShadedRelief", "Terrain", "USATopo",
 ]);
 
-const GEOGRAPHIC_EPSG = new Set([
-  4326, 4269, 4267, 4617, 4612, 4490, 4555, 4674, 4749, 4167, 4283, 4258,
-  4019, 4148, 4272, 4324, 4152, 4759, 4979,
-]);
+const EDGE_SEGMENTS = 16;
 
-const UTM_ZONES: Record<number, { zone: number; south: boolean }> = {};
-for (let z = 1; z <= 60; z++) {
-  UTM_ZONES[32600 + z] = { zone: z, south: false };
-  UTM_ZONES[32700 + z] = { zone: z, south: true };
-  UTM_ZONES[26900 + z] = { zone: z, south: false };
-  if (z >= 1 && z <= 22) {
-    UTM_ZONES[6300 + z] = { zone: z, south: false };
-  }
+interface Footprint {
+  outline: L.LatLng[];
+  corners: L.LatLng[];
 }
 
-function utmToLatLon(easting: number, northing: number, zone: number, south: boolean): [number, number] {
-  const k0 = 0.9996;
-  const a = 6378137;
-  const e = 0.081819191;
-  const e2 = e * e;
-  const ep2 = e2 / (1 - e2);
-
-  const x = easting - 500000;
-  const y = south ? northing - 10000000 : northing;
-
-  const M = y / k0;
-  const mu = M / (a * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256));
-  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
-
-  const phi1 = mu +
-    (3 * e1 / 2 - 27 * e1 * e1 * e1 / 32) * Math.sin(2 * mu) +
-    (21 * e1 * e1 / 16 - 55 * e1 * e1 * e1 * e1 / 32) * Math.sin(4 * mu) +
-    (151 * e1 * e1 * e1 / 96) * Math.sin(6 * mu);
-
-  const sinPhi = Math.sin(phi1);
-  const cosPhi = Math.cos(phi1);
-  const tanPhi = Math.tan(phi1);
-  const N1 = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
-  const T1 = tanPhi * tanPhi;
-  const C1 = ep2 * cosPhi * cosPhi;
-  const R1 = a * (1 - e2) / Math.pow(1 - e2 * sinPhi * sinPhi, 1.5);
-  const D = x / (N1 * k0);
-
-  const lat = phi1 -
-    (N1 * tanPhi / R1) * (
-      D * D / 2 -
-      (5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * D * D * D * D / 24 +
-      (61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) * D * D * D * D * D * D / 720
-    );
-
-  const lon = (D -
-    (1 + 2 * T1 + C1) * D * D * D / 6 +
-    (5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) * D * D * D * D * D / 120
-  ) / cosPhi;
-
-  const lonDeg = lon * (180 / Math.PI) + (zone * 6 - 183);
-  const latDeg = lat * (180 / Math.PI);
-  return [latDeg, lonDeg];
-}
-
-function computeGeoBounds(info: RasterInfo): L.LatLngBoundsExpression | null {
-  const x1 = info.originX;
-  const y1 = info.originY;
-  const x2 = info.originX + info.width * info.pixelSizeX;
-  const y2 = info.originY - info.height * Math.abs(info.pixelSizeY);
-
-  const minX = Math.min(x1, x2);
-  const maxX = Math.max(x1, x2);
-  const minY = Math.min(y1, y2);
-  const maxY = Math.max(y1, y2);
-
-  const epsgNum = info.crs ? parseInt(info.crs.replace("EPSG:", ""), 10) : NaN;
-
-  const isGeographic =
-    (!isNaN(epsgNum) && GEOGRAPHIC_EPSG.has(epsgNum)) ||
-    (minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90);
-
-  if (isGeographic) {
-    return [
-      [minY, minX],
-      [maxY, maxX],
-    ];
-  }
-
-  if (!isNaN(epsgNum) && UTM_ZONES[epsgNum]) {
-    const { zone, south } = UTM_ZONES[epsgNum];
-    const [lat1, lon1] = utmToLatLon(minX, minY, zone, south);
-    const [lat2, lon2] = utmToLatLon(maxX, maxY, zone, south);
-    const [lat3, lon3] = utmToLatLon(minX, maxY, zone, south);
-    const [lat4, lon4] = utmToLatLon(maxX, minY, zone, south);
-
-    const allLats = [lat1, lat2, lat3, lat4];
-    const allLons = [lon1, lon2, lon3, lon4];
-    const geoMinLat = Math.min(...allLats);
-    const geoMaxLat = Math.max(...allLats);
-    const geoMinLon = Math.min(...allLons);
-    const geoMaxLon = Math.max(...allLons);
-
-    if (geoMinLat >= -90 && geoMaxLat <= 90 && geoMinLon >= -180 && geoMaxLon <= 180) {
-      return [
-        [geoMinLat, geoMinLon],
-        [geoMaxLat, geoMaxLon],
-      ];
+function computeFootprint(info: RasterInfo, transformer: CrsTransformer): Footprint | null {
+  const { width, height, geoTransform } = info;
+  const corners = [[0, 0], [width, 0], [width, height], [0, height]];
+  const outline: L.LatLng[] = [];
+  for (let c = 0; c < corners.length; c++) {
+    const [ac, ar] = corners[c];
+    const [bc, br] = corners[(c + 1) % corners.length];
+    for (let step = 0; step < EDGE_SEGMENTS; step++) {
+      const t = step / EDGE_SEGMENTS;
+      const [x, y] = geoTransformPoint(geoTransform, ac + (bc - ac) * t, ar + (br - ar) * t);
+      const point = transformer.toLatLng(x, y);
+      if (!point) return null;
+      outline.push(L.latLng(point[0], point[1]));
     }
   }
+  return { outline, corners: outline.filter((_, i) => i % EDGE_SEGMENTS === 0) };
+}
 
-  if (info.crs === null && minX >= 100000 && maxX <= 900000 && minY > 0 && maxY < 10000000) {
-    return null;
+function formatReadout(latlng: L.LatLng, transformer: CrsTransformer | null): string {
+  const parts = [`${latlng.lat.toFixed(5)}, ${latlng.lng.toFixed(5)}`];
+  const projected = transformer && !transformer.geographic ? transformer.fromLatLng(latlng.lat, latlng.lng) : null;
+  if (projected && transformer) {
+    parts.push(`${projected[0].toFixed(2)}, ${projected[1].toFixed(2)} (${transformer.label})`);
   }
+  return parts.join(" | ");
+}
 
-  return null;
+function labelElement(className: string, text: string): HTMLElement {
+  const element = L.DomUtil.create("div", className);
+  element.textContent = text;
+  return element;
 }
 
 function createBasemapLayer(basemapId: string): L.TileLayer {
@@ -157,6 +87,8 @@ export function LeafletMap({ info, fileName, basemap }: LeafletMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const layerGroupRef = useRef<L.LayerGroup | null>(null);
   const basemapLayerRef = useRef<L.TileLayer | null>(null);
+  const readoutRef = useRef<HTMLElement | null>(null);
+  const transformerRef = useRef<CrsTransformer | null>(null);
 
   const applyBasemap = useCallback((map: L.Map, basemapId: string) => {
     if (basemapLayerRef.current) {
@@ -187,6 +119,20 @@ export function LeafletMap({ info, fileName, basemap }: LeafletMapProps) {
 
     L.control.zoom({ position: "topright" }).addTo(map);
 
+    const readout = new L.Control({ position: "bottomleft" });
+    readout.onAdd = () => {
+      const element = L.DomUtil.create("div", "map-coordinate-readout");
+      readoutRef.current = element;
+      return element;
+    };
+    readout.addTo(map);
+    map.on("mousemove", (e: L.LeafletMouseEvent) => {
+      if (readoutRef.current) readoutRef.current.textContent = formatReadout(e.latlng, transformerRef.current);
+    });
+    map.on("mouseout", () => {
+      if (readoutRef.current) readoutRef.current.textContent = "";
+    });
+
     layerGroupRef.current = L.layerGroup().addTo(map);
     mapRef.current = map;
 
@@ -200,6 +146,7 @@ export function LeafletMap({ info, fileName, basemap }: LeafletMapProps) {
       mapRef.current = null;
       layerGroupRef.current = null;
       basemapLayerRef.current = null;
+      readoutRef.current = null;
     };
   }, [applyBasemap]);
 
@@ -212,16 +159,23 @@ export function LeafletMap({ info, fileName, basemap }: LeafletMapProps) {
     if (!mapRef.current || !layerGroupRef.current) return;
 
     layerGroupRef.current.clearLayers();
+    transformerRef.current = null;
 
     if (!info) return;
 
-    const bounds = computeGeoBounds(info);
+    const extent = geoTransformExtent(info.geoTransform, info.width, info.height);
+    const transformer = rasterTransformer(info.crs, info.crsWkt, extent);
+    const footprint = transformer ? computeFootprint(info, transformer) : null;
+    transformerRef.current = transformer;
 
-    if (!bounds) {
-      const crsLabel = info.crs ?? "unknown";
+    if (!footprint) {
+      const crsLabel = crsDisplayName(info.crs, info.crsWkt);
       const icon = L.divIcon({
         className: "leaflet-projected-label",
-        html: `<div class="footprint-label-projected">Projected CRS (${crsLabel}) — cannot reproject to map. Origin: ${info.originX.toFixed(1)}, ${info.originY.toFixed(1)}</div>`,
+        html: labelElement(
+          "footprint-label-projected",
+          `CRS ${crsLabel} has no known definition — cannot reproject to map. Origin: ${info.originX.toFixed(1)}, ${info.originY.toFixed(1)}`
+        ),
         iconSize: [400, 30],
         iconAnchor: [200, 15],
       });
@@ -229,23 +183,16 @@ export function LeafletMap({ info, fileName, basemap }: LeafletMapProps) {
       return;
     }
 
-    const latLngBounds = L.latLngBounds(bounds as L.LatLngExpression[]);
-
-    L.rectangle(bounds, {
+    const polygon = L.polygon(footprint.outline, {
       color: "#007ac2",
       weight: 3,
       fillColor: "#007ac2",
       fillOpacity: 0.15,
       dashArray: undefined,
     }).addTo(layerGroupRef.current);
+    const latLngBounds = polygon.getBounds();
 
-    const corners = [
-      latLngBounds.getSouthWest(),
-      latLngBounds.getSouthEast(),
-      latLngBounds.getNorthWest(),
-      latLngBounds.getNorthEast(),
-    ];
-    for (const corner of corners) {
+    for (const corner of footprint.corners) {
       L.circleMarker(corner, {
         radius: 4,
         color: "#007ac2",
@@ -261,13 +208,13 @@ export function LeafletMap({ info, fileName, basemap }: LeafletMapProps) {
     const center = latLngBounds.getCenter();
     const labelIcon = L.divIcon({
       className: "leaflet-footprint-label",
-      html: `<div class="footprint-name-tag">${displayName}</div>`,
+      html: labelElement("footprint-name-tag", displayName),
       iconSize: [200, 24],
       iconAnchor: [100, 12],
     });
     L.marker(center, { icon: labelIcon, interactive: false }).addTo(layerGroupRef.current);
 
-    mapRef.current.fitBounds(bounds, { padding: [40, 40], maxZoom: 12 });
+    mapRef.current.fitBounds(latLngBounds, { padding: [40, 40], maxZoom: 12 });
   }, [info, fileName]);
 
   return <div ref={containerRef} className="leaflet-container-wrapper" role="region" aria-label="Interactive location map" />;
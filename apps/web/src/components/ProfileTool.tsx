@@ -12,6 +12,8 @@ interface ProfileToolProps {
   startPoint: ProfilePoint;
   endPoint: ProfilePoint;
   terrainBounds: { sizeX: number; sizeZ: number };
+  toDisplay: (elevation: number) => number;
+  unitSymbol: string;
   onClear: () => void;
 }
 
@@ -31,7 +33,15 @@ function sampleElevation(td: TerrainData, normX: number, normZ: number): number
   return v;
 }
 
-export function ProfileTool({ terrainData, startPoint, endPoint, terrainBounds, onClear }: ProfileToolProps) {
+export function ProfileTool({
+  terrainData,
+  startPoint,
+  endPoint,
+  terrainBounds,
+  toDisplay,
+  unitSymbol,
+  onClear,
+}: ProfileToolProps) {
   const { samples, stats } = useMemo(() => {
     const numSamples = 200;
     const samples: ProfileSample[] = [];
@@ -57,7 +67,7 @@ export function ProfileTool({ terrainData, startPoint, endPoint, terrainBounds,
       const normX = (wx + halfX) / terrainBounds.sizeX;
       const normZ = (wz + halfZ) / terrainBounds.sizeZ;
 
-      const elev = sampleElevation(terrainData, normX, normZ);
+      const elev = toDisplay(sampleElevation(terrainData, normX, normZ));
       const dist = t * totalDist3D;
 
       if (!isNaN(elev)) {
@@ -85,7 +95,7 @@ export function ProfileTool({ terrainData, startPoint, endPoint, terrainBounds,
         distance: totalDist3D,
       },
     };
-  }, [terrainData, startPoint, endPoint, terrainBounds]);
+  }, [terrainData, startPoint, endPoint, terrainBounds, toDisplay]);
 
   const svgW = 600;
   const svgH = 120;
@@ -116,12 +126,12 @@ export function ProfileTool({ terrainData, startPoint, endPoint, terrainBounds,
       <div className="profile-header">
         <span className="profile-title">Elevation Profile</span>
         <div className="profile-stats">
-          <span>Start: {stats.startElev.toFixed(1)}m</span>
-          <span>End: {stats.endElev.toFixed(1)}m</span>
-          <span>Min: {stats.minElev.toFixed(1)}m</span>
-          <span>Max: {stats.maxElev.toFixed(1)}m</span>
-          <span>Ascent: +{stats.totalAscent.toFixed(1)}m</span>
-          <span>Descent: -{stats.totalDescent.toFixed(1)}m</span>
+          <span>Start: {stats.startElev.toFixed(1)} {unitSymbol}</span>
+          <span>End: {stats.endElev.toFixed(1)} {unitSymbol}</span>
+          <span>Min: {stats.minElev.toFixed(1)} {unitSymbol}</span>
+          <span>Max: {stats.maxElev.toFixed(1)} {unitSymbol}</span>
+          <span>Ascent: +{stats.totalAscent.toFixed(1)} {unitSymbol}</span>
+          <span>Descent: -{stats.totalDescent.toFixed(1)} {unitSymbol}</span>
         </div>
         <button className="profile-clear-btn" onClick={onClear} aria-label="Clear elevation profile">Clear</button>
       </div>
@@ -0,0 +1,98 @@
+import { useState, useRef, useCallback, useMemo } from "react";
+import { resultViolations, runAllChecks } from "@mapqc/shared";
+import type { QaProfile, RasterStatistics } from "@mapqc/shared";
+import type { RasterInfo } from "../geo/loader";
+import type { TerrainData } from "../three/modules/TerrainModule";
+import { rasterInfoToMetadata } from "../geo/metadata";
+import { loadProfileFromFile, PROFILE_ACCEPT_STRING } from "../geo/profile";
+
+interface QaPanelProps {
+  info: RasterInfo;
+  terrainData: TerrainData | null;
+  statistics: RasterStatistics | null;
+}
+
+export function QaPanel({ info, terrainData, statistics }: QaPanelProps) {
+  const [profile, setProfile] = useState<QaProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(
+    () => runAllChecks(rasterInfoToMetadata(info), {
+      profile: profile ?? undefined,
+      elevations: terrainData?.elevations,
+      tiff: info.tiffStructure,
+      statistics: statistics ?? undefined,
+    }),
+    [info, terrainData, statistics, profile]
+  );
+
+  const handleProfileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      setProfile(await loadProfileFromFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load QA profile");
+    }
+  }, []);
+
+  const passed = results.filter((r) => r.passed).length;
+
+  return (
+    <div className="qa-panel">
+      <div className="qa-profile-bar">
+        <span className="qa-profile-name">{profile ? profile.name : "Default checks"}</span>
+        <button
+          className="arcgis-load-btn"
+          onClick={() => inputRef.current?.click()}
+          aria-label="Load a QA profile from a JSON or YAML file"
+        >
+          Load Profile
+        </button>
+        {profile && (
+          <button
+            className="arcgis-load-btn"
+            onClick={() => setProfile(null)}
+            aria-label="Clear QA profile"
+          >
+            Clear
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={PROFILE_ACCEPT_STRING}
+          onChange={handleProfileChange}
+          hidden
+        />
+      </div>
+
+      {error && <div className="arcgis-error">{error}</div>}
+
+      <div className="qa-summary" role="status">
+        {passed}/{results.length} checks passed
+      </div>
+      <ul className="qa-results">
+        {results.map((result) => (
+          <li key={result.checkId} className={`qa-result ${result.passed ? "passed" : "failed"}`}>
+            <span className="qa-result-status">{result.passed ? "PASS" : result.severity}</span>
+            <div className="qa-result-body">
+              <span className="qa-result-id">{result.checkId}</span>
+              <span className="qa-result-message">{result.message}</span>
+              {resultViolations(result).length > 0 && (
+                <ul className="qa-result-violations">
+                  {resultViolations(result).map((violation, i) => (
+                    <li key={i}>{violation.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
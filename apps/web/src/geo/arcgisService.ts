@@ -2,6 +2,7 @@ import { request, ApiKeyManager } from "@esri/arcgis-rest-request";
 import { searchItems } from "@esri/arcgis-rest-portal";
 import type { TerrainData } from "../three/modules/TerrainModule";
 import type { RasterInfo, LoadResult } from "./loader";
+import { northUpGeoTransform } from "./metadata";
 
 const ARCGIS_KEY = import.meta.env.VITE_ARCGIS_API_KEY as string;
 
@@ -276,6 +277,7 @@ async function parseTiffElevation(
     originX: bbox.xmin,
     originY: bbox.ymax,
     format: formatLabel,
+    geoTransform: northUpGeoTransform(bbox.xmin, bbox.ymax, pixelSizeX, pixelSizeY),
   };
 
   return { terrain, info };
@@ -353,6 +355,7 @@ async function parseImageAsElevation(
         originX: bbox.xmin,
         originY: bbox.ymax,
         format: `${formatLabel} (RGB)`,
+        geoTransform: northUpGeoTransform(bbox.xmin, bbox.ymax, pixelSizeX, pixelSizeY),
       };
 
       resolve({ terrain, info });
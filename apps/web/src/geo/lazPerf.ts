@@ -0,0 +1,8 @@
+import type { LazPerfModule } from "@mapqc/shared";
+
+export async function loadLazPerf(): Promise<LazPerfModule> {
+  const { createLazPerf } = await import("laz-perf");
+  return createLazPerf({
+    locateFile: (file: string) => (file.endsWith(".wasm") ? "/laz-perf.wasm" : file),
+  });
+}
@@ -1,4 +1,17 @@
 import { fromArrayBuffer } from "geotiff";
+import {
+  compressionName,
+  geoKeyCrs,
+  geoKeyCrsWkt,
+  geoKeyRasterType,
+  geoKeyVerticalCrs,
+  geoKeyVerticalUnits,
+  geoTransformPixelSize,
+  readTiffStructure,
+  tiffGeoTransform,
+  tiffOverviews,
+} from "@mapqc/shared";
+import type { GeoTransform } from "@mapqc/shared";
 import type { TerrainData } from "../three/modules/TerrainModule";
 import type { RasterInfo, LoadResult } from "./loader";
 
@@ -16,36 +29,17 @@ export async function loadGeoTiffFromFile(file: File): Promise<LoadResult> {
     ? (rawBits as number[])
     : [rawBits as number];
 
-  const tiepoint = image.getTiePoints();
   const fileDir = image.getFileDirectory();
-  const modelScale = fileDir.ModelPixelScale;
+  const geoKeys = image.getGeoKeys() ?? {};
+  const rasterType = geoKeyRasterType(geoKeys);
+  const geoTransform: GeoTransform = tiffGeoTransform(fileDir, rasterType) ?? [0, 1, 0, 0, 0, -1];
+  const pixelSize = geoTransformPixelSize(geoTransform);
 
-  let originX = 0;
-  let originY = 0;
-  let pixelSizeX = 1;
-  let pixelSizeY = 1;
-
-  if (tiepoint && tiepoint.length > 0) {
-    originX = tiepoint[0].x;
-    originY = tiepoint[0].y;
-  }
-
-  if (modelScale && modelScale.length >= 2) {
-    pixelSizeX = modelScale[0];
-    pixelSizeY = modelScale[1];
-  }
+  const tiffStructure = await readTiffStructure(tiff);
 
   const noData = image.getGDALNoData();
   const noDataValue = noData !== null && noData !== undefined ? noData : null;
 
-  const geoKeys = image.getGeoKeys();
-  let crs: string | null = null;
-  if (geoKeys.ProjectedCSTypeGeoKey) {
-    crs = `EPSG:${geoKeys.ProjectedCSTypeGeoKey}`;
-  } else if (geoKeys.GeographicTypeGeoKey) {
-    crs = `EPSG:${geoKeys.GeographicTypeGeoKey}`;
-  }
-
   const rasters = await image.readRasters();
   const firstBand = rasters[0] as ArrayLike<number>;
   const elevations = new Float32Array(firstBand.length);
@@ -70,13 +64,22 @@ export async function loadGeoTiffFromFile(file: File): Promise<LoadResult> {
     height,
     bandCount: samplesPerPixel,
     bitsPerSample,
-    pixelSizeX,
-    pixelSizeY,
-    crs,
+    pixelSizeX: pixelSize.x,
+    pixelSizeY: pixelSize.y,
+    crs: geoKeyCrs(geoKeys),
+    crsWkt: geoKeyCrsWkt(geoKeys),
     noDataValue,
-    originX,
-    originY,
+    originX: geoTransform[0],
+    originY: geoTransform[3],
     format: formatName,
+    geoTransform,
+    rasterType,
+    verticalCrs: geoKeyVerticalCrs(geoKeys),
+    verticalUnits: geoKeyVerticalUnits(geoKeys),
+    compression: compressionName(fileDir.Compression),
+    tiling: { tiled: image.isTiled, blockWidth: image.getTileWidth(), blockHeight: image.getTileHeight() },
+    overviews: tiffOverviews(tiffStructure),
+    tiffStructure,
   };
 
   return { terrain, info };
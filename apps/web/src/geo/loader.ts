@@ -1,5 +1,7 @@
+import { detectFormat } from "@mapqc/shared";
+import type { GeoTransform, RasterSize, RasterTiling, RasterType, TiffStructure, VerticalUnit } from "@mapqc/shared";
 import type { TerrainData } from "../three/modules/TerrainModule";
-import { detectFormat } from "./formats";
+import { parsedRasterToLoadResult } from "./metadata";
 
 export interface RasterInfo {
   width: number;
@@ -9,10 +11,19 @@ export interface RasterInfo {
   pixelSizeX: number;
   pixelSizeY: number;
   crs: string | null;
+  crsWkt?: string | null;
   noDataValue: number | null;
   originX: number;
   originY: number;
   format: string;
+  geoTransform: GeoTransform;
+  rasterType?: RasterType;
+  verticalCrs?: string | null;
+  verticalUnits?: VerticalUnit | null;
+  compression?: string;
+  tiling?: RasterTiling;
+  overviews?: RasterSize[];
+  tiffStructure?: TiffStructure;
 }
 
 export interface LoadResult {
@@ -38,20 +49,20 @@ export async function loadRasterFile(file: File, worldFileContent?: string): Pro
       return loadGeoTiffFromFile(file);
     }
     case "xyz": {
-      const { loadXyzFile } = await import("./loadXyz");
-      return loadXyzFile(file);
+      const { parseXyz } = await import("@mapqc/shared/formats/xyz");
+      return parsedRasterToLoadResult(parseXyz(await file.arrayBuffer()));
     }
     case "usgsdem": {
-      const { loadUsgsDemFile } = await import("./loadUsgsDem");
-      return loadUsgsDemFile(file);
+      const { parseUsgsDem } = await import("@mapqc/shared/formats/usgsDem");
+      return parsedRasterToLoadResult(parseUsgsDem(await file.arrayBuffer()));
     }
     case "dted": {
-      const { loadDtedFile } = await import("./loadDted");
-      return loadDtedFile(file);
+      const { parseDted } = await import("@mapqc/shared/formats/dted");
+      return parsedRasterToLoadResult(parseDted(await file.arrayBuffer(), file.name));
     }
     case "netcdf": {
-      const { loadNetcdfFile } = await import("./loadNetcdf");
-      return loadNetcdfFile(file);
+      const { parseNetcdf } = await import("@mapqc/shared/formats/netcdf");
+      return parsedRasterToLoadResult(await parseNetcdf(await file.arrayBuffer()));
     }
     case "worldfile": {
       const { loadImageWithWorldFile } = await import("./loadWorldFile");
@@ -0,0 +1,69 @@
+import { geoTransformExtent, geoTransformRotation } from "@mapqc/shared";
+import type { GeoTiffMetadata, GeoTransform, ParsedRaster } from "@mapqc/shared";
+import type { RasterInfo, LoadResult } from "./loader";
+
+export function northUpGeoTransform(originX: number, originY: number, pixelSizeX: number, pixelSizeY: number): GeoTransform {
+  return [originX, Math.abs(pixelSizeX), 0, originY, 0, -Math.abs(pixelSizeY)];
+}
+
+export function rasterInfoToMetadata(info: RasterInfo): GeoTiffMetadata {
+  const pixelSizeX = Math.abs(info.pixelSizeX);
+  const pixelSizeY = Math.abs(info.pixelSizeY);
+  const { geoTransform } = info;
+
+  return {
+    width: info.width,
+    height: info.height,
+    bandCount: info.bandCount,
+    bitsPerSample: info.bitsPerSample,
+    sampleFormat: [],
+    noDataValue: info.noDataValue,
+    origin: [info.originX, info.originY],
+    pixelSize: { x: pixelSizeX, y: pixelSizeY },
+    extent: geoTransformExtent(geoTransform, info.width, info.height),
+    crs: info.crs,
+    crsWkt: info.crsWkt,
+    format: info.format,
+    geoTransform,
+    rotation: geoTransformRotation(geoTransform),
+    rasterType: info.rasterType,
+    verticalCrs: info.verticalCrs,
+    verticalUnits: info.verticalUnits,
+    compression: info.compression,
+    tiling: info.tiling,
+    overviews: info.overviews,
+  };
+}
+
+export function parsedRasterToLoadResult({ metadata, elevations }: ParsedRaster): LoadResult {
+  return {
+    terrain: {
+      elevations,
+      width: metadata.width,
+      height: metadata.height,
+      noDataValue: metadata.noDataValue,
+    },
+    info: {
+      width: metadata.width,
+      height: metadata.height,
+      bandCount: metadata.bandCount,
+      bitsPerSample: metadata.bitsPerSample,
+      pixelSizeX: metadata.pixelSize.x,
+      pixelSizeY: metadata.pixelSize.y,
+      crs: metadata.crs,
+      crsWkt: metadata.crsWkt,
+      noDataValue: metadata.noDataValue,
+      originX: metadata.origin[0],
+      originY: metadata.origin[1],
+      format: metadata.format ?? "Unknown",
+      geoTransform: metadata.geoTransform
+        ?? northUpGeoTransform(metadata.origin[0], metadata.origin[1], metadata.pixelSize.x, metadata.pixelSize.y),
+      rasterType: metadata.rasterType,
+      verticalCrs: metadata.verticalCrs,
+      verticalUnits: metadata.verticalUnits,
+      compression: metadata.compression,
+      tiling: metadata.tiling,
+      overviews: metadata.overviews,
+    },
+  };
+}
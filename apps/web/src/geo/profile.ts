@@ -0,0 +1,12 @@
+import { parse as parseYaml } from "yaml";
+import { parseQaProfile } from "@mapqc/shared";
+import type { QaProfile } from "@mapqc/shared";
+
+export const PROFILE_ACCEPT_STRING = ".json,.yaml,.yml";
+
+export async function loadProfileFromFile(file: File): Promise<QaProfile> {
+  const text = await file.text();
+  const lower = file.name.toLowerCase();
+  const raw = lower.endsWith(".yaml") || lower.endsWith(".yml") ? parseYaml(text) : JSON.parse(text);
+  return parseQaProfile(raw);
+}
@@ -0,0 +1,10 @@
+import { createCrsTransformer } from "@mapqc/shared";
+import type { CrsTransformer, Extent } from "@mapqc/shared";
+
+export function rasterTransformer(crs: string | null | undefined, wkt: string | null | undefined, extent: Extent): CrsTransformer | null {
+  const transformer = createCrsTransformer(crs, wkt);
+  if (transformer) return transformer;
+  const { minX, minY, maxX, maxY } = extent;
+  const geographic = minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90;
+  return geographic ? createCrsTransformer("EPSG:4326") : null;
+}
@@ -1,5 +1,6 @@
 import type { TerrainData } from "../three/modules/TerrainModule";
 import type { RasterInfo } from "./loader";
+import { northUpGeoTransform } from "./metadata";
 
 function hash(x: number, y: number): number {
   let h = x * 374761393 + y * 668265263;
@@ -93,6 +94,7 @@ export function generateSampleTerrain(): { terrain: TerrainData; info: RasterInf
     originX,
     originY,
     format: "Synthetic Sample",
+    geoTransform: northUpGeoTransform(originX, originY, pixelSizeX, pixelSizeY),
   };
 
   return { terrain, info };
@@ -5,6 +5,7 @@ export interface UrlState {
   colorRamp?: string;
   wireframe?: boolean;
   basemap?: string;
+  units?: string;
   cam?: [number, number, number];
   target?: [number, number, number];
 }
@@ -31,6 +32,9 @@ export function parseUrlState(): UrlState {
   const basemap = params.get("basemap");
   if (basemap) state.basemap = basemap;
 
+  const units = params.get("units");
+  if (units) state.units = units;
+
   const cam = params.get("cam");
   if (cam) {
     const parts = cam.split(",").map(Number);
@@ -66,6 +70,7 @@ export function useUrlStateSync(
     if (state.colorRamp) params.set("ramp", state.colorRamp);
     if (state.wireframe !== undefined) params.set("wire", state.wireframe ? "1" : "0");
     if (state.basemap) params.set("basemap", state.basemap);
+    if (state.units) params.set("units", state.units);
 
     const camState = getCameraState();
     if (camState) {
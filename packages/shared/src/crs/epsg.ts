@@ -0,0 +1,117 @@
+import { STATE_PLANE_ZONES } from "./statePlane.js";
+
+const WGS84 = "+datum=WGS84";
+const NAD83 = "+datum=NAD83";
+const NAD27 = "+datum=NAD27";
+const GRS80 = "+ellps=GRS80 +towgs84=0,0,0,0,0,0,0";
+const DHDN = "+ellps=bessel +towgs84=598.1,73.7,418.2,0.202,0.045,-2.455,6.7";
+
+const GEOGRAPHIC: Record<number, string> = {
+  4326: WGS84,
+  4979: WGS84,
+  4269: NAD83,
+  4267: NAD27,
+  4617: GRS80,
+  6318: GRS80,
+  4759: GRS80,
+  4258: GRS80,
+  4283: GRS80,
+  7844: GRS80,
+  4167: GRS80,
+  4674: GRS80,
+  4490: GRS80,
+  4612: GRS80,
+  6668: GRS80,
+  4019: "+ellps=GRS80",
+  4148: "+ellps=WGS84 +towgs84=0,0,0,0,0,0,0",
+  4152: NAD83,
+  4272: "+ellps=intl +towgs84=59.47,-5.04,187.44,0.47,-0.1,1.024,-4.5993",
+  4324: "+ellps=WGS72 +towgs84=0,0,1.9,0,0,0.814,-0.38",
+  4555: "+ellps=krass",
+  4749: "+ellps=GRS80 +towgs84=0,0,0,0,0,0,0",
+};
+
+const PROJECTED: Record<number, string> = {
+  3857: "+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs",
+  3395: `+proj=merc +lon_0=0 +k=1 +x_0=0 +y_0=0 ${WGS84} +units=m +no_defs`,
+  6933: `+proj=cea +lat_ts=30 +lon_0=0 +x_0=0 +y_0=0 ${WGS84} +units=m +no_defs`,
+  3031: `+proj=stere +lat_0=-90 +lat_ts=-71 +lon_0=0 +x_0=0 +y_0=0 ${WGS84} +units=m +no_defs`,
+  3413: `+proj=stere +lat_0=90 +lat_ts=70 +lon_0=-45 +x_0=0 +y_0=0 ${WGS84} +units=m +no_defs`,
+  5070: `+proj=aea +lat_0=23 +lon_0=-96 +lat_1=29.5 +lat_2=45.5 +x_0=0 +y_0=0 ${NAD83} +units=m +no_defs`,
+  6350: `+proj=aea +lat_0=23 +lon_0=-96 +lat_1=29.5 +lat_2=45.5 +x_0=0 +y_0=0 ${GRS80} +units=m +no_defs`,
+  3338: `+proj=aea +lat_0=50 +lon_0=-154 +lat_1=55 +lat_2=65 +x_0=0 +y_0=0 ${NAD83} +units=m +no_defs`,
+  2163: "+proj=laea +lat_0=45 +lon_0=-100 +x_0=0 +y_0=0 +a=6370997 +b=6370997 +units=m +no_defs",
+  3978: `+proj=lcc +lat_0=49 +lon_0=-95 +lat_1=49 +lat_2=77 +x_0=0 +y_0=0 ${NAD83} +units=m +no_defs`,
+  3979: `+proj=lcc +lat_0=49 +lon_0=-95 +lat_1=49 +lat_2=77 +x_0=0 +y_0=0 ${GRS80} +units=m +no_defs`,
+  27700: "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs",
+  2157: `+proj=tmerc +lat_0=53.5 +lon_0=-8 +k=0.99982 +x_0=600000 +y_0=750000 ${GRS80} +units=m +no_defs`,
+  2154: `+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 ${GRS80} +units=m +no_defs`,
+  3034: `+proj=lcc +lat_0=52 +lon_0=10 +lat_1=35 +lat_2=65 +x_0=4000000 +y_0=2800000 ${GRS80} +units=m +no_defs`,
+  3035: `+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 ${GRS80} +units=m +no_defs`,
+  28992: "+proj=sterea +lat_0=52.1561605555556 +lon_0=5.38763888888889 +k=0.9999079 +x_0=155000 +y_0=463000 +ellps=bessel +towgs84=565.417,50.3319,465.552,-0.398957,0.343988,-1.8774,4.0725 +units=m +no_defs",
+  2056: "+proj=somerc +lat_0=46.9524055555556 +lon_0=7.43958333333333 +k_0=1 +x_0=2600000 +y_0=1200000 +ellps=bessel +towgs84=674.374,15.056,405.346,0,0,0,0 +units=m +no_defs",
+  21781: "+proj=somerc +lat_0=46.9524055555556 +lon_0=7.43958333333333 +k_0=1 +x_0=600000 +y_0=200000 +ellps=bessel +towgs84=674.374,15.056,405.346,0,0,0,0 +units=m +no_defs",
+  31287: "+proj=lcc +lat_0=47.5 +lon_0=13.3333333333333 +lat_1=49 +lat_2=46 +x_0=400000 +y_0=400000 +ellps=bessel +towgs84=577.326,90.129,463.919,5.137,1.474,5.297,2.4232 +units=m +no_defs",
+  3006: `+proj=utm +zone=33 ${GRS80} +units=m +no_defs`,
+  3067: `+proj=utm +zone=35 ${GRS80} +units=m +no_defs`,
+  2193: `+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 ${GRS80} +units=m +no_defs`,
+  3577: `+proj=aea +lat_0=0 +lon_0=132 +lat_1=-18 +lat_2=-36 +x_0=0 +y_0=0 ${GRS80} +units=m +no_defs`,
+  9473: `+proj=aea +lat_0=0 +lon_0=132 +lat_1=-18 +lat_2=-36 +x_0=0 +y_0=0 ${GRS80} +units=m +no_defs`,
+};
+
+const ZONE_PARAMETERS: Record<string, string[]> = {
+  tmerc: ["lat_0", "lon_0", "k", "x_0", "y_0"],
+  lcc: ["lat_0", "lon_0", "lat_1", "lat_2", "x_0", "y_0"],
+  omerc: ["lat_0", "lonc", "alpha", "k", "x_0", "y_0"],
+};
+
+function statePlane(zone: string): string {
+  const [proj, ...values] = zone.split(" ");
+  const units = values.pop();
+  const parameters = ZONE_PARAMETERS[proj].map((name, i) => `+${name}=${values[i]}`);
+  if (proj === "omerc") parameters.unshift("+no_uoff", `+gamma=${values[2]}`);
+  return `+proj=${proj} ${parameters.join(" ")} ${GRS80} +units=${units} +no_defs`;
+}
+
+function utm(zone: number, datum: string, south = false): string {
+  return `+proj=utm +zone=${zone}${south ? " +south" : ""} ${datum} +units=m +no_defs`;
+}
+
+function buildDefinitions(): Record<number, string> {
+  const definitions: Record<number, string> = {};
+  for (const [code, datum] of Object.entries(GEOGRAPHIC)) {
+    definitions[Number(code)] = `+proj=longlat ${datum} +no_defs`;
+  }
+  Object.assign(definitions, PROJECTED);
+  for (let zone = 1; zone <= 60; zone++) {
+    definitions[32600 + zone] = utm(zone, WGS84);
+    definitions[32700 + zone] = utm(zone, WGS84, true);
+  }
+  for (let zone = 1; zone <= 23; zone++) definitions[26900 + zone] = utm(zone, NAD83);
+  for (let zone = 3; zone <= 22; zone++) definitions[26700 + zone] = utm(zone, NAD27);
+  for (let zone = 1; zone <= 19; zone++) definitions[6329 + zone] = utm(zone, GRS80);
+  definitions[6328] = utm(59, GRS80);
+  definitions[6329] = utm(60, GRS80);
+  for (let zone = 28; zone <= 38; zone++) definitions[25800 + zone] = utm(zone, GRS80);
+  for (let zone = 48; zone <= 58; zone++) definitions[28300 + zone] = utm(zone, GRS80, true);
+  for (let zone = 46; zone <= 59; zone++) definitions[7800 + zone] = utm(zone, GRS80, true);
+  for (let zone = 2; zone <= 5; zone++) {
+    definitions[31464 + zone] = `+proj=tmerc +lat_0=0 +lon_0=${zone * 3} +k=1 +x_0=${zone * 1000000 + 500000} +y_0=0 ${DHDN} +units=m +no_defs`;
+  }
+  for (const [zone, codes] of Object.entries(STATE_PLANE_ZONES)) {
+    const definition = statePlane(zone);
+    for (const code of codes) definitions[code] = definition;
+  }
+  return definitions;
+}
+
+export const EPSG_DEFINITIONS: Readonly<Record<number, string>> = buildDefinitions();
+
+export function epsgCode(crs: string | null | undefined): number | null {
+  const match = crs?.trim().match(/^EPSG::?(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+export function epsgDefinition(code: number): string | null {
+  return EPSG_DEFINITIONS[code] ?? null;
+}
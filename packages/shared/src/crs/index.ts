@@ -0,0 +1,3 @@
+export { EPSG_DEFINITIONS, epsgCode, epsgDefinition } from "./epsg.js";
+export { crsDefinition, createCrsTransformer, crsDisplayName } from "./transform.js";
+export type { CrsTransformer } from "./transform.js";
@@ -0,0 +1,237 @@
+export const STATE_PLANE_ZONES: Readonly<Record<string, readonly number[]>> = {
+  "lcc 37.5 -84.25 37.9666666666667 38.9666666666667 500000 0 m": [2205, 2798, 3544, 6470],
+  "tmerc 31 -110.166666666667 0.9999 213360 0 ft": [2222, 2867, 3481, 6407],
+  "tmerc 31 -111.916666666667 0.9999 213360 0 ft": [2223, 2868, 3479, 6405],
+  "tmerc 31 -113.75 0.999933333 213360 0 ft": [2224, 2869, 3483, 6409],
+  "lcc 39.3333333333333 -122 41.6666666666667 40 2000000.0001016 500000.0001016 us-ft": [2225, 2870, 3490, 6416],
+  "lcc 37.6666666666667 -122 39.8333333333333 38.3333333333333 2000000.0001016 500000.0001016 us-ft": [2226, 2871, 3492, 6418],
+  "lcc 36.5 -120.5 38.4333333333333 37.0666666666667 2000000.0001016 500000.0001016 us-ft": [2227, 2872, 3494, 6420],
+  "lcc 35.3333333333333 -119 37.25 36 2000000.0001016 500000.0001016 us-ft": [2228, 2873, 3496, 6422],
+  "lcc 33.5 -118 35.4666666666667 34.0333333333333 2000000.0001016 500000.0001016 us-ft": [2229, 2874, 3498, 6424],
+  "lcc 32.1666666666667 -116.25 33.8833333333333 32.7833333333333 2000000.0001016 500000.0001016 us-ft": [2230, 2875, 3500, 6426],
+  "lcc 39.3333333333333 -105.5 40.7833333333333 39.7166666666667 914401.828803657 304800.609601219 us-ft": [2231, 2876, 3504, 6430],
+  "lcc 37.8333333333333 -105.5 39.75 38.45 914401.828803657 304800.609601219 us-ft": [2232, 2877, 3502, 6428],
+  "lcc 36.6666666666667 -105.5 38.4333333333333 37.2333333333333 914401.828803657 304800.609601219 us-ft": [2233, 2878, 3506, 6432],
+  "lcc 40.8333333333333 -72.75 41.8666666666667 41.2 304800.609601219 152400.30480061 us-ft": [2234, 2879, 3508, 6434],
+  "tmerc 38 -75.4166666666667 0.999995 200000.0001016 0 us-ft": [2235, 2880, 3510, 6436],
+  "tmerc 24.3333333333333 -81 0.999941177 200000.0001016 0 us-ft": [2236, 2881, 3512, 6438],
+  "tmerc 24.3333333333333 -82 0.999941177 200000.0001016 0 us-ft": [2237, 2882, 3517, 6443],
+  "lcc 29 -84.5 30.75 29.5833333333333 600000 0 us-ft": [2238, 2883, 3515, 6441],
+  "tmerc 30 -82.1666666666667 0.9999 200000.0001016 0 us-ft": [2239, 2884, 3519, 6445],
+  "tmerc 30 -84.1666666666667 0.9999 699999.999898399 0 us-ft": [2240, 2885, 3521, 6447],
+  "tmerc 41.6666666666667 -112.166666666667 0.999947368 200000.0001016 0 us-ft": [2241, 2886, 3525, 6451],
+  "tmerc 41.6666666666667 -114 0.999947368 500000.0001016 0 us-ft": [2242, 2887, 3523, 6449],
+  "tmerc 41.6666666666667 -115.75 0.999933333 800000.0001016 0 us-ft": [2243, 2888, 3527, 6453],
+  "lcc 37.5 -84.25 37.9666666666667 38.9666666666667 500000.0001016 0 us-ft": [2246, 2891, 3545, 6471],
+  "lcc 36.3333333333333 -85.75 37.9333333333333 36.7333333333333 500000.0001016 500000.0001016 us-ft": [2247, 2892, 3549, 6475],
+  "lcc 37.6666666666667 -77 39.45 38.3 399999.9998984 0 us-ft": [2248, 2893, 3582, 6488],
+  "lcc 41 -71.5 42.6833333333333 41.7166666666667 200000.0001016 750000 us-ft": [2249, 2894, 3586, 6492],
+  "lcc 41 -70.5 41.4833333333333 41.2833333333333 500000.0001016 0 us-ft": [2250, 2895, 3584, 6490],
+  "lcc 44.7833333333333 -87 47.0833333333333 45.4833333333333 7999999.999968 0 ft": [2251, 2896, 3590, 6496],
+  "lcc 43.3166666666667 -84.3666666666667 45.7 44.1833333333333 5999999.999976 0 ft": [2252, 2897, 3588, 6494],
+  "lcc 41.5 -84.3666666666667 43.6666666666667 42.1 3999999.999984 0 ft": [2253, 2898, 3593, 6499],
+  "tmerc 29.5 -88.8333333333333 0.99995 300000 0 us-ft": [2254, 2899, 3598, 6507],
+  "tmerc 29.5 -90.3333333333333 0.99995 699999.999898399 0 us-ft": [2255, 2900, 3600, 6510],
+  "lcc 44.25 -109.5 49 45 599999.9999976 0 ft": [2256, 2901, 3605, 6515],
+  "tmerc 31 -104.333333333333 0.999909091 165000 0 us-ft": [2257, 2902, 3620, 6531],
+  "tmerc 31 -106.25 0.9999 500000.0001016 0 us-ft": [2258, 2903, 3618, 6529],
+  "tmerc 31 -107.833333333333 0.999916667 830000.0001016 0 us-ft": [2259, 2904, 3622, 6533],
+  "tmerc 38.8333333333333 -74.5 0.9999 150000 0 us-ft": [2260, 2905, 3424, 3432, 3616, 3626, 6527, 6537],
+  "tmerc 40 -76.5833333333333 0.9999375 249999.9998984 0 us-ft": [2261, 2906, 3624, 6535],
+  "tmerc 40 -78.5833333333333 0.9999375 350000.0001016 0 us-ft": [2262, 2907, 3630, 6541],
+  "lcc 40.1666666666667 -74 41.0333333333333 40.6666666666667 300000 0 us-ft": [2263, 2908, 3628, 6539],
+  "lcc 33.75 -79 36.1666666666667 34.3333333333333 609601.219202438 0 us-ft": [2264, 3404, 3632, 6543],
+  "lcc 47 -100.5 48.7333333333333 47.4333333333333 599999.9999976 0 ft": [2265, 2909, 3634, 6545],
+  "lcc 45.6666666666667 -100.5 47.4833333333333 46.1833333333333 599999.9999976 0 ft": [2266, 2910, 3636, 6547],
+  "lcc 35 -98 36.7666666666667 35.5666666666667 600000 0 us-ft": [2267, 2911, 3640, 6553],
+  "lcc 33.3333333333333 -98 35.2333333333333 33.9333333333333 600000 0 us-ft": [2268, 2912, 3642, 6555],
+  "lcc 43.6666666666667 -120.5 46 44.3333333333333 2500000.0001424 0 ft": [2269, 2913, 3646, 6559],
+  "lcc 41.6666666666667 -120.5 44 42.3333333333333 1500000.0001464 0 ft": [2270, 2914, 3648, 6561],
+  "lcc 40.1666666666667 -77.75 41.95 40.8833333333333 600000 0 us-ft": [2271, 3363, 3650, 6563],
+  "lcc 39.3333333333333 -77.75 40.9666666666667 39.9333333333333 600000 0 us-ft": [2272, 3365, 3652, 6565],
+  "lcc 31.8333333333333 -81 34.8333333333333 32.5 609600 0 ft": [2273, 3361, 3656, 6570],
+  "lcc 34.3333333333333 -86 36.4166666666667 35.25 600000 0 us-ft": [2274, 2915, 3662, 6576],
+  "lcc 34 -101.5 36.1833333333333 34.65 200000.0001016 999999.999898399 us-ft": [2275, 2916, 3668, 6582],
+  "lcc 31.6666666666667 -98.5 33.9666666666667 32.1333333333333 600000 2000000.0001016 us-ft": [2276, 2917, 3670, 6584],
+  "lcc 29.6666666666667 -100.333333333333 31.8833333333333 30.1166666666667 699999.999898399 3000000 us-ft": [2277, 2918, 3664, 6578],
+  "lcc 27.8333333333333 -99 30.2833333333333 28.3833333333333 600000 3999999.9998984 us-ft": [2278, 2919, 3674, 6588],
+  "lcc 25.6666666666667 -98.5 27.8333333333333 26.1666666666667 300000 5000000.0001016 us-ft": [2279, 2920, 3672, 6586],
+  "lcc 40.3333333333333 -111.5 41.7833333333333 40.7166666666667 500000.0001504 999999.999996 ft": [2280, 2921, 3679],
+  "lcc 38.3333333333333 -111.5 40.65 39.0166666666667 500000.0001504 1999999.999992 ft": [2281, 2922, 3676],
+  "lcc 36.6666666666667 -111.5 38.35 37.2166666666667 500000.0001504 2999999.999988 ft": [2282, 2923, 3682],
+  "lcc 37.6666666666667 -78.5 39.2 38.0333333333333 3500000.0001016 2000000.0001016 us-ft": [2283, 2924, 3686, 6593],
+  "lcc 36.3333333333333 -78.5 37.9666666666667 36.7666666666667 3500000.0001016 999999.999898399 us-ft": [2284, 2925, 3688, 6595],
+  "lcc 47 -120.833333333333 48.7333333333333 47.5 500000.0001016 0 us-ft": [2285, 2926, 3690, 6597],
+  "lcc 45.3333333333333 -120.5 47.3333333333333 45.8333333333333 500000.0001016 0 us-ft": [2286, 2927, 3692, 6599],
+  "lcc 45.1666666666667 -90 46.7666666666667 45.5666666666667 600000 0 us-ft": [2287, 2928, 3698, 6607],
+  "lcc 43.8333333333333 -90 45.5 44.25 600000 0 us-ft": [2288, 2929, 3696, 6605],
+  "lcc 42 -90 44.0666666666667 42.7333333333333 600000 0 us-ft": [2289, 2930, 3700, 6609],
+  "tmerc 30.5 -85.8333333333333 0.99996 200000 0 m": [2759, 3465, 6355, 26929],
+  "tmerc 30 -87.5 0.999933333 600000 0 m": [2760, 3466, 6356, 26930],
+  "tmerc 31 -110.166666666667 0.9999 213360 0 m": [2761, 3480, 6406, 26948],
+  "tmerc 31 -111.916666666667 0.9999 213360 0 m": [2762, 3478, 6404, 26949],
+  "tmerc 31 -113.75 0.999933333 213360 0 m": [2763, 3482, 6408, 26950],
+  "lcc 34.3333333333333 -92 36.2333333333333 34.9333333333333 400000 0 m": [2764, 3484, 6410, 26951],
+  "lcc 32.6666666666667 -92 34.7666666666667 33.3 400000 400000 m": [2765, 3486, 6412, 26952],
+  "lcc 39.3333333333333 -122 41.6666666666667 40 2000000 500000 m": [2766, 3489, 6415, 26941],
+  "lcc 37.6666666666667 -122 39.8333333333333 38.3333333333333 2000000 500000 m": [2767, 3491, 6417, 26942],
+  "lcc 36.5 -120.5 38.4333333333333 37.0666666666667 2000000 500000 m": [2768, 3493, 6419, 26943],
+  "lcc 35.3333333333333 -119 37.25 36 2000000 500000 m": [2769, 3495, 6421, 26944],
+  "lcc 33.5 -118 35.4666666666667 34.0333333333333 2000000 500000 m": [2770, 3497, 6423, 26945],
+  "lcc 32.1666666666667 -116.25 33.8833333333333 32.7833333333333 2000000 500000 m": [2771, 3499, 6425, 26946],
+  "lcc 39.3333333333333 -105.5 40.7833333333333 39.7166666666667 914401.8289 304800.6096 m": [2772, 3503, 6429, 26953],
+  "lcc 37.8333333333333 -105.5 39.75 38.45 914401.8289 304800.6096 m": [2773, 3501, 6427, 26954],
+  "lcc 36.6666666666667 -105.5 38.4333333333333 37.2333333333333 914401.8289 304800.6096 m": [2774, 3505, 6431, 26955],
+  "lcc 40.8333333333333 -72.75 41.8666666666667 41.2 304800.6096 152400.3048 m": [2775, 3507, 6433, 26956],
+  "tmerc 38 -75.4166666666667 0.999995 200000 0 m": [2776, 3509, 6435, 26957],
+  "tmerc 24.3333333333333 -81 0.999941177 200000 0 m": [2777, 3511, 6437, 26958],
+  "tmerc 24.3333333333333 -82 0.999941177 200000 0 m": [2778, 3516, 6442, 26959],
+  "lcc 29 -84.5 30.75 29.5833333333333 600000 0 m": [2779, 3514, 6440, 26960],
+  "tmerc 30 -82.1666666666667 0.9999 200000 0 m": [2780, 3518, 6444, 26966],
+  "tmerc 30 -84.1666666666667 0.9999 700000 0 m": [2781, 3520, 6446, 26967],
+  "tmerc 18.8333333333333 -155.5 0.999966667 500000 0 m": [2782, 26961],
+  "tmerc 20.3333333333333 -156.666666666667 0.999966667 500000 0 m": [2783, 26962],
+  "tmerc 21.1666666666667 -158 0.99999 500000 0 m": [2784, 26963],
+  "tmerc 21.8333333333333 -159.5 0.99999 500000 0 m": [2785, 26964],
+  "tmerc 21.6666666666667 -160.166666666667 1 500000 0 m": [2786, 26965],
+  "tmerc 41.6666666666667 -112.166666666667 0.999947368 200000 0 m": [2787, 3524, 6450, 26968],
+  "tmerc 41.6666666666667 -114 0.999947368 500000 0 m": [2788, 3522, 6448, 26969],
+  "tmerc 41.6666666666667 -115.75 0.999933333 800000 0 m": [2789, 3526, 6452, 26970],
+  "tmerc 36.6666666666667 -88.3333333333333 0.999975 300000 0 m": [2790, 3528, 6454, 26971],
+  "tmerc 36.6666666666667 -90.1666666666667 0.999941177 700000 0 m": [2791, 3530, 6456, 26972],
+  "tmerc 37.5 -85.6666666666667 0.999966667 100000 250000 m": [2792, 3532, 6458, 26973],
+  "tmerc 37.5 -87.0833333333333 0.999966667 900000 250000 m": [2793, 3534, 6460, 26974],
+  "lcc 41.5 -93.5 43.2666666666667 42.0666666666667 1500000 1000000 m": [2794, 3536, 6462, 26975],
+  "lcc 40 -93.5 41.7833333333333 40.6166666666667 500000 0 m": [2795, 3538, 6464, 26976],
+  "lcc 38.3333333333333 -98 39.7833333333333 38.7166666666667 400000 0 m": [2796, 3540, 6466, 26977],
+  "lcc 36.6666666666667 -98.5 38.5666666666667 37.2666666666667 400000 400000 m": [2797, 3542, 6468, 26978],
+  "lcc 36.3333333333333 -85.75 37.9333333333333 36.7333333333333 500000 500000 m": [2799, 3548, 6474, 26980],
+  "lcc 30.5 -92.5 32.6666666666667 31.1666666666667 1000000 0 m": [2800, 3550, 6476, 26981],
+  "lcc 28.5 -91.3333333333333 30.7 29.3 1000000 0 m": [2801, 3552, 6478, 26982],
+  "tmerc 43.6666666666667 -68.5 0.9999 300000 0 m": [2802, 3557, 6483, 26983],
+  "tmerc 42.8333333333333 -70.1666666666667 0.999966667 900000 0 m": [2803, 3558, 6485, 26984],
+  "lcc 37.6666666666667 -77 39.45 38.3 400000 0 m": [2804, 3559, 6487, 26985],
+  "lcc 41 -71.5 42.6833333333333 41.7166666666667 200000 750000 m": [2805, 3585, 6491, 26986],
+  "lcc 41 -70.5 41.4833333333333 41.2833333333333 500000 0 m": [2806, 3583, 6489, 26987],
+  "lcc 44.7833333333333 -87 47.0833333333333 45.4833333333333 8000000 0 m": [2807, 3589, 6495, 26988],
+  "lcc 43.3166666666667 -84.3666666666667 45.7 44.1833333333333 6000000 0 m": [2808, 3587, 6493, 26989],
+  "lcc 41.5 -84.3666666666667 43.6666666666667 42.1 4000000 0 m": [2809, 3592, 6498, 26990],
+  "lcc 46.5 -93.1 48.6333333333333 47.0333333333333 800000 100000 m": [2810, 3595, 6502, 26991],
+  "lcc 45 -94.25 47.05 45.6166666666667 800000 100000 m": [2811, 3594, 6500, 26992],
+  "lcc 43 -94 45.2166666666667 43.7833333333333 800000 100000 m": [2812, 3596, 6504, 26993],
+  "tmerc 29.5 -88.8333333333333 0.99995 300000 0 m": [2813, 3597, 6506, 26994],
+  "tmerc 29.5 -90.3333333333333 0.99995 700000 0 m": [2814, 3599, 6509, 26995],
+  "tmerc 35.8333333333333 -90.5 0.999933333 250000 0 m": [2815, 3602, 6512, 26996],
+  "tmerc 35.8333333333333 -92.5 0.999933333 500000 0 m": [2816, 3601, 6511, 26997],
+  "tmerc 36.1666666666667 -94.5 0.999941177 850000 0 m": [2817, 3603, 6513, 26998],
+  "lcc 44.25 -109.5 49 45 600000 0 m": [2818, 3604, 6514, 32100],
+  "lcc 39.8333333333333 -100 43 40 500000 0 m": [2819, 3606, 6516, 32104],
+  "tmerc 34.75 -115.583333333333 0.9999 200000 8000000 m": [2820, 3609, 6520, 32107],
+  "tmerc 34.75 -116.666666666667 0.9999 500000 6000000 m": [2821, 3607, 6518, 32108],
+  "tmerc 34.75 -118.583333333333 0.9999 800000 4000000 m": [2822, 3611, 6522, 32109],
+  "tmerc 42.5 -71.6666666666667 0.999966667 300000 0 m": [2823, 3613, 6524, 32110],
+  "tmerc 38.8333333333333 -74.5 0.9999 150000 0 m": [2824, 2828, 3615, 3625, 6526, 6536, 32111, 32115],
+  "tmerc 31 -104.333333333333 0.999909091 165000 0 m": [2825, 3619, 6530, 32112],
+  "tmerc 31 -106.25 0.9999 500000 0 m": [2826, 3617, 6528, 32113],
+  "tmerc 31 -107.833333333333 0.999916667 830000 0 m": [2827, 3621, 6532, 32114],
+  "tmerc 40 -76.5833333333333 0.9999375 250000 0 m": [2829, 3623, 6534, 32116],
+  "tmerc 40 -78.5833333333333 0.9999375 350000 0 m": [2830, 3629, 6540, 32117],
+  "lcc 40.1666666666667 -74 41.0333333333333 40.6666666666667 300000 0 m": [2831, 3627, 6538, 32118],
+  "lcc 47 -100.5 48.7333333333333 47.4333333333333 600000 0 m": [2832, 3633, 6544, 32120],
+  "lcc 45.6666666666667 -100.5 47.4833333333333 46.1833333333333 600000 0 m": [2833, 3635, 6546, 32121],
+  "lcc 39.6666666666667 -82.5 41.7 40.4333333333333 600000 0 m": [2834, 3637, 6548, 32122],
+  "lcc 38 -82.5 40.0333333333333 38.7333333333333 600000 0 m": [2835, 3638, 6550, 32123],
+  "lcc 35 -98 36.7666666666667 35.5666666666667 600000 0 m": [2836, 3639, 6552, 32124],
+  "lcc 33.3333333333333 -98 35.2333333333333 33.9333333333333 600000 0 m": [2837, 3641, 6554, 32125],
+  "lcc 43.6666666666667 -120.5 46 44.3333333333333 2500000 0 m": [2838, 3645, 6558, 32126],
+  "lcc 41.6666666666667 -120.5 44 42.3333333333333 1500000 0 m": [2839, 3647, 6560, 32127],
+  "tmerc 41.0833333333333 -71.5 0.99999375 100000 0 m": [2840, 3653, 6567, 32130],
+  "lcc 43.8333333333333 -100 45.6833333333333 44.4166666666667 600000 0 m": [2841, 3657, 6571, 32134],
+  "lcc 42.3333333333333 -100.333333333333 44.4 42.8333333333333 600000 0 m": [2842, 3659, 6573, 32135],
+  "lcc 34.3333333333333 -86 36.4166666666667 35.25 600000 0 m": [2843, 3661, 6575, 32136],
+  "lcc 34 -101.5 36.1833333333333 34.65 200000 1000000 m": [2844, 3667, 6581, 32137],
+  "lcc 31.6666666666667 -98.5 33.9666666666667 32.1333333333333 600000 2000000 m": [2845, 3669, 6583, 32138],
+  "lcc 29.6666666666667 -100.333333333333 31.8833333333333 30.1166666666667 700000 3000000 m": [2846, 3663, 6577, 32139],
+  "lcc 27.8333333333333 -99 30.2833333333333 28.3833333333333 600000 4000000 m": [2847, 3673, 6587, 32140],
+  "lcc 25.6666666666667 -98.5 27.8333333333333 26.1666666666667 300000 5000000 m": [2848, 3671, 6585, 32141],
+  "lcc 40.3333333333333 -111.5 41.7833333333333 40.7166666666667 500000 1000000 m": [2849, 3678, 6620, 32142],
+  "lcc 38.3333333333333 -111.5 40.65 39.0166666666667 500000 2000000 m": [2850, 3675, 6619, 32143],
+  "lcc 36.6666666666667 -111.5 38.35 37.2166666666667 500000 3000000 m": [2851, 3681, 6621, 32144],
+  "tmerc 42.5 -72.5 0.999964286 500000 0 m": [2852, 3684, 6589, 32145],
+  "lcc 37.6666666666667 -78.5 39.2 38.0333333333333 3500000 2000000 m": [2853, 3685, 6592, 32146],
+  "lcc 36.3333333333333 -78.5 37.9666666666667 36.7666666666667 3500000 1000000 m": [2854, 3687, 6594, 32147],
+  "lcc 47 -120.833333333333 48.7333333333333 47.5 500000 0 m": [2855, 3689, 6596, 32148],
+  "lcc 45.3333333333333 -120.5 47.3333333333333 45.8333333333333 500000 0 m": [2856, 3691, 6598, 32149],
+  "lcc 38.5 -79.5 40.25 39 600000 0 m": [2857, 3693, 6600, 32150],
+  "lcc 37 -81 38.8833333333333 37.4833333333333 600000 0 m": [2858, 3694, 6602, 32151],
+  "lcc 45.1666666666667 -90 46.7666666666667 45.5666666666667 600000 0 m": [2859, 3697, 6606, 32152],
+  "lcc 43.8333333333333 -90 45.5 44.25 600000 0 m": [2860, 3695, 6879, 32153],
+  "lcc 42 -90 44.0666666666667 42.7333333333333 600000 0 m": [2861, 3699, 6608, 32154],
+  "tmerc 40.5 -105.166666666667 0.9999375 200000 0 m": [2862, 3702, 6611, 32155],
+  "tmerc 40.5 -107.333333333333 0.9999375 400000 100000 m": [2863, 3703, 6613, 32156],
+  "tmerc 40.5 -108.75 0.9999375 600000 0 m": [2864, 3704, 6617, 32157],
+  "tmerc 40.5 -110.083333333333 0.9999375 800000 100000 m": [2865, 3705, 6615, 32158],
+  "lcc 17.8333333333333 -66.4333333333333 18.4333333333333 18.0333333333333 200000 200000 m": [2866, 4437, 6566, 32161],
+  "tmerc 37.5 -85.6666666666667 0.999966667 99999.9998983997 249999.9998984 us-ft": [2965, 2967, 3533, 6459],
+  "tmerc 37.5 -87.0833333333333 0.999966667 900000 249999.9998984 us-ft": [2966, 2968, 3535, 6461],
+  "tmerc 43.8333333333333 -67.875 0.99998 700000 0 m": [3072, 3075, 3555, 6481],
+  "tmerc 42.8333333333333 -70.375 0.99998 300000 0 m": [3074, 3077, 3556, 6482],
+  "lcc 31.1666666666667 -100 27.4166666666667 34.9166666666667 1000000 1000000 m": [3081],
+  "lcc 36.3333333333333 -85.75 37.0833333333333 38.6666666666667 1500000 1000000 m": [3088, 3090, 3546, 6472],
+  "lcc 36.3333333333333 -85.75 37.0833333333333 38.6666666666667 1500000 999999.999898399 us-ft": [3089, 3091, 3547, 6473],
+  "lcc 33.75 -79 36.1666666666667 34.3333333333333 609601.22 0 m": [3358, 3631, 6542, 32119],
+  "lcc 31.8333333333333 -81 34.8333333333333 32.5 609600 0 m": [3360, 3655, 6569, 32133],
+  "lcc 40.1666666666667 -77.75 41.95 40.8833333333333 600000 0 m": [3362, 3649, 6562, 32128],
+  "lcc 39.3333333333333 -77.75 40.9666666666667 39.9333333333333 600000 0 m": [3364, 3651, 6564, 32129],
+  "lcc 41.5 -93.5 43.2666666666667 42.0666666666667 1500000 999999.999989839 us-ft": [3417, 3425, 3537, 6463],
+  "lcc 40 -93.5 41.7833333333333 40.6166666666667 500000.00001016 0 us-ft": [3418, 3426, 3539, 6465],
+  "lcc 38.3333333333333 -98 39.7833333333333 38.7166666666667 399999.99998984 0 us-ft": [3419, 3427, 3541, 6467],
+  "lcc 36.6666666666667 -98.5 38.5666666666667 37.2666666666667 399999.99998984 399999.99998984 us-ft": [3420, 3428, 3543, 6469],
+  "tmerc 34.75 -115.583333333333 0.9999 200000.00001016 8000000.00001016 us-ft": [3421, 3429, 3610, 6521],
+  "tmerc 34.75 -116.666666666667 0.9999 500000.00001016 6000000 us-ft": [3422, 3430, 3608, 6519],
+  "tmerc 34.75 -118.583333333333 0.9999 800000.00001016 3999999.99998984 us-ft": [3423, 3431, 3612, 6523],
+  "lcc 34.3333333333333 -92 36.2333333333333 34.9333333333333 399999.99998984 0 us-ft": [3433, 3441, 3485, 6411],
+  "lcc 32.6666666666667 -92 34.7666666666667 33.3 399999.99998984 399999.99998984 us-ft": [3434, 3442, 3487, 6413],
+  "tmerc 36.6666666666667 -88.3333333333333 0.999975 300000 0 us-ft": [3435, 3443, 3529, 6455],
+  "tmerc 36.6666666666667 -90.1666666666667 0.999941177 699999.99998984 0 us-ft": [3436, 3444, 3531, 6457],
+  "tmerc 42.5 -71.6666666666667 0.999966667 300000 0 us-ft": [3437, 3445, 3614, 6525],
+  "tmerc 41.0833333333333 -71.5 0.99999375 99999.9999898399 0 us-ft": [3438, 3446, 3654, 6568],
+  "lcc 30.5 -92.5 32.6666666666667 31.1666666666667 999999.999989839 0 us-ft": [3451, 3456, 3551, 6477],
+  "lcc 28.5 -91.3333333333333 30.7 29.3 999999.999989839 0 us-ft": [3452, 3457, 3553, 6479],
+  "lcc 25.5 -91.3333333333333 27.8333333333333 26.1666666666667 999999.999989839 0 us-ft": [3453],
+  "lcc 42.3333333333333 -100.333333333333 44.4 42.8333333333333 600000 0 us-ft": [3455, 3459, 3660, 6574],
+  "lcc 43.8333333333333 -100 45.6833333333333 44.4166666666667 600000 0 us-ft": [3458, 3658, 4457, 6572],
+  "tmerc 43.5 -69.125 0.99998 500000 0 m": [3463, 3464, 3554, 6480],
+  "omerc 57 -133.666666666667 323.130102361111 0.9999 5000000 -5000000 m": [3468, 6394, 26931],
+  "tmerc 54 -142 0.9999 500000 0 m": [3469, 6395, 26932],
+  "tmerc 54 -146 0.9999 500000 0 m": [3470, 6396, 26933],
+  "tmerc 54 -150 0.9999 500000 0 m": [3471, 6397, 26934],
+  "tmerc 54 -154 0.9999 500000 0 m": [3472, 6398, 26935],
+  "tmerc 54 -158 0.9999 500000 0 m": [3473, 6399, 26936],
+  "tmerc 54 -162 0.9999 500000 0 m": [3474, 6400, 26937],
+  "tmerc 54 -166 0.9999 500000 0 m": [3475, 6401, 26938],
+  "tmerc 54 -170 0.9999 500000 0 m": [3476, 6402, 26939],
+  "lcc 51 -176 53.8333333333333 51.8333333333333 1000000 0 m": [3477, 6403, 26940],
+  "lcc 40.3333333333333 -111.5 41.7833333333333 40.7166666666667 500000.00001016 999999.999989839 us-ft": [3560, 3568, 3680, 6626],
+  "lcc 38.3333333333333 -111.5 40.65 39.0166666666667 500000.00001016 2000000.00001016 us-ft": [3566, 3569, 3677, 6625],
+  "lcc 36.6666666666667 -111.5 38.35 37.2166666666667 500000.00001016 3000000 us-ft": [3567, 3570, 3683, 6627],
+  "lcc 39.6666666666667 -82.5 41.7 40.4333333333333 600000 0 us-ft": [3728, 3734, 3753, 6549],
+  "lcc 38 -82.5 40.0333333333333 38.7333333333333 600000 0 us-ft": [3729, 3735, 3754, 6551],
+  "tmerc 40.5 -105.166666666667 0.9999375 200000.00001016 0 us-ft": [3730, 3736, 3755, 6612],
+  "tmerc 40.5 -107.333333333333 0.9999375 399999.99998984 99999.9999898399 us-ft": [3731, 3737, 3756, 6614],
+  "tmerc 40.5 -108.75 0.9999375 600000 0 us-ft": [3732, 3738, 3757, 6618],
+  "tmerc 40.5 -110.083333333333 0.9999375 800000.00001016 99999.9999898399 us-ft": [3733, 3739, 3758, 6616],
+  "tmerc 21.1666666666667 -158 0.99999 500000.00001016 0 us-ft": [3759, 3760],
+  "tmerc 42.5 -72.5 0.999964286 500000.00001016 0 us-ft": [5646, 5654, 5655, 6590],
+  "tmerc 43.6666666666667 -68.5 0.9999 300000 0 us-ft": [6484, 26847, 26855, 26863],
+  "tmerc 42.8333333333333 -70.1666666666667 0.999966667 900000 0 us-ft": [6486, 26848, 26856, 26864],
+  "lcc 45 -94.25 47.05 45.6166666666667 800000.00001016 99999.9999898399 us-ft": [6501, 26850, 26858, 26866],
+  "lcc 46.5 -93.1 48.6333333333333 47.0333333333333 800000.00001016 99999.9999898399 us-ft": [6503, 26849, 26857, 26865],
+  "lcc 43 -94 45.2166666666667 43.7833333333333 800000.00001016 99999.9999898399 us-ft": [6505, 26851, 26859, 26867],
+  "lcc 38.5 -79.5 40.25 39 600000 0 us-ft": [6601, 26853, 26861, 26869],
+  "lcc 37 -81 38.8833333333333 37.4833333333333 600000 0 us-ft": [6603, 26854, 26862, 26870],
+  "lcc 39.8333333333333 -100 43 40 500000.00001016 0 us-ft": [6880, 26852, 26860, 26868],
+  "tmerc 30.5 -85.8333333333333 0.99996 200000.0001016 0 us-ft": [9748],
+  "tmerc 30 -87.5 0.999933333 600000 0 us-ft": [9749],
+  "lcc 25.5 -91.3333333333333 27.8333333333333 26.1666666666667 1000000 0 m": [32199],
+};
@@ -0,0 +1,67 @@
+import proj4 from "proj4";
+import { epsgCode, epsgDefinition } from "./epsg.js";
+
+export interface CrsTransformer {
+  label: string;
+  geographic: boolean;
+  toLatLng(x: number, y: number): [number, number] | null;
+  fromLatLng(lat: number, lng: number): [number, number] | null;
+}
+
+const WKT_PATTERN = /^\s*[A-Z_]+\[/i;
+const transformers = new Map<string, CrsTransformer | null>();
+
+export function crsDefinition(crs: string | null | undefined): string | null {
+  if (!crs) return null;
+  const code = epsgCode(crs);
+  if (code !== null) return epsgDefinition(code);
+  return WKT_PATTERN.test(crs) || crs.trim().startsWith("+proj=") ? crs : null;
+}
+
+function finite(values: number[]): boolean {
+  return values.every((value) => Number.isFinite(value));
+}
+
+function buildTransformer(label: string, definition: string): CrsTransformer | null {
+  try {
+    const converter = proj4(definition);
+    const geographic = new proj4.Proj(definition).names.includes("longlat");
+    return {
+      label,
+      geographic,
+      toLatLng(x, y) {
+        const [lng, lat] = converter.inverse([x, y]);
+        return finite([lat, lng]) && Math.abs(lat) <= 90 && Math.abs(lng) <= 540 ? [lat, lng] : null;
+      },
+      fromLatLng(lat, lng) {
+        const [x, y] = converter.forward([lng, lat]);
+        return finite([x, y]) ? [x, y] : null;
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+function cachedTransformer(label: string, definition: string): CrsTransformer | null {
+  if (!transformers.has(definition)) {
+    transformers.set(definition, buildTransformer(label, definition));
+  }
+  return transformers.get(definition) ?? null;
+}
+
+export function createCrsTransformer(crs: string | null | undefined, wkt?: string | null): CrsTransformer | null {
+  const label = crsDisplayName(crs, wkt);
+  const definitions = [wkt && WKT_PATTERN.test(wkt) ? wkt : null, crsDefinition(crs)];
+  for (const definition of definitions) {
+    const transformer = definition ? cachedTransformer(label, definition) : null;
+    if (transformer) return transformer;
+  }
+  return null;
+}
+
+export function crsDisplayName(crs: string | null | undefined, wkt?: string | null): string {
+  const name = (wkt ?? crs)?.match(/^\s*\w+\[\s*"([^"]*)"/)?.[1];
+  if (crs && !WKT_PATTERN.test(crs)) return name && name !== crs ? `${crs} (${name})` : crs;
+  return name ?? "unknown";
+}
@@ -0,0 +1,29 @@
+const PROJECTED_CRS = /\b(PROJCS|PROJCRS|PROJECTEDCRS)\[/i;
+const GEOGRAPHIC_CRS = /\b(GEOGCS|GEOGCRS|GEOGRAPHICCRS|GEODCRS|GEODETICCRS)\[/i;
+
+export function wktBlock(wkt: string, start: number): string {
+  let depth = 0;
+  for (let i = wkt.indexOf("[", start); i < wkt.length; i++) {
+    if (wkt[i] === "[") depth++;
+    else if (wkt[i] === "]" && --depth === 0) return wkt.slice(start, i + 1);
+  }
+  return wkt.slice(start);
+}
+
+export function wktAuthorityCode(block: string): number | null {
+  const id = block.match(/(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]?\s*$/i);
+  return id ? Number(id[1]) : null;
+}
+
+export function wktName(block: string): string | null {
+  return block.match(/^\w+\[\s*"([^"]*)"/)?.[1] ?? null;
+}
+
+export function wktHorizontal(wkt: string): { crs: string | null; wkt: string | null } {
+  const projected = wkt.search(PROJECTED_CRS);
+  const start = projected !== -1 ? projected : wkt.search(GEOGRAPHIC_CRS);
+  if (start === -1) return { crs: null, wkt: null };
+  const block = wktBlock(wkt, start);
+  const code = wktAuthorityCode(block);
+  return { crs: code ? `EPSG:${code}` : wktName(block), wkt: block };
+}
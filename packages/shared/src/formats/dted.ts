@@ -1,8 +1,9 @@
-import type { TerrainData } from "../three/modules/TerrainModule";
-import type { RasterInfo, LoadResult } from "./loader";
+import type { ParsedRaster } from "../types.js";
+import { buildRaster } from "./raster.js";
 
-export async function loadDtedFile(file: File): Promise<LoadResult> {
-  const buffer = await file.arrayBuffer();
+const DTED_NODATA = -32767;
+
+export function parseDted(buffer: ArrayBuffer, fileName = ""): ParsedRaster {
   const bytes = new Uint8Array(buffer);
 
   if (bytes.length < 3428 + 12) {
@@ -33,7 +34,7 @@ export async function loadDtedFile(file: File): Promise<LoadResult> {
   const width = numLonLines;
   const height = numLatPoints;
   const elevations = new Float32Array(width * height);
-  elevations.fill(-32767);
+  elevations.fill(DTED_NODATA);
 
   const dsiStart = 80;
   const accStart = dsiStart + 648;
@@ -60,30 +61,24 @@ export async function loadDtedFile(file: File): Promise<LoadResult> {
   const pixelSizeX = lonInterval / 3600;
   const pixelSizeY = latInterval / 3600;
 
-  const level = file.name.match(/\.dt(\d)$/i)?.[1] ?? "?";
+  const level = fileName.match(/\.dt(\d)$/i)?.[1] ?? "?";
 
-  const terrain: TerrainData = {
+  return buildRaster({
+    format: `DTED Level ${level}`,
     elevations,
     width,
     height,
-    noDataValue: -32767,
-  };
-
-  const info: RasterInfo = {
-    width,
-    height,
-    bandCount: 1,
-    bitsPerSample: [16],
+    bitsPerSample: 16,
+    sampleFormat: 2,
+    noDataValue: DTED_NODATA,
+    originX: originLon,
+    originY: originLat + height * pixelSizeY,
     pixelSizeX,
     pixelSizeY,
     crs: "EPSG:4326",
-    noDataValue: -32767,
-    originX: originLon,
-    originY: originLat + height * pixelSizeY,
-    format: `DTED Level ${level}`,
-  };
-
-  return { terrain, info };
+    verticalCrs: "EPSG:5773",
+    verticalUnits: "metre",
+  });
 }
 
 function parseDtedCoord(str: string): number {
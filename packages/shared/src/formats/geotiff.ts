@@ -0,0 +1,323 @@
+import type {
+  Extent,
+  GeoTransform,
+  PixelSize,
+  RasterSize,
+  RasterType,
+  TiffImageLayout,
+  TiffStructure,
+  VerticalUnit,
+} from "../types.js";
+import { wktHorizontal } from "./crs.js";
+import { epsgVerticalUnit, verticalCrsUnits } from "./vertical.js";
+
+export const COMPRESSION_NAMES: Record<number, string> = {
+  1: "None",
+  2: "CCITT RLE",
+  3: "CCITT Group 3",
+  4: "CCITT Group 4",
+  5: "LZW",
+  6: "JPEG (old-style)",
+  7: "JPEG",
+  8: "Deflate",
+  32773: "PackBits",
+  32946: "Deflate",
+  34712: "JPEG 2000",
+  34887: "LERC",
+  34925: "LZMA",
+  50000: "ZSTD",
+  50001: "WebP",
+  50002: "JPEG XL",
+};
+
+export const PREDICTOR_NAMES: Record<number, string> = {
+  1: "None",
+  2: "Horizontal differencing",
+  3: "Floating point",
+};
+
+const USER_DEFINED = 32767;
+const ESRI_PE_STRING = /ESRI PE String\s*=\s*/i;
+
+type NumericGeoKey = { [K in keyof GeoTiffGeoKeys]-?: GeoTiffGeoKeys[K] extends number | undefined ? K : never }[keyof GeoTiffGeoKeys];
+
+interface GeoKeyProjection {
+  name: string;
+  parameters: [string, NumericGeoKey[], number][];
+}
+
+const FALSE_EASTING: [string, NumericGeoKey[], number] = ["false_easting", ["ProjFalseEastingGeoKey", "ProjFalseOriginEastingGeoKey"], 0];
+const FALSE_NORTHING: [string, NumericGeoKey[], number] = ["false_northing", ["ProjFalseNorthingGeoKey", "ProjFalseOriginNorthingGeoKey"], 0];
+const ORIGIN_LAT: NumericGeoKey[] = ["ProjNatOriginLatGeoKey", "ProjFalseOriginLatGeoKey", "ProjCenterLatGeoKey"];
+const ORIGIN_LONG: NumericGeoKey[] = ["ProjNatOriginLongGeoKey", "ProjFalseOriginLongGeoKey", "ProjCenterLongGeoKey"];
+const SCALE: [string, NumericGeoKey[], number] = ["scale_factor", ["ProjScaleAtNatOriginGeoKey"], 1];
+
+const COORD_TRANSFORMS: Record<number, GeoKeyProjection> = {
+  1: {
+    name: "Transverse_Mercator",
+    parameters: [["latitude_of_origin", ORIGIN_LAT, 0], ["central_meridian", ORIGIN_LONG, 0], SCALE, FALSE_EASTING, FALSE_NORTHING],
+  },
+  7: {
+    name: "Mercator_1SP",
+    parameters: [["latitude_of_origin", ORIGIN_LAT, 0], ["central_meridian", ORIGIN_LONG, 0], SCALE, FALSE_EASTING, FALSE_NORTHING],
+  },
+  8: {
+    name: "Lambert_Conformal_Conic_2SP",
+    parameters: [
+      ["standard_parallel_1", ["ProjStdParallel1GeoKey"], 0],
+      ["standard_parallel_2", ["ProjStdParallel2GeoKey", "ProjStdParallel1GeoKey"], 0],
+      ["latitude_of_origin", ["ProjFalseOriginLatGeoKey", "ProjNatOriginLatGeoKey"], 0],
+      ["central_meridian", ["ProjFalseOriginLongGeoKey", "ProjNatOriginLongGeoKey"], 0],
+      ["false_easting", ["ProjFalseOriginEastingGeoKey", "ProjFalseEastingGeoKey"], 0],
+      ["false_northing", ["ProjFalseOriginNorthingGeoKey", "ProjFalseNorthingGeoKey"], 0],
+    ],
+  },
+  9: {
+    name: "Lambert_Conformal_Conic_1SP",
+    parameters: [["latitude_of_origin", ORIGIN_LAT, 0], ["central_meridian", ORIGIN_LONG, 0], SCALE, FALSE_EASTING, FALSE_NORTHING],
+  },
+  10: {
+    name: "Lambert_Azimuthal_Equal_Area",
+    parameters: [["latitude_of_center", ["ProjCenterLatGeoKey", "ProjNatOriginLatGeoKey"], 0], ["longitude_of_center", ["ProjCenterLongGeoKey", "ProjNatOriginLongGeoKey"], 0], FALSE_EASTING, FALSE_NORTHING],
+  },
+  11: {
+    name: "Albers_Conic_Equal_Area",
+    parameters: [
+      ["standard_parallel_1", ["ProjStdParallel1GeoKey"], 0],
+      ["standard_parallel_2", ["ProjStdParallel2GeoKey", "ProjStdParallel1GeoKey"], 0],
+      ["latitude_of_center", ["ProjNatOriginLatGeoKey", "ProjFalseOriginLatGeoKey", "ProjCenterLatGeoKey"], 0],
+      ["longitude_of_center", ["ProjNatOriginLongGeoKey", "ProjFalseOriginLongGeoKey", "ProjCenterLongGeoKey"], 0],
+      FALSE_EASTING,
+      FALSE_NORTHING,
+    ],
+  },
+  15: {
+    name: "Polar_Stereographic",
+    parameters: [["latitude_of_origin", ["ProjNatOriginLatGeoKey"], 90], ["central_meridian", ["ProjStraightVertPoleLongGeoKey", "ProjNatOriginLongGeoKey"], 0], SCALE, FALSE_EASTING, FALSE_NORTHING],
+  },
+};
+
+const GEOGRAPHIC_DATUMS: Record<number, [string, string, number, number]> = {
+  4326: ["WGS_1984", "WGS 84", 6378137, 298.257223563],
+  4269: ["North_American_Datum_1983", "GRS 1980", 6378137, 298.257222101],
+  4152: ["NAD83_High_Accuracy_Reference_Network", "GRS 1980", 6378137, 298.257222101],
+  4759: ["NAD83_National_Spatial_Reference_System_2007", "GRS 1980", 6378137, 298.257222101],
+  6318: ["NAD83_National_Spatial_Reference_System_2011", "GRS 1980", 6378137, 298.257222101],
+  4617: ["NAD83_Canadian_Spatial_Reference_System", "GRS 1980", 6378137, 298.257222101],
+  4258: ["European_Terrestrial_Reference_System_1989", "GRS 1980", 6378137, 298.257222101],
+  4283: ["Geocentric_Datum_of_Australia_1994", "GRS 1980", 6378137, 298.257222101],
+  7844: ["Geocentric_Datum_of_Australia_2020", "GRS 1980", 6378137, 298.257222101],
+};
+
+const LINEAR_UNITS: Record<number, [string, number]> = {
+  9001: ["metre", 1],
+  9002: ["foot", 0.3048],
+  9003: ["US survey foot", 1200 / 3937],
+};
+const MASK_SUBFILE = 4;
+const ROTATION_EPSILON = 1e-9;
+
+export interface GeoTiffGeoTags {
+  ModelPixelScale?: ArrayLike<number>;
+  ModelTiepoint?: ArrayLike<number>;
+  ModelTransformation?: ArrayLike<number>;
+}
+
+export interface GeoTiffGeoKeys {
+  ProjectedCSTypeGeoKey?: number;
+  GeographicTypeGeoKey?: number;
+  GTCitationGeoKey?: string;
+  PCSCitationGeoKey?: string;
+  GeogCitationGeoKey?: string;
+  GeogSemiMajorAxisGeoKey?: number;
+  GeogInvFlatteningGeoKey?: number;
+  ProjCoordTransGeoKey?: number;
+  ProjLinearUnitsGeoKey?: number;
+  ProjLinearUnitSizeGeoKey?: number;
+  ProjStdParallel1GeoKey?: number;
+  ProjStdParallel2GeoKey?: number;
+  ProjNatOriginLongGeoKey?: number;
+  ProjNatOriginLatGeoKey?: number;
+  ProjFalseEastingGeoKey?: number;
+  ProjFalseNorthingGeoKey?: number;
+  ProjFalseOriginLongGeoKey?: number;
+  ProjFalseOriginLatGeoKey?: number;
+  ProjFalseOriginEastingGeoKey?: number;
+  ProjFalseOriginNorthingGeoKey?: number;
+  ProjCenterLongGeoKey?: number;
+  ProjCenterLatGeoKey?: number;
+  ProjScaleAtNatOriginGeoKey?: number;
+  ProjStraightVertPoleLongGeoKey?: number;
+  GTRasterTypeGeoKey?: number;
+  VerticalCSTypeGeoKey?: number;
+  VerticalCitationGeoKey?: string;
+  VerticalUnitsGeoKey?: number;
+}
+
+export interface TiffDirectorySource {
+  bigTiff: boolean;
+  firstIFDOffset: number;
+  getImageCount(): Promise<number>;
+  requestIFD(index: number): Promise<{ fileDirectory: Record<string, unknown>; nextIFDByteOffset: number }>;
+  getGhostValues(): Promise<Record<string, string> | null>;
+}
+
+function numbers(value: unknown): number[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "number") return [value];
+  return Array.from(value as ArrayLike<number>);
+}
+
+function imageLayout(directory: Record<string, unknown>, ifdOffset: number): TiffImageLayout {
+  const width = directory.ImageWidth as number;
+  const height = directory.ImageLength as number;
+  const tiled = directory.TileWidth !== undefined;
+  return {
+    ifdOffset,
+    width,
+    height,
+    subfileType: (directory.NewSubfileType as number | undefined) ?? 0,
+    tiled,
+    blockWidth: tiled ? directory.TileWidth as number : width,
+    blockHeight: tiled ? directory.TileLength as number : Math.min((directory.RowsPerStrip as number | undefined) ?? height, height),
+    compression: (directory.Compression as number | undefined) ?? 1,
+    blockOffsets: numbers(tiled ? directory.TileOffsets : directory.StripOffsets),
+    blockByteCounts: numbers(tiled ? directory.TileByteCounts : directory.StripByteCounts),
+  };
+}
+
+export async function readTiffStructure(tiff: TiffDirectorySource): Promise<TiffStructure> {
+  const images: TiffImageLayout[] = [];
+  const count = await tiff.getImageCount();
+  let ifdOffset = tiff.firstIFDOffset;
+  for (let i = 0; i < count; i++) {
+    const ifd = await tiff.requestIFD(i);
+    images.push(imageLayout(ifd.fileDirectory, ifdOffset));
+    ifdOffset = ifd.nextIFDByteOffset;
+  }
+  return { bigTiff: tiff.bigTiff, images, ghost: await tiff.getGhostValues() };
+}
+
+export function tiffOverviews(structure: TiffStructure): RasterSize[] {
+  return structure.images
+    .slice(1)
+    .filter((image) => (image.subfileType & MASK_SUBFILE) === 0)
+    .map(({ width, height }) => ({ width, height }));
+}
+
+export function compressionName(code: number | undefined): string {
+  const value = code ?? 1;
+  return COMPRESSION_NAMES[value] ?? `Unknown (${value})`;
+}
+
+function modelTransform(tags: GeoTiffGeoTags): GeoTransform | null {
+  const { ModelPixelScale: scale, ModelTiepoint: tiepoint, ModelTransformation: matrix } = tags;
+  if (tiepoint && tiepoint.length === 6 && scale && scale.length >= 2) {
+    const [i, j, , x, y] = Array.from(tiepoint);
+    return [x - i * scale[0], scale[0], 0, y + j * scale[1], 0, -scale[1]];
+  }
+  if (matrix && matrix.length >= 8) {
+    return [matrix[3], matrix[0], matrix[1], matrix[7], matrix[4], matrix[5]];
+  }
+  return null;
+}
+
+export function tiffGeoTransform(tags: GeoTiffGeoTags, rasterType: RasterType = "PixelIsArea"): GeoTransform | null {
+  const transform = modelTransform(tags);
+  if (!transform || rasterType === "PixelIsArea") return transform;
+  const [x, y] = geoTransformPoint(transform, -0.5, -0.5);
+  return [x, transform[1], transform[2], y, transform[4], transform[5]];
+}
+
+export function geoTransformPoint(transform: GeoTransform, col: number, row: number): [number, number] {
+  const [x0, a, b, y0, d, e] = transform;
+  return [x0 + col * a + row * b, y0 + col * d + row * e];
+}
+
+export function isRotated(transform: GeoTransform): boolean {
+  const scale = Math.max(Math.abs(transform[1]), Math.abs(transform[5]));
+  return Math.abs(transform[2]) > scale * ROTATION_EPSILON || Math.abs(transform[4]) > scale * ROTATION_EPSILON;
+}
+
+export function geoTransformRotation(transform: GeoTransform): number {
+  if (!isRotated(transform)) return 0;
+  return (Math.atan2(transform[4], transform[1]) * 180) / Math.PI;
+}
+
+export function geoTransformPixelSize(transform: GeoTransform): PixelSize {
+  return {
+    x: Math.hypot(transform[1], transform[4]),
+    y: Math.hypot(transform[2], transform[5]),
+  };
+}
+
+export function geoTransformExtent(transform: GeoTransform, width: number, height: number): Extent {
+  const corners = [[0, 0], [width, 0], [0, height], [width, height]].map(([col, row]) => geoTransformPoint(transform, col, row));
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+function citation(value: string | undefined): string | null {
+  return value?.replace(/\|$/, "").trim() || null;
+}
+
+function geoKeyValue(geoKeys: GeoTiffGeoKeys, keys: NumericGeoKey[], fallback: number): number {
+  for (const key of keys) {
+    const value = geoKeys[key];
+    if (typeof value === "number") return value;
+  }
+  return fallback;
+}
+
+function geoKeyGeographicWkt(geoKeys: GeoTiffGeoKeys): string | null {
+  const { GeographicTypeGeoKey: code, GeogSemiMajorAxisGeoKey: semiMajor, GeogInvFlatteningGeoKey: inverseFlattening } = geoKeys;
+  const known = code ? GEOGRAPHIC_DATUMS[code] : undefined;
+  const [datum, spheroid, a, rf] = known ?? (semiMajor && inverseFlattening ? ["Unknown", "Unknown", semiMajor, inverseFlattening] : []);
+  if (!datum) return null;
+  const name = citation(geoKeys.GeogCitationGeoKey) ?? datum;
+  return `GEOGCS["${name}",DATUM["${datum}",SPHEROID["${spheroid}",${a},${rf}],TOWGS84[0,0,0,0,0,0,0]],PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]]`;
+}
+
+function geoKeyProjectedWkt(geoKeys: GeoTiffGeoKeys): string | null {
+  const projection = geoKeys.ProjCoordTransGeoKey ? COORD_TRANSFORMS[geoKeys.ProjCoordTransGeoKey] : undefined;
+  const geographic = geoKeyGeographicWkt(geoKeys);
+  if (!projection || !geographic) return null;
+  const name = citation(geoKeys.PCSCitationGeoKey) ?? citation(geoKeys.GTCitationGeoKey) ?? "Unnamed";
+  const [unit, size] = LINEAR_UNITS[geoKeys.ProjLinearUnitsGeoKey ?? 9001] ?? ["unknown", geoKeys.ProjLinearUnitSizeGeoKey ?? 1];
+  const parameters = projection.parameters.map(([parameter, keys, fallback]) => `PARAMETER["${parameter}",${geoKeyValue(geoKeys, keys, fallback)}]`);
+  return `PROJCS["${name}",${geographic},PROJECTION["${projection.name}"],${parameters.join(",")},UNIT["${unit}",${size}]]`;
+}
+
+export function geoKeyCrsWkt(geoKeys: GeoTiffGeoKeys): string | null {
+  const pe = [geoKeys.PCSCitationGeoKey, geoKeys.GTCitationGeoKey].find((value) => value && ESRI_PE_STRING.test(value));
+  if (pe) {
+    const wkt = wktHorizontal(pe.replace(ESRI_PE_STRING, "")).wkt;
+    if (wkt) return wkt;
+  }
+  return geoKeys.ProjectedCSTypeGeoKey === USER_DEFINED ? geoKeyProjectedWkt(geoKeys) : null;
+}
+
+export function geoKeyCrs(geoKeys: GeoTiffGeoKeys): string | null {
+  const { ProjectedCSTypeGeoKey: projected, GeographicTypeGeoKey: geographic } = geoKeys;
+  if (projected && projected !== USER_DEFINED) return `EPSG:${projected}`;
+  const wkt = geoKeyCrsWkt(geoKeys);
+  if (wkt) return wktHorizontal(wkt).crs;
+  if (projected) return citation(geoKeys.PCSCitationGeoKey) ?? citation(geoKeys.GTCitationGeoKey);
+  if (geographic && geographic !== USER_DEFINED) return `EPSG:${geographic}`;
+  return null;
+}
+
+export function geoKeyVerticalCrs(geoKeys: GeoTiffGeoKeys): string | null {
+  const code = geoKeys.VerticalCSTypeGeoKey;
+  if (code && code !== USER_DEFINED) return `EPSG:${code}`;
+  return citation(geoKeys.VerticalCitationGeoKey);
+}
+
+export function geoKeyVerticalUnits(geoKeys: GeoTiffGeoKeys): VerticalUnit | null {
+  return epsgVerticalUnit(geoKeys.VerticalUnitsGeoKey) ?? verticalCrsUnits(geoKeyVerticalCrs(geoKeys));
+}
+
+export function geoKeyRasterType(geoKeys: GeoTiffGeoKeys): RasterType {
+  return geoKeys.GTRasterTypeGeoKey === 2 ? "PixelIsPoint" : "PixelIsArea";
+}
@@ -0,0 +1,43 @@
+export { FORMATS, ALL_EXTENSIONS, detectFormat } from "./detect.js";
+export { parseXyz } from "./xyz.js";
+export { parseUsgsDem } from "./usgsDem.js";
+export { parseDted } from "./dted.js";
+export { parseNetcdf } from "./netcdf.js";
+export { parseLas } from "./las.js";
+export { parseWorldFile, parseWorldFileImage } from "./worldFile.js";
+export {
+  COMPRESSION_NAMES,
+  PREDICTOR_NAMES,
+  compressionName,
+  tiffGeoTransform,
+  geoTransformPoint,
+  isRotated,
+  geoTransformRotation,
+  geoTransformPixelSize,
+  geoTransformExtent,
+  geoKeyCrs,
+  geoKeyCrsWkt,
+  geoKeyVerticalCrs,
+  geoKeyVerticalUnits,
+  geoKeyRasterType,
+  readTiffStructure,
+  tiffOverviews,
+} from "./geotiff.js";
+export {
+  VERTICAL_UNITS,
+  METRES_PER_UNIT,
+  VERTICAL_UNIT_SYMBOLS,
+  VERTICAL_UNIT_NAMES,
+  parseVerticalUnit,
+  epsgVerticalUnit,
+  verticalCrsUnits,
+  verticalCrsLabel,
+  wktVertical,
+  metresPerUnit,
+  convertElevation,
+} from "./vertical.js";
+export { wktHorizontal } from "./crs.js";
+
+export type { LazPerfModule, ParseLasOptions } from "./las.js";
+export type { WorldFile } from "./worldFile.js";
+export type { GeoTiffGeoTags, GeoTiffGeoKeys, TiffDirectorySource } from "./geotiff.js";
@@ -1,9 +1,10 @@
-import type { TerrainData } from "../three/modules/TerrainModule";
-import type { RasterInfo, LoadResult } from "./loader";
+import type { ParsedRaster } from "../types.js";
+import { buildRaster, isGeographicExtent } from "./raster.js";
+import { wktHorizontal } from "./crs.js";
+import { parseVerticalUnit } from "./vertical.js";
 
-export async function loadNetcdfFile(file: File): Promise<LoadResult> {
+export async function parseNetcdf(buffer: ArrayBuffer): Promise<ParsedRaster> {
   const { NetCDFReader } = await import("netcdfjs");
-  const buffer = await file.arrayBuffer();
   const reader = new NetCDFReader(buffer);
 
   const variables = reader.variables.map((v: { name: string }) => v.name);
@@ -93,34 +94,35 @@ export async function loadNetcdfFile(file: File): Promise<LoadResult> {
     }
   }
 
+  const attributes = (varMeta as { attributes?: { name: string; value: unknown }[] })?.attributes ?? [];
   let noDataValue: number | null = null;
-  const fillAttr = (varMeta as { attributes?: { name: string; value: unknown }[] })?.attributes?.find(
-    (a) => a.name === "_FillValue" || a.name === "missing_value"
-  );
+  const fillAttr = attributes.find((a) => a.name === "_FillValue" || a.name === "missing_value");
   if (fillAttr) {
     noDataValue = Number(fillAttr.value);
   }
-
-  const terrain: TerrainData = {
+  const unitsAttr = attributes.find((a) => a.name === "units");
+  const gridMapping = reader.variables.find(
+    (v: { name: string }) => v.name === attributes.find((a) => a.name === "grid_mapping")?.value
+  ) as { attributes?: { name: string; value: unknown }[] } | undefined;
+  const datumAttr = gridMapping?.attributes?.find((a) => a.name === "geoid_name" || a.name === "geopotential_datum_name");
+  const wktAttr = gridMapping?.attributes?.find((a) => a.name === "crs_wkt" || a.name === "spatial_ref");
+  const horizontal = typeof wktAttr?.value === "string" ? wktHorizontal(wktAttr.value) : { crs: null, wkt: null };
+
+  return buildRaster({
+    format: `NetCDF (${elevVar})`,
     elevations,
     width,
     height,
-    noDataValue,
-  };
-
-  const info: RasterInfo = {
-    width,
-    height,
-    bandCount: 1,
-    bitsPerSample: [32],
-    pixelSizeX,
-    pixelSizeY,
-    crs: (originX >= -180 && (originX + width * pixelSizeX) <= 180 && (originY - height * pixelSizeY) >= -90 && originY <= 90) ? "EPSG:4326" : null,
+    bitsPerSample: 32,
+    sampleFormat: 3,
     noDataValue,
     originX,
     originY,
-    format: `NetCDF (${elevVar})`,
-  };
-
-  return { terrain, info };
+    pixelSizeX,
+    pixelSizeY,
+    crs: horizontal.crs ?? (isGeographicExtent(originX, originY - height * pixelSizeY, originX + width * pixelSizeX, originY) ? "EPSG:4326" : null),
+    crsWkt: horizontal.wkt,
+    verticalCrs: typeof datumAttr?.value === "string" ? datumAttr.value : null,
+    verticalUnits: parseVerticalUnit(typeof unitsAttr?.value === "string" ? unitsAttr.value : null),
+  });
 }
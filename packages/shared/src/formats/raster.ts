@@ -0,0 +1,58 @@
+import type { GeoTiffMetadata, ParsedRaster, VerticalUnit } from "../types.js";
+
+export interface RasterFields {
+  format: string;
+  elevations: Float32Array;
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  sampleFormat: number;
+  noDataValue: number | null;
+  originX: number;
+  originY: number;
+  pixelSizeX: number;
+  pixelSizeY: number;
+  crs: string | null;
+  crsWkt?: string | null;
+  verticalCrs?: string | null;
+  verticalUnits?: VerticalUnit | null;
+}
+
+export function buildRaster(fields: RasterFields): ParsedRaster {
+  const { width, height, originX, originY, pixelSizeX, pixelSizeY } = fields;
+  const metadata: GeoTiffMetadata = {
+    width,
+    height,
+    bandCount: 1,
+    bitsPerSample: [fields.bitsPerSample],
+    sampleFormat: [fields.sampleFormat],
+    noDataValue: fields.noDataValue,
+    origin: [originX, originY],
+    pixelSize: { x: pixelSizeX, y: pixelSizeY },
+    extent: {
+      minX: originX,
+      minY: originY - height * Math.abs(pixelSizeY),
+      maxX: originX + width * Math.abs(pixelSizeX),
+      maxY: originY,
+    },
+    crs: fields.crs,
+    crsWkt: fields.crsWkt,
+    verticalCrs: fields.verticalCrs,
+    verticalUnits: fields.verticalUnits,
+    format: fields.format,
+  };
+  return { metadata, elevations: fields.elevations };
+}
+
+export function isGeographicExtent(minX: number, minY: number, maxX: number, maxY: number): boolean {
+  return minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90;
+}
+
+export function decodeAscii(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 8192) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + 8192)));
+  }
+  return chunks.join("");
+}
@@ -1,8 +1,11 @@
-import type { TerrainData } from "../three/modules/TerrainModule";
-import type { RasterInfo, LoadResult } from "./loader";
+import type { ParsedRaster, VerticalUnit } from "../types.js";
+import { buildRaster, decodeAscii } from "./raster.js";
 
-export async function loadUsgsDemFile(file: File): Promise<LoadResult> {
-  const text = await file.text();
+const USGS_DEM_NODATA = -32767;
+const USGS_DEM_UNITS: Record<number, VerticalUnit> = { 1: "foot", 2: "metre" };
+
+export function parseUsgsDem(buffer: ArrayBuffer): ParsedRaster {
+  const text = decodeAscii(buffer);
 
   const typeA = text.substring(0, 1024);
 
@@ -12,50 +15,33 @@ export async function loadUsgsDemFile(file: File): Promise<LoadResult> {
   }
 
   const demLevel = parseInt(typeA.substring(144, 150).trim()) || 1;
-
-  const patternCode = parseInt(typeA.substring(150, 156).trim()) || 1;
   const planimetricCode = parseInt(typeA.substring(156, 162).trim()) || 0;
-
-  const swCornerStr = typeA.substring(546, 570);
-  const neCornerStr = typeA.substring(570, 594);
+  const elevationUnitCode = parseInt(typeA.substring(534, 540).trim()) || 0;
 
   let originX = 0;
   let originY = 0;
-  let maxX = 0;
-  let maxY = 0;
 
   const coords = extractCorners(typeA);
   if (coords) {
     originX = coords.minX;
     originY = coords.maxY;
-    maxX = coords.maxX;
-    maxY = coords.maxY;
   }
 
-  const resXStr = typeA.substring(816, 828).trim();
-  const resYStr = typeA.substring(828, 840).trim();
-  const resZStr = typeA.substring(840, 852).trim();
-
-  const resX = parseFloat(resXStr) || 1;
-  const resY = parseFloat(resYStr) || 1;
+  const resX = parseFloat(typeA.substring(816, 828).trim()) || 1;
+  const resY = parseFloat(typeA.substring(828, 840).trim()) || 1;
 
-  const rowsStr = typeA.substring(853, 859).trim();
-  const colsStr = typeA.substring(859, 865).trim();
-
-  const numRows = parseInt(rowsStr) || 0;
-  const numCols = parseInt(colsStr) || 0;
+  const numRows = parseInt(typeA.substring(853, 859).trim()) || 0;
+  const numCols = parseInt(typeA.substring(859, 865).trim()) || 0;
 
   if (numRows === 0 || numCols === 0) {
-    return parseAsDemText(text, file.name);
+    return parseAsDemText(text);
   }
 
   const elevations = new Float32Array(numRows * numCols);
   elevations.fill(0);
 
-  let pos = 1024;
   let idx = 0;
-  const remaining = text.substring(pos);
-  const values = remaining.match(/-?\d+\.?\d*/g) || [];
+  const values = text.substring(1024).match(/-?\d+\.?\d*/g) || [];
 
   for (const val of values) {
     if (idx >= elevations.length) break;
@@ -67,28 +53,21 @@ export async function loadUsgsDemFile(file: File): Promise<LoadResult> {
   if (planimetricCode === 1) crs = "UTM";
   else if (planimetricCode === 0) crs = "EPSG:4326";
 
-  const terrain: TerrainData = {
+  return buildRaster({
+    format: `USGS DEM (Level ${demLevel})`,
     elevations,
     width: numCols,
     height: numRows,
-    noDataValue: -32767,
-  };
-
-  const info: RasterInfo = {
-    width: numCols,
-    height: numRows,
-    bandCount: 1,
-    bitsPerSample: [16],
+    bitsPerSample: 16,
+    sampleFormat: 2,
+    noDataValue: USGS_DEM_NODATA,
+    originX,
+    originY,
     pixelSizeX: resX,
     pixelSizeY: resY,
     crs,
-    noDataValue: -32767,
-    originX,
-    originY,
-    format: `USGS DEM (Level ${demLevel})`,
-  };
-
-  return { terrain, info };
+    verticalUnits: USGS_DEM_UNITS[elevationUnitCode] ?? null,
+  });
 }
 
 function extractCorners(header: string): { minX: number; minY: number; maxX: number; maxY: number } | null {
@@ -110,7 +89,7 @@ function extractCorners(header: string): { minX: number; minY: number; maxX: num
   };
 }
 
-async function parseAsDemText(text: string, fileName: string): Promise<LoadResult> {
+function parseAsDemText(text: string): ParsedRaster {
   const lines = text
     .split(/\r?\n/)
     .map((l) => l.trim())
@@ -139,20 +118,18 @@ async function parseAsDemText(text: string, fileName: string): Promise<LoadResul
     elevations[i] = allValues[i];
   }
 
-  const terrain: TerrainData = { elevations, width, height, noDataValue: -32767 };
-  const info: RasterInfo = {
+  return buildRaster({
+    format: "USGS DEM (text)",
+    elevations,
     width,
     height,
-    bandCount: 1,
-    bitsPerSample: [16],
+    bitsPerSample: 16,
+    sampleFormat: 2,
+    noDataValue: USGS_DEM_NODATA,
+    originX: 0,
+    originY: 0,
     pixelSizeX: 1,
     pixelSizeY: 1,
     crs: null,
-    noDataValue: -32767,
-    originX: 0,
-    originY: 0,
-    format: "USGS DEM (text)",
-  };
-
-  return { terrain, info };
+  });
 }
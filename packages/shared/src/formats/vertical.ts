@@ -0,0 +1,113 @@
+import type { VerticalUnit } from "../types.js";
+import { wktAuthorityCode, wktBlock, wktName } from "./crs.js";
+
+export const VERTICAL_UNITS: VerticalUnit[] = ["metre", "foot", "us-survey-foot"];
+
+export const METRES_PER_UNIT: Record<VerticalUnit, number> = {
+  metre: 1,
+  foot: 0.3048,
+  "us-survey-foot": 1200 / 3937,
+};
+
+export const VERTICAL_UNIT_SYMBOLS: Record<VerticalUnit, string> = {
+  metre: "m",
+  foot: "ft",
+  "us-survey-foot": "US ft",
+};
+
+export const VERTICAL_UNIT_NAMES: Record<VerticalUnit, string> = {
+  metre: "Metres",
+  foot: "International feet",
+  "us-survey-foot": "US survey feet",
+};
+
+const EPSG_UNITS: Record<number, VerticalUnit> = {
+  9001: "metre",
+  9002: "foot",
+  9003: "us-survey-foot",
+};
+
+const VERTICAL_CRS: Record<number, { name: string; units: VerticalUnit }> = {
+  3855: { name: "EGM2008 height", units: "metre" },
+  5701: { name: "ODN height", units: "metre" },
+  5702: { name: "NGVD29 height (ftUS)", units: "us-survey-foot" },
+  5703: { name: "NAVD88 height", units: "metre" },
+  5711: { name: "AHD height", units: "metre" },
+  5714: { name: "MSL height", units: "metre" },
+  5773: { name: "EGM96 height", units: "metre" },
+  6360: { name: "NAVD88 height (ftUS)", units: "us-survey-foot" },
+  6647: { name: "CGVD2013(CGG2013) height", units: "metre" },
+  7837: { name: "DHHN2016 height", units: "metre" },
+  8228: { name: "NAVD88 height (ft)", units: "foot" },
+};
+
+const UNIT_ALIASES: Record<string, VerticalUnit> = {
+  m: "metre",
+  metre: "metre",
+  metres: "metre",
+  meter: "metre",
+  meters: "metre",
+  ft: "foot",
+  foot: "foot",
+  feet: "foot",
+  international_foot: "foot",
+  international_feet: "foot",
+  ftus: "us-survey-foot",
+  us_ft: "us-survey-foot",
+  us_foot: "us-survey-foot",
+  us_feet: "us-survey-foot",
+  foot_us: "us-survey-foot",
+  feet_us: "us-survey-foot",
+  us_survey_foot: "us-survey-foot",
+  us_survey_feet: "us-survey-foot",
+  survey_foot: "us-survey-foot",
+  survey_feet: "us-survey-foot",
+};
+
+function epsgCode(crs: string | null | undefined): number | null {
+  const match = crs?.match(/^EPSG:(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+export function parseVerticalUnit(name: string | null | undefined): VerticalUnit | null {
+  if (!name) return null;
+  const key = name.trim().toLowerCase().replace(/[\s.-]+/g, "_").replace(/^_+|_+$/g, "");
+  return UNIT_ALIASES[key] ?? null;
+}
+
+export function epsgVerticalUnit(code: number | undefined): VerticalUnit | null {
+  return code ? EPSG_UNITS[code] ?? null : null;
+}
+
+export function verticalCrsUnits(crs: string | null | undefined): VerticalUnit | null {
+  const code = epsgCode(crs);
+  return code ? VERTICAL_CRS[code]?.units ?? null : null;
+}
+
+export function verticalCrsLabel(crs: string): string {
+  const code = epsgCode(crs);
+  const known = code ? VERTICAL_CRS[code] : undefined;
+  return known ? `${crs} (${known.name})` : crs;
+}
+
+export function wktVertical(wkt: string): { crs: string | null; units: VerticalUnit | null } {
+  const start = wkt.search(/\b(VERT_CS|VERTCRS|VERTICALCRS)\[/i);
+  if (start === -1) return { crs: null, units: null };
+  const block = wktBlock(wkt, start);
+  const code = wktAuthorityCode(block);
+  const crs = code ? `EPSG:${code}` : wktName(block);
+  const unit = block.match(/(?:LENGTHUNIT|UNIT)\[\s*"([^"]*)"/i)?.[1];
+  return { crs, units: parseVerticalUnit(unit) ?? verticalCrsUnits(crs) };
+}
+
+export function metresPerUnit(units: VerticalUnit | null | undefined): number {
+  return units ? METRES_PER_UNIT[units] : 1;
+}
+
+export function convertElevation(
+  value: number,
+  from: VerticalUnit | null | undefined,
+  to: VerticalUnit | null | undefined
+): number {
+  return (value * metresPerUnit(from)) / metresPerUnit(to);
+}
@@ -0,0 +1,66 @@
+import type { ParsedRaster } from "../types.js";
+import { buildRaster, isGeographicExtent } from "./raster.js";
+
+export interface WorldFile {
+  pixelSizeX: number;
+  rotationY: number;
+  rotationX: number;
+  pixelSizeY: number;
+  originX: number;
+  originY: number;
+}
+
+export function parseWorldFile(content: string): WorldFile | null {
+  const lines = content
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0);
+
+  if (lines.length < 6) return null;
+
+  const [pixelSizeX, rotationY, rotationX, pixelSizeY, originX, originY] = lines.slice(0, 6).map((l) => parseFloat(l));
+  return { pixelSizeX, rotationY, rotationX, pixelSizeY, originX, originY };
+}
+
+export function parseWorldFileImage(
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  worldFileContent?: string
+): ParsedRaster {
+  const elevations = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    elevations[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+
+  let originX = 0;
+  let originY = 0;
+  let pixelSizeX = 1;
+  let pixelSizeY = 1;
+
+  const worldFile = worldFileContent ? parseWorldFile(worldFileContent) : null;
+  if (worldFile) {
+    pixelSizeX = Math.abs(worldFile.pixelSizeX) || 1;
+    pixelSizeY = Math.abs(worldFile.pixelSizeY) || 1;
+    originX = worldFile.originX || 0;
+    originY = worldFile.originY || 0;
+  }
+
+  return buildRaster({
+    format: worldFileContent ? "Image + World File" : "Image (grayscale)",
+    elevations,
+    width,
+    height,
+    bitsPerSample: 8,
+    sampleFormat: 1,
+    noDataValue: null,
+    originX,
+    originY,
+    pixelSizeX,
+    pixelSizeY,
+    crs: isGeographicExtent(originX, originY - height * pixelSizeY, originX + width * pixelSizeX, originY) ? "EPSG:4326" : null,
+  });
+}
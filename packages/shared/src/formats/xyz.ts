@@ -1,8 +1,8 @@
-import type { TerrainData } from "../three/modules/TerrainModule";
-import type { RasterInfo, LoadResult } from "./loader";
+import type { ParsedRaster } from "../types.js";
+import { buildRaster, decodeAscii, isGeographicExtent } from "./raster.js";
 
-export async function loadXyzFile(file: File): Promise<LoadResult> {
-  const text = await file.text();
+export function parseXyz(buffer: ArrayBuffer): ParsedRaster {
+  const text = decodeAscii(buffer);
   const lines = text
     .split(/\r?\n/)
     .map((l) => l.trim())
@@ -62,29 +62,18 @@ export async function loadXyzFile(file: File): Promise<LoadResult> {
     elevations[iy * width + ix] = p.z;
   }
 
-  const pixelSizeX = rangeX / (width - 1 || 1);
-  const pixelSizeY = rangeY / (height - 1 || 1);
-
-  const terrain: TerrainData = {
+  return buildRaster({
+    format: "ASCII XYZ",
     elevations,
     width,
     height,
-    noDataValue: null,
-  };
-
-  const info: RasterInfo = {
-    width,
-    height,
-    bandCount: 1,
-    bitsPerSample: [32],
-    pixelSizeX,
-    pixelSizeY,
-    crs: (minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90) ? "EPSG:4326" : null,
+    bitsPerSample: 32,
+    sampleFormat: 3,
     noDataValue: null,
     originX: minX,
     originY: maxY,
-    format: "ASCII XYZ",
-  };
-
-  return { terrain, info };
+    pixelSizeX: rangeX / (width - 1 || 1),
+    pixelSizeY: rangeY / (height - 1 || 1),
+    crs: isGeographicExtent(minX, minY, maxX, maxY) ? "EPSG:4326" : null,
+  });
 }
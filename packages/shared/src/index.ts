@@ -1,10 +1,56 @@
 export type {
   Extent,
   PixelSize,
+  GeoTransform,
+  RasterType,
+  VerticalUnit,
+  RasterTiling,
+  RasterSize,
+  TiffImageLayout,
+  TiffStructure,
+  CogRule,
+  CogViolation,
   GeoTiffMetadata,
   QaResult,
   QaReport,
   RunConfig,
+  CacheOptions,
+  ScanOptions,
+  PixelCheckOptions,
+  PixelLocation,
+  PixelRegion,
+  QaCheckRule,
+  QaThresholds,
+  QaExpectations,
+  Position,
+  AoiPolygon,
+  AoiMultiPolygon,
+  Aoi,
+  BatchCheckOptions,
+  TileEdges,
+  BatchQaReport,
+  QaSummary,
+  ManifestFile,
+  RunManifest,
+  CheckTransition,
+  CheckChange,
+  MetadataChange,
+  FileDiff,
+  QaDiff,
+  JsonSchema,
+  SchemaError,
+  RunBatchChecksOptions,
+  QaProfile,
+  RunChecksOptions,
+  RasterRowSink,
+  RasterStatistics,
+  RasterHistogram,
+  RasterPercentile,
+  StatisticsOptions,
+  RasterThumbnail,
+  FormatId,
+  FormatInfo,
+  ParsedRaster,
 } from "./types.js";
 
 export { QaCheckId, QaSeverity } from "./types.js";
@@ -12,11 +58,132 @@ export { QaCheckId, QaSeverity } from "./types.js";
 export {
   checkPixelSize,
   checkExtent,
+  checkRotation,
   checkBandCount,
   checkNoData,
   checkBitDepth,
   checkCrs,
+  checkElevationRange,
+  isCheckEnabled,
+  applySeverityOverride,
+  hasPixelChecks,
+  hasStatisticsChecks,
+  runStatisticsChecks,
+  createPixelCheckSink,
   runAllChecks,
+  DEFAULT_PIXEL_CHECK_OPTIONS,
+  checkVoids,
+  checkSpikes,
+  checkFlatAreas,
+  checkInvalidValues,
+  runPixelChecks,
+  createNoDataTest,
+  feedRows,
+  createVoidsSink,
+  createSpikesSink,
+  createFlatAreasSink,
+  createInvalidValuesSink,
+  parseQaProfile,
+  expectsCog,
+  findCogViolations,
+  checkCog,
+  resultViolations,
+  checkExpectedCrs,
+  checkExpectedPixelSize,
+  checkExpectedBitDepth,
+  checkAoiContainment,
+  parseAoi,
+  aoiBounds,
+  testAoiContainment,
+  reprojectAoi,
+  DEFAULT_BATCH_CHECK_OPTIONS,
+  extractTileEdges,
+  createTileEdgesSink,
+  checkTileOverlap,
+  checkTileGaps,
+  checkGridAlignment,
+  checkEdgeSeams,
+  runBatchChecks,
 } from "./qa/index.js";
 
-export { buildReport, reportToJson, reportsToJson } from "./report/index.js";
+export type { AoiContainment } from "./qa/index.js";
+
+export {
+  createStatisticsSink,
+  computeStatistics,
+  statisticsPercentile,
+  convertStatistics,
+  DEFAULT_HISTOGRAM_BINS,
+  DEFAULT_PERCENTILES,
+  createHistogram,
+  histogramPercentiles,
+  resampleHistogram,
+} from "./stats/index.js";
+
+export type { HistogramAccumulator } from "./stats/index.js";
+
+export { EPSG_DEFINITIONS, epsgCode, epsgDefinition, crsDefinition, createCrsTransformer, crsDisplayName } from "./crs/index.js";
+
+export type { CrsTransformer } from "./crs/index.js";
+
+export {
+  buildReport,
+  reportToJson,
+  reportsToJson,
+  summaryToJson,
+  diffMetadata,
+  diffResults,
+  diffSummaries,
+  diffToJson,
+  formatDiff,
+  REPORT_SCHEMA_VERSION,
+  QA_RESULT_SCHEMA,
+  QA_REPORT_SCHEMA,
+  QA_SUMMARY_SCHEMA,
+  RUN_MANIFEST_SCHEMA,
+  validateSchema,
+  validateReport,
+} from "./report/index.js";
+
+export {
+  FORMATS,
+  ALL_EXTENSIONS,
+  detectFormat,
+  parseXyz,
+  parseUsgsDem,
+  parseDted,
+  parseNetcdf,
+  parseLas,
+  parseWorldFile,
+  parseWorldFileImage,
+  COMPRESSION_NAMES,
+  PREDICTOR_NAMES,
+  compressionName,
+  tiffGeoTransform,
+  geoTransformPoint,
+  isRotated,
+  geoTransformRotation,
+  geoTransformPixelSize,
+  geoTransformExtent,
+  geoKeyCrs,
+  geoKeyCrsWkt,
+  geoKeyVerticalCrs,
+  geoKeyVerticalUnits,
+  geoKeyRasterType,
+  readTiffStructure,
+  tiffOverviews,
+  VERTICAL_UNITS,
+  METRES_PER_UNIT,
+  VERTICAL_UNIT_SYMBOLS,
+  VERTICAL_UNIT_NAMES,
+  parseVerticalUnit,
+  epsgVerticalUnit,
+  verticalCrsUnits,
+  verticalCrsLabel,
+  wktVertical,
+  metresPerUnit,
+  convertElevation,
+  wktHorizontal,
+} from "./formats/index.js";
+
+export type { LazPerfModule, ParseLasOptions, WorldFile, GeoTiffGeoTags, GeoTiffGeoKeys, TiffDirectorySource } from "./formats/index.js";
@@ -0,0 +1,248 @@
+import type { CrsTransformer } from "../crs/index.js";
+import type { Aoi, AoiMultiPolygon, AoiPolygon, Extent, Position } from "../types.js";
+
+const EPSILON = 1e-9;
+const GEOJSON_CRS = "EPSG:4326";
+const DENSIFY_STEPS = 16;
+
+export interface AoiContainment {
+  contained: boolean;
+  cornersOutside: Position[];
+  boundaryCrossed: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parsePosition(raw: unknown): Position {
+  if (!Array.isArray(raw) || raw.length < 2 || !raw.slice(0, 2).every((n) => typeof n === "number" && Number.isFinite(n))) {
+    throw new Error("Invalid AOI: coordinates must be [x, y] number pairs");
+  }
+  return [raw[0], raw[1]];
+}
+
+function parseRings(raw: unknown): Position[][] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("Invalid AOI: polygon must have at least one ring");
+  }
+  return raw.map((ring) => {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      throw new Error("Invalid AOI: polygon rings need at least 4 positions");
+    }
+    return ring.map(parsePosition);
+  });
+}
+
+function parseCrs(raw: unknown): string {
+  if (raw === undefined) return GEOJSON_CRS;
+  const name = typeof raw === "string" ? raw : isObject(raw) && isObject(raw.properties) ? raw.properties.name : undefined;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error("Invalid AOI: crs must be a CRS name or a GeoJSON named CRS");
+  }
+  if (/CRS84$/i.test(name)) return GEOJSON_CRS;
+  const urn = name.match(/^urn:ogc:def:crs:EPSG:[\d.]*:(\d+)$/i);
+  return urn ? `EPSG:${urn[1]}` : name.trim();
+}
+
+function parseGeometry(raw: Record<string, unknown>): AoiPolygon | AoiMultiPolygon {
+  if (raw.type === "Polygon") {
+    return { type: "Polygon", coordinates: parseRings(raw.coordinates) };
+  }
+  if (raw.type === "MultiPolygon") {
+    if (!Array.isArray(raw.coordinates) || raw.coordinates.length === 0) {
+      throw new Error("Invalid AOI: MultiPolygon has no polygons");
+    }
+    return { type: "MultiPolygon", coordinates: raw.coordinates.map(parseRings) };
+  }
+  throw new Error(`Invalid AOI: unsupported geometry type "${String(raw.type)}"`);
+}
+
+export function parseAoi(raw: unknown): Aoi {
+  if (Array.isArray(raw)) {
+    if (raw.length !== 4 || !raw.every((n) => typeof n === "number" && Number.isFinite(n))) {
+      throw new Error("Invalid AOI: bbox must be [minX, minY, maxX, maxY]");
+    }
+    const [minX, minY, maxX, maxY] = raw as number[];
+    if (minX >= maxX || minY >= maxY) {
+      throw new Error("Invalid AOI: bbox min must be less than max");
+    }
+    return { minX, minY, maxX, maxY };
+  }
+
+  if (!isObject(raw)) throw new Error("Invalid AOI: expected a bbox or GeoJSON polygon");
+
+  if (["minX", "minY", "maxX", "maxY"].every((k) => typeof raw[k] === "number")) {
+    return parseAoi([raw.minX, raw.minY, raw.maxX, raw.maxY]);
+  }
+
+  const crs = parseCrs(raw.crs);
+
+  if (raw.type === "Feature") {
+    if (!isObject(raw.geometry)) throw new Error("Invalid AOI: feature has no geometry");
+    return { ...parseGeometry(raw.geometry), crs };
+  }
+
+  if (raw.type === "FeatureCollection") {
+    if (!Array.isArray(raw.features)) throw new Error("Invalid AOI: feature collection has no features");
+    const polygons: Position[][][] = [];
+    for (const feature of raw.features) {
+      if (!isObject(feature) || !isObject(feature.geometry)) continue;
+      const geometry = parseGeometry(feature.geometry);
+      if (geometry.type === "Polygon") polygons.push(geometry.coordinates);
+      else polygons.push(...geometry.coordinates);
+    }
+    if (polygons.length === 0) throw new Error("Invalid AOI: feature collection has no polygons");
+    return { type: "MultiPolygon", coordinates: polygons, crs };
+  }
+
+  return { ...parseGeometry(raw), crs };
+}
+
+function isExtent(aoi: Aoi): aoi is Extent {
+  return !("type" in aoi);
+}
+
+export function aoiBounds(aoi: Aoi): Extent {
+  if (isExtent(aoi)) return aoi;
+
+  const polygons = aoi.type === "Polygon" ? [aoi.coordinates] : aoi.coordinates;
+  const bounds: Extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const polygon of polygons) {
+    for (const [x, y] of polygon[0]) {
+      if (x < bounds.minX) bounds.minX = x;
+      if (y < bounds.minY) bounds.minY = y;
+      if (x > bounds.maxX) bounds.maxX = x;
+      if (y > bounds.maxY) bounds.maxY = y;
+    }
+  }
+  return bounds;
+}
+
+function reprojectRing(ring: Position[], transform: (p: Position) => Position | null): Position[] | null {
+  const out: Position[] = [];
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [ax, ay] = ring[i];
+    const [bx, by] = ring[i + 1];
+    for (let step = 0; step < DENSIFY_STEPS; step++) {
+      const t = step / DENSIFY_STEPS;
+      const p = transform([ax + (bx - ax) * t, ay + (by - ay) * t]);
+      if (!p) return null;
+      out.push(p);
+    }
+  }
+  if (out.length === 0) return null;
+  out.push(out[0]);
+  return out;
+}
+
+export function reprojectAoi(
+  aoi: AoiPolygon | AoiMultiPolygon,
+  source: CrsTransformer,
+  target: CrsTransformer
+): AoiPolygon | AoiMultiPolygon | null {
+  const transform = ([x, y]: Position): Position | null => {
+    const latLng = source.toLatLng(x, y);
+    return latLng ? target.fromLatLng(latLng[0], latLng[1]) : null;
+  };
+  const polygons: Position[][][] = [];
+  for (const rings of aoi.type === "Polygon" ? [aoi.coordinates] : aoi.coordinates) {
+    const reprojected = rings.map((ring) => reprojectRing(ring, transform));
+    if (reprojected.some((ring) => ring === null)) return null;
+    polygons.push(reprojected as Position[][]);
+  }
+  return aoi.type === "Polygon"
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+}
+
+function onSegment(p: Position, a: Position, b: Position): boolean {
+  const cross = (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  if (Math.abs(cross) > EPSILON * Math.max(1, length)) return false;
+  return (
+    p[0] >= Math.min(a[0], b[0]) - EPSILON && p[0] <= Math.max(a[0], b[0]) + EPSILON &&
+    p[1] >= Math.min(a[1], b[1]) - EPSILON && p[1] <= Math.max(a[1], b[1]) + EPSILON
+  );
+}
+
+function ringContains(ring: Position[], p: Position): "inside" | "outside" | "boundary" {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (onSegment(p, a, b)) return "boundary";
+    if ((a[1] > p[1]) !== (b[1] > p[1])) {
+      const xCross = a[0] + ((p[1] - a[1]) / (b[1] - a[1])) * (b[0] - a[0]);
+      if (p[0] < xCross) inside = !inside;
+    }
+  }
+  return inside ? "inside" : "outside";
+}
+
+function polygonContains(rings: Position[][], p: Position): boolean {
+  const outer = ringContains(rings[0], p);
+  if (outer === "outside") return false;
+  return rings.slice(1).every((hole) => ringContains(hole, p) !== "inside");
+}
+
+function segmentsCross(a: Position, b: Position, c: Position, d: Position): boolean {
+  const orient = (p: Position, q: Position, r: Position) =>
+    (q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]);
+  const d1 = orient(c, d, a);
+  const d2 = orient(c, d, b);
+  const d3 = orient(a, b, c);
+  const d4 = orient(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function rectangleCorners(extent: Extent): Position[] {
+  return [
+    [extent.minX, extent.minY],
+    [extent.maxX, extent.minY],
+    [extent.maxX, extent.maxY],
+    [extent.minX, extent.maxY],
+  ];
+}
+
+function boundaryCrossesRectangle(rings: Position[][], extent: Extent): boolean {
+  const corners = rectangleCorners(extent);
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const a = ring[i];
+      const b = ring[i + 1];
+      if (
+        a[0] > extent.minX + EPSILON && a[0] < extent.maxX - EPSILON &&
+        a[1] > extent.minY + EPSILON && a[1] < extent.maxY - EPSILON
+      ) {
+        return true;
+      }
+      for (let k = 0; k < 4; k++) {
+        if (segmentsCross(a, b, corners[k], corners[(k + 1) % 4])) return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function testAoiContainment(extent: Extent, aoi: Aoi): AoiContainment {
+  const corners = rectangleCorners(extent);
+
+  if (isExtent(aoi)) {
+    const cornersOutside = corners.filter(
+      ([x, y]) => x < aoi.minX - EPSILON || x > aoi.maxX + EPSILON || y < aoi.minY - EPSILON || y > aoi.maxY + EPSILON
+    );
+    return { contained: cornersOutside.length === 0, cornersOutside, boundaryCrossed: false };
+  }
+
+  const polygons = aoi.type === "Polygon" ? [aoi.coordinates] : aoi.coordinates;
+  let best: AoiContainment | null = null;
+  for (const rings of polygons) {
+    const cornersOutside = corners.filter((c) => !polygonContains(rings, c));
+    const boundaryCrossed = cornersOutside.length === 0 && boundaryCrossesRectangle(rings, extent);
+    const result = { contained: cornersOutside.length === 0 && !boundaryCrossed, cornersOutside, boundaryCrossed };
+    if (result.contained) return result;
+    if (!best || cornersOutside.length < best.cornersOutside.length) best = result;
+  }
+  return best!;
+}
@@ -0,0 +1,163 @@
+import {
+  type GeoTiffMetadata,
+  type QaProfile,
+  type QaResult,
+  QaCheckId,
+  QaSeverity,
+} from "../types.js";
+import { createCrsTransformer } from "../crs/index.js";
+import { aoiBounds, reprojectAoi, testAoiContainment } from "./aoi.js";
+
+const DEFAULT_PIXEL_SIZE_TOLERANCE = 1e-9;
+
+function normalizeCrs(crs: string): string {
+  return crs.trim().toUpperCase().replace(/^EPSG::?/, "EPSG:");
+}
+
+export function checkExpectedCrs(meta: GeoTiffMetadata, profile?: QaProfile): QaResult | null {
+  const expected = profile?.expected?.crs;
+  if (!expected) return null;
+
+  const actual = meta.crs;
+  if (!actual || normalizeCrs(actual) !== normalizeCrs(expected)) {
+    return {
+      checkId: QaCheckId.EXPECTED_CRS,
+      severity: QaSeverity.ERROR,
+      passed: false,
+      message: `CRS mismatch: expected ${expected}, found ${actual ?? "none"}`,
+      details: { expected, actual },
+    };
+  }
+
+  return {
+    checkId: QaCheckId.EXPECTED_CRS,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `CRS matches expected ${expected}`,
+    details: { expected, actual },
+  };
+}
+
+export function checkExpectedPixelSize(meta: GeoTiffMetadata, profile?: QaProfile): QaResult | null {
+  const expected = profile?.expected?.pixelSize;
+  if (!expected) return null;
+
+  const tolerance = expected.tolerance ?? DEFAULT_PIXEL_SIZE_TOLERANCE;
+  const actual = { x: Math.abs(meta.pixelSize.x), y: Math.abs(meta.pixelSize.y) };
+  const diffX = Math.abs(actual.x - Math.abs(expected.x));
+  const diffY = Math.abs(actual.y - Math.abs(expected.y));
+  const details = {
+    expected: { x: expected.x, y: expected.y },
+    actual,
+    difference: { x: diffX, y: diffY },
+    tolerance,
+  };
+
+  if (diffX > tolerance || diffY > tolerance) {
+    return {
+      checkId: QaCheckId.EXPECTED_PIXEL_SIZE,
+      severity: QaSeverity.ERROR,
+      passed: false,
+      message: `Pixel size mismatch: expected ${expected.x} x ${expected.y} (±${tolerance}), found ${actual.x} x ${actual.y}`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.EXPECTED_PIXEL_SIZE,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `Pixel size matches expected ${expected.x} x ${expected.y}`,
+    details,
+  };
+}
+
+export function checkExpectedBitDepth(meta: GeoTiffMetadata, profile?: QaProfile): QaResult | null {
+  const expected = profile?.expected?.bitDepth;
+  if (expected === undefined) return null;
+
+  const actual = meta.bitsPerSample;
+  if (actual.some((b) => b !== expected)) {
+    return {
+      checkId: QaCheckId.EXPECTED_BIT_DEPTH,
+      severity: QaSeverity.ERROR,
+      passed: false,
+      message: `Bit depth mismatch: expected ${expected}, found ${actual.join(", ")}`,
+      details: { expected, actual },
+    };
+  }
+
+  return {
+    checkId: QaCheckId.EXPECTED_BIT_DEPTH,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `Bit depth matches expected ${expected}`,
+    details: { expected, actual },
+  };
+}
+
+export function checkAoiContainment(meta: GeoTiffMetadata, profile?: QaProfile): QaResult | null {
+  const expected = profile?.expected?.aoi;
+  if (!expected) return null;
+
+  const { extent } = meta;
+  const aoiType = "type" in expected ? expected.type : "bbox";
+  const aoiCrs = "type" in expected ? expected.crs : undefined;
+  let aoi = expected;
+  if ("type" in expected && aoiCrs && (!meta.crs || normalizeCrs(aoiCrs) !== normalizeCrs(meta.crs))) {
+    const source = createCrsTransformer(aoiCrs);
+    const target = createCrsTransformer(meta.crs, meta.crsWkt);
+    const reprojected = source && target ? reprojectAoi(expected, source, target) : null;
+    if (!reprojected) {
+      const reason = !target
+        ? meta.crs ? `raster CRS ${meta.crs} is not supported` : "raster CRS is unknown"
+        : !source
+          ? `AOI CRS ${aoiCrs} is not supported`
+          : `AOI could not be reprojected to ${meta.crs}`;
+      return {
+        checkId: QaCheckId.AOI_CONTAINMENT,
+        severity: QaSeverity.WARNING,
+        passed: false,
+        message: `AOI containment not checked: ${reason}`,
+        details: { expected: { aoiType, crs: aoiCrs }, actual: { extent, crs: meta.crs } },
+      };
+    }
+    aoi = reprojected;
+  }
+
+  const bounds = aoiBounds(aoi);
+  const containment = testAoiContainment(extent, aoi);
+  const details = {
+    expected: { aoiType, crs: aoiCrs ?? meta.crs, bounds },
+    actual: extent,
+    overhang: {
+      west: Math.max(0, bounds.minX - extent.minX),
+      south: Math.max(0, bounds.minY - extent.minY),
+      east: Math.max(0, extent.maxX - bounds.maxX),
+      north: Math.max(0, extent.maxY - bounds.maxY),
+    },
+    cornersOutside: containment.cornersOutside,
+    boundaryCrossed: containment.boundaryCrossed,
+  };
+
+  if (!containment.contained) {
+    const reason = containment.cornersOutside.length > 0
+      ? `${containment.cornersOutside.length} of 4 corners outside`
+      : "AOI boundary crosses the raster footprint";
+    return {
+      checkId: QaCheckId.AOI_CONTAINMENT,
+      severity: QaSeverity.ERROR,
+      passed: false,
+      message: `Extent not within project AOI: ${reason}`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.AOI_CONTAINMENT,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: "Extent lies within project AOI",
+    details,
+  };
+}
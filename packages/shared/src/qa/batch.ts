@@ -0,0 +1,474 @@
+import {
+  type BatchCheckOptions,
+  type BatchQaReport,
+  type Extent,
+  type QaReport,
+  type QaResult,
+  type RasterRowSink,
+  type RunBatchChecksOptions,
+  type TileEdges,
+  QaCheckId,
+  QaSeverity,
+} from "../types.js";
+import { isCheckEnabled, applySeverityOverride } from "./checks.js";
+import { createNoDataTest, feedRows } from "./pixelChecks.js";
+import { metresPerUnit } from "../formats/vertical.js";
+
+export const DEFAULT_BATCH_CHECK_OPTIONS: BatchCheckOptions = {
+  seamThreshold: 1,
+  gridAlignmentTolerance: 0.01,
+  maxLocations: 10,
+};
+
+interface Footprint {
+  fileId: string;
+  fileName: string;
+  extent: Extent;
+  pixelX: number;
+  pixelY: number;
+  width: number;
+  height: number;
+  metresPerUnit: number;
+}
+
+interface SeamPair {
+  a: string;
+  b: string;
+  edge: "east" | "north";
+  samples: number;
+  meanStep: number;
+  maxStep: number;
+}
+
+export function createTileEdgesSink(
+  width: number,
+  height: number,
+  noDataValue: number | null
+): RasterRowSink<TileEdges> {
+  const isNoData = createNoDataTest(noDataValue);
+  const clean = (v: number) => (isNoData(v) ? NaN : v);
+  const top = new Float32Array(width * 2).fill(NaN);
+  const bottom = new Float32Array(width * 2).fill(NaN);
+  const left = new Float32Array(height * 2).fill(NaN);
+  const right = new Float32Array(height * 2).fill(NaN);
+  const secondRow = Math.min(1, height - 1);
+  const lastRow = height - 1;
+  const secondLastRow = Math.max(height - 2, 0);
+
+  return {
+    addRow(values, row) {
+      if (row >= height) return;
+      for (let col = 0; col < width; col++) {
+        const v = clean(values[col]);
+        if (row === 0) top[col] = v;
+        if (row === secondRow) top[width + col] = v;
+        if (row === lastRow) bottom[col] = v;
+        if (row === secondLastRow) bottom[width + col] = v;
+      }
+      left[row] = clean(values[0]);
+      left[height + row] = clean(values[Math.min(1, width - 1)]);
+      right[row] = clean(values[width - 1]);
+      right[height + row] = clean(values[Math.max(width - 2, 0)]);
+    },
+    finish() {
+      return { width, height, top, bottom, left, right };
+    },
+  };
+}
+
+export function extractTileEdges(
+  elevations: ArrayLike<number>,
+  width: number,
+  height: number,
+  noDataValue: number | null
+): TileEdges {
+  const sink = createTileEdgesSink(width, height, noDataValue);
+  feedRows(sink, elevations, width);
+  return sink.finish();
+}
+
+function toFootprints(reports: QaReport[]): Footprint[] {
+  return reports
+    .map((r) => ({
+      fileId: r.fileId,
+      fileName: r.fileName,
+      extent: r.metadata.extent,
+      pixelX: Math.abs(r.metadata.pixelSize.x),
+      pixelY: Math.abs(r.metadata.pixelSize.y),
+      width: r.metadata.width,
+      height: r.metadata.height,
+      metresPerUnit: metresPerUnit(r.metadata.verticalUnits),
+    }))
+    .sort((a, b) => a.extent.minX - b.extent.minX || a.fileName.localeCompare(b.fileName));
+}
+
+function overlapLength(aMin: number, aMax: number, bMin: number, bMax: number): number {
+  return Math.min(aMax, bMax) - Math.max(aMin, bMin);
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(Math.abs(a), Math.abs(b), 1);
+}
+
+function checkConsistency(
+  reports: QaReport[],
+  checkId: QaCheckId,
+  label: string,
+  severity: QaSeverity,
+  keyOf: (report: QaReport) => string,
+  opts: BatchCheckOptions
+): QaResult {
+  const groups = new Map<string, string[]>();
+  for (const report of reports) {
+    const key = keyOf(report);
+    const files = groups.get(key) ?? [];
+    files.push(report.fileName);
+    groups.set(key, files);
+  }
+
+  const values = [...groups.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([value, files]) => ({ value, fileCount: files.length, files: files.slice(0, opts.maxLocations) }));
+
+  if (groups.size > 1) {
+    return {
+      checkId,
+      severity,
+      passed: false,
+      message: `Mixed ${label} across tiles: ${values.map((v) => `${v.value} (${v.fileCount})`).join(", ")}`,
+      details: { values },
+    };
+  }
+
+  return {
+    checkId,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `Consistent ${label}: ${values[0]?.value ?? "n/a"}`,
+    details: { values },
+  };
+}
+
+export function checkTileOverlap(reports: QaReport[], options: Partial<BatchCheckOptions> = {}): QaResult {
+  const opts = { ...DEFAULT_BATCH_CHECK_OPTIONS, ...options };
+  const footprints = toFootprints(reports);
+  const overlaps: { a: string; b: string; width: number; height: number }[] = [];
+  let overlapCount = 0;
+
+  for (let i = 0; i < footprints.length; i++) {
+    const a = footprints[i];
+    const tol = Math.min(a.pixelX, a.pixelY) / 2;
+    for (let j = i + 1; j < footprints.length; j++) {
+      const b = footprints[j];
+      if (b.extent.minX >= a.extent.maxX - tol) break;
+      const ox = overlapLength(a.extent.minX, a.extent.maxX, b.extent.minX, b.extent.maxX);
+      const oy = overlapLength(a.extent.minY, a.extent.maxY, b.extent.minY, b.extent.maxY);
+      if (ox > tol && oy > tol) {
+        overlapCount++;
+        if (overlaps.length < opts.maxLocations) {
+          overlaps.push({ a: a.fileName, b: b.fileName, width: ox, height: oy });
+        }
+      }
+    }
+  }
+
+  if (overlapCount > 0) {
+    return {
+      checkId: QaCheckId.TILE_OVERLAP,
+      severity: QaSeverity.WARNING,
+      passed: false,
+      message: `${overlapCount} overlapping tile pair(s)`,
+      details: { overlapCount, overlaps },
+    };
+  }
+
+  return {
+    checkId: QaCheckId.TILE_OVERLAP,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: "No overlapping tile footprints",
+    details: { overlapCount },
+  };
+}
+
+export function checkTileGaps(reports: QaReport[], options: Partial<BatchCheckOptions> = {}): QaResult {
+  const opts = { ...DEFAULT_BATCH_CHECK_OPTIONS, ...options };
+  const footprints = toFootprints(reports);
+  const gaps: { a: string; b: string; direction: "east" | "north"; distance: number }[] = [];
+  let gapCount = 0;
+
+  for (const a of footprints) {
+    const tileW = a.extent.maxX - a.extent.minX;
+    const tileH = a.extent.maxY - a.extent.minY;
+    const tolX = a.pixelX / 2;
+    const tolY = a.pixelY / 2;
+    let east: { b: Footprint; distance: number } | null = null;
+    let north: { b: Footprint; distance: number } | null = null;
+
+    for (const b of footprints) {
+      if (b === a) continue;
+      const bW = b.extent.maxX - b.extent.minX;
+      const bH = b.extent.maxY - b.extent.minY;
+
+      const oy = overlapLength(a.extent.minY, a.extent.maxY, b.extent.minY, b.extent.maxY);
+      if (oy > Math.min(tileH, bH) / 2 && b.extent.minX >= a.extent.maxX - tolX) {
+        const distance = b.extent.minX - a.extent.maxX;
+        if (!east || distance < east.distance) east = { b, distance };
+      }
+
+      const ox = overlapLength(a.extent.minX, a.extent.maxX, b.extent.minX, b.extent.maxX);
+      if (ox > Math.min(tileW, bW) / 2 && b.extent.minY >= a.extent.maxY - tolY) {
+        const distance = b.extent.minY - a.extent.maxY;
+        if (!north || distance < north.distance) north = { b, distance };
+      }
+    }
+
+    if (east && east.distance > tolX && east.distance < tileW) {
+      gapCount++;
+      if (gaps.length < opts.maxLocations) {
+        gaps.push({ a: a.fileName, b: east.b.fileName, direction: "east", distance: east.distance });
+      }
+    }
+    if (north && north.distance > tolY && north.distance < tileH) {
+      gapCount++;
+      if (gaps.length < opts.maxLocations) {
+        gaps.push({ a: a.fileName, b: north.b.fileName, direction: "north", distance: north.distance });
+      }
+    }
+  }
+
+  if (gapCount > 0) {
+    return {
+      checkId: QaCheckId.TILE_GAPS,
+      severity: QaSeverity.WARNING,
+      passed: false,
+      message: `${gapCount} gap(s) between neighboring tiles`,
+      details: { gapCount, gaps },
+    };
+  }
+
+  return {
+    checkId: QaCheckId.TILE_GAPS,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: "No gaps between neighboring tiles",
+    details: { gapCount },
+  };
+}
+
+export function checkGridAlignment(reports: QaReport[], options: Partial<BatchCheckOptions> = {}): QaResult {
+  const opts = { ...DEFAULT_BATCH_CHECK_OPTIONS, ...options };
+  const footprints = toFootprints(reports).sort((a, b) => a.fileName.localeCompare(b.fileName));
+  const references: Footprint[] = [];
+  const misaligned: { file: string; reference: string; offsetX: number; offsetY: number }[] = [];
+  let misalignedCount = 0;
+
+  for (const fp of footprints) {
+    const ref = references.find((r) => sameValue(r.pixelX, fp.pixelX) && sameValue(r.pixelY, fp.pixelY));
+    if (!ref) {
+      references.push(fp);
+      continue;
+    }
+
+    const fx = (fp.extent.minX - ref.extent.minX) / fp.pixelX;
+    const fy = (fp.extent.maxY - ref.extent.maxY) / fp.pixelY;
+    const offsetX = fx - Math.round(fx);
+    const offsetY = fy - Math.round(fy);
+    if (Math.abs(offsetX) > opts.gridAlignmentTolerance || Math.abs(offsetY) > opts.gridAlignmentTolerance) {
+      misalignedCount++;
+      if (misaligned.length < opts.maxLocations) {
+        misaligned.push({ file: fp.fileName, reference: ref.fileName, offsetX, offsetY });
+      }
+    }
+  }
+
+  const details = {
+    misalignedCount,
+    tolerancePixels: opts.gridAlignmentTolerance,
+    references: references.map((r) => r.fileName),
+    misaligned,
+  };
+
+  if (misalignedCount > 0) {
+    return {
+      checkId: QaCheckId.GRID_ALIGNMENT,
+      severity: QaSeverity.ERROR,
+      passed: false,
+      message: `${misalignedCount} tile(s) off the common pixel grid (>${opts.gridAlignmentTolerance} px)`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.GRID_ALIGNMENT,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: "All tiles share a common pixel grid",
+    details,
+  };
+}
+
+function measureSeam(
+  aOuter: Float32Array,
+  aInner: Float32Array,
+  bOuter: Float32Array,
+  bInner: Float32Array,
+  mapIndex: (i: number) => number,
+  aScale: number,
+  bScale: number
+): { samples: number; meanStep: number; maxStep: number } {
+  let samples = 0;
+  let sum = 0;
+  let maxStep = 0;
+
+  for (let i = 0; i < aOuter.length; i++) {
+    const j = mapIndex(i);
+    if (j < 0 || j >= bOuter.length) continue;
+    const a0 = aOuter[i] * aScale;
+    const a1 = aInner[i] * aScale;
+    const b0 = bOuter[j] * bScale;
+    const b1 = bInner[j] * bScale;
+    if (!Number.isFinite(a0) || !Number.isFinite(a1) || !Number.isFinite(b0) || !Number.isFinite(b1)) continue;
+
+    const gradient = ((a0 - a1) + (b1 - b0)) / 2;
+    const step = Math.abs(b0 - a0 - gradient);
+    samples++;
+    sum += step;
+    if (step > maxStep) maxStep = step;
+  }
+
+  return { samples, meanStep: samples > 0 ? sum / samples : 0, maxStep };
+}
+
+function alignedIndex(offset: number): number {
+  const index = Math.round(offset);
+  return Math.abs(offset - index) < 0.1 ? index : -1;
+}
+
+export function checkEdgeSeams(
+  reports: QaReport[],
+  edges: Map<string, TileEdges>,
+  options: Partial<BatchCheckOptions> = {}
+): QaResult {
+  const opts = { ...DEFAULT_BATCH_CHECK_OPTIONS, ...options };
+  const footprints = toFootprints(reports).filter((fp) => edges.has(fp.fileId));
+  const pairs: SeamPair[] = [];
+  let pairsCompared = 0;
+
+  for (const a of footprints) {
+    const ea = edges.get(a.fileId)!;
+    for (const b of footprints) {
+      if (b === a || !sameValue(a.pixelX, b.pixelX) || !sameValue(a.pixelY, b.pixelY)) continue;
+      const eb = edges.get(b.fileId)!;
+      const tolX = a.pixelX / 2;
+      const tolY = a.pixelY / 2;
+
+      if (
+        Math.abs(b.extent.minX - a.extent.maxX) <= tolX &&
+        overlapLength(a.extent.minY, a.extent.maxY, b.extent.minY, b.extent.maxY) > tolY
+      ) {
+        const shift = (b.extent.maxY - a.extent.maxY) / a.pixelY;
+        const stats = measureSeam(
+          ea.right.subarray(0, ea.height),
+          ea.right.subarray(ea.height),
+          eb.left.subarray(0, eb.height),
+          eb.left.subarray(eb.height),
+          (row) => alignedIndex(row + shift),
+          a.metresPerUnit,
+          b.metresPerUnit
+        );
+        if (stats.samples > 0) {
+          pairsCompared++;
+          pairs.push({ a: a.fileName, b: b.fileName, edge: "east", ...stats });
+        }
+      }
+
+      if (
+        Math.abs(b.extent.minY - a.extent.maxY) <= tolY &&
+        overlapLength(a.extent.minX, a.extent.maxX, b.extent.minX, b.extent.maxX) > tolX
+      ) {
+        const shift = (a.extent.minX - b.extent.minX) / a.pixelX;
+        const stats = measureSeam(
+          ea.top.subarray(0, ea.width),
+          ea.top.subarray(ea.width),
+          eb.bottom.subarray(0, eb.width),
+          eb.bottom.subarray(eb.width),
+          (col) => alignedIndex(col + shift),
+          a.metresPerUnit,
+          b.metresPerUnit
+        );
+        if (stats.samples > 0) {
+          pairsCompared++;
+          pairs.push({ a: a.fileName, b: b.fileName, edge: "north", ...stats });
+        }
+      }
+    }
+  }
+
+  const seams = pairs
+    .filter((p) => p.meanStep > opts.seamThreshold)
+    .sort((x, y) => y.meanStep - x.meanStep);
+  const details = {
+    pairsCompared,
+    seamCount: seams.length,
+    seamThreshold: opts.seamThreshold,
+    worstSeams: seams.slice(0, opts.maxLocations),
+  };
+
+  if (seams.length > 0) {
+    return {
+      checkId: QaCheckId.EDGE_SEAMS,
+      severity: QaSeverity.WARNING,
+      passed: false,
+      message: `${seams.length} of ${pairsCompared} shared edge(s) step by more than ${opts.seamThreshold} m on average`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.EDGE_SEAMS,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `No elevation steps above ${opts.seamThreshold} m across ${pairsCompared} shared edge(s)`,
+    details,
+  };
+}
+
+export function runBatchChecks(reports: QaReport[], options: RunBatchChecksOptions = {}): BatchQaReport {
+  const { profile, edges } = options;
+  const opts = { ...DEFAULT_BATCH_CHECK_OPTIONS, ...profile?.thresholds };
+  const results: QaResult[] = [];
+
+  const checks: [QaCheckId, () => QaResult][] = [
+    [QaCheckId.BATCH_CRS, () => checkConsistency(
+      reports, QaCheckId.BATCH_CRS, "CRS", QaSeverity.ERROR, (r) => r.metadata.crs ?? "none", opts
+    )],
+    [QaCheckId.BATCH_PIXEL_SIZE, () => checkConsistency(
+      reports, QaCheckId.BATCH_PIXEL_SIZE, "pixel size", QaSeverity.ERROR,
+      (r) => `${Number(Math.abs(r.metadata.pixelSize.x).toPrecision(9))} x ${Number(Math.abs(r.metadata.pixelSize.y).toPrecision(9))}`,
+      opts
+    )],
+    [QaCheckId.BATCH_BIT_DEPTH, () => checkConsistency(
+      reports, QaCheckId.BATCH_BIT_DEPTH, "bit depth", QaSeverity.WARNING, (r) => r.metadata.bitsPerSample.join(","), opts
+    )],
+    [QaCheckId.BATCH_NODATA, () => checkConsistency(
+      reports, QaCheckId.BATCH_NODATA, "nodata value", QaSeverity.WARNING, (r) => String(r.metadata.noDataValue ?? "none"), opts
+    )],
+    [QaCheckId.TILE_OVERLAP, () => checkTileOverlap(reports, opts)],
+    [QaCheckId.TILE_GAPS, () => checkTileGaps(reports, opts)],
+    [QaCheckId.GRID_ALIGNMENT, () => checkGridAlignment(reports, opts)],
+  ];
+  if (edges) {
+    checks.push([QaCheckId.EDGE_SEAMS, () => checkEdgeSeams(reports, edges, opts)]);
+  }
+
+  for (const [id, check] of checks) {
+    if (isCheckEnabled(id, profile)) results.push(applySeverityOverride(check(), profile));
+  }
+
+  return {
+    fileCount: reports.length,
+    results,
+    timestamp: new Date().toISOString(),
+  };
+}
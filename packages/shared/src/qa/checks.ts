@@ -1,17 +1,49 @@
 import {
   type GeoTiffMetadata,
+  type QaProfile,
   type QaResult,
+  type RasterRowSink,
+  type RasterStatistics,
+  type RunChecksOptions,
   QaCheckId,
   QaSeverity,
 } from "../types.js";
+import {
+  createVoidsSink,
+  createSpikesSink,
+  createFlatAreasSink,
+  createInvalidValuesSink,
+  feedRows,
+} from "./pixelChecks.js";
+import {
+  checkExpectedCrs,
+  checkExpectedPixelSize,
+  checkExpectedBitDepth,
+  checkAoiContainment,
+} from "./assertions.js";
+import { isRotated } from "../formats/geotiff.js";
+import { VERTICAL_UNIT_SYMBOLS, metresPerUnit } from "../formats/vertical.js";
+import { checkCog, expectsCog } from "./cog.js";
+import { computeStatistics } from "../stats/statistics.js";
 
 const VALID_BIT_DEPTHS = [8, 16, 32, 64];
 const MAX_PIXEL_SIZE = 10000;
+const MIN_ELEVATION = -500;
+const MAX_ELEVATION = 9000;
 
-export function checkPixelSize(meta: GeoTiffMetadata): QaResult {
+type MetadataCheck = (meta: GeoTiffMetadata, profile?: QaProfile) => QaResult;
+type AssertionCheck = (meta: GeoTiffMetadata, profile?: QaProfile) => QaResult | null;
+type StatisticsCheck = (meta: GeoTiffMetadata, stats: RasterStatistics, profile?: QaProfile) => QaResult;
+type PixelCheckSink = (
+  meta: GeoTiffMetadata,
+  options?: QaProfile["thresholds"]
+) => RasterRowSink<QaResult>;
+
+export function checkPixelSize(meta: GeoTiffMetadata, profile?: QaProfile): QaResult {
   const { x, y } = meta.pixelSize;
   const absX = Math.abs(x);
   const absY = Math.abs(y);
+  const maxPixelSize = profile?.thresholds?.maxPixelSize ?? MAX_PIXEL_SIZE;
 
   if (absX <= 0 || absY <= 0) {
     return {
@@ -23,13 +55,13 @@ export function checkPixelSize(meta: GeoTiffMetadata): QaResult {
     };
   }
 
-  if (absX > MAX_PIXEL_SIZE || absY > MAX_PIXEL_SIZE) {
+  if (absX > maxPixelSize || absY > maxPixelSize) {
     return {
       checkId: QaCheckId.PIXEL_SIZE,
       severity: QaSeverity.WARNING,
       passed: false,
-      message: `Pixel size exceeds expected range (>${MAX_PIXEL_SIZE})`,
-      details: { pixelSizeX: x, pixelSizeY: y, max: MAX_PIXEL_SIZE },
+      message: `Pixel size exceeds expected range (>${maxPixelSize})`,
+      details: { pixelSizeX: x, pixelSizeY: y, max: maxPixelSize },
     };
   }
 
@@ -77,6 +109,27 @@ export function checkExtent(meta: GeoTiffMetadata): QaResult {
   };
 }
 
+export function checkRotation(meta: GeoTiffMetadata): QaResult {
+  const rotation = meta.rotation ?? 0;
+  if (meta.geoTransform && isRotated(meta.geoTransform)) {
+    return {
+      checkId: QaCheckId.ROTATION,
+      severity: QaSeverity.WARNING,
+      passed: false,
+      message: `Raster is rotated or skewed (${rotation.toFixed(4)}°) — many tools assume north-up rasters`,
+      details: { rotation, geoTransform: meta.geoTransform },
+    };
+  }
+
+  return {
+    checkId: QaCheckId.ROTATION,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: "Raster is north-up",
+    details: { rotation },
+  };
+}
+
 export function checkBandCount(meta: GeoTiffMetadata): QaResult {
   if (meta.bandCount < 1) {
     return {
@@ -117,9 +170,11 @@ export function checkNoData(meta: GeoTiffMetadata): QaResult {
   };
 }
 
-export function checkBitDepth(meta: GeoTiffMetadata): QaResult {
+export function checkBitDepth(meta: GeoTiffMetadata, profile?: QaProfile): QaResult {
+  const validBitDepths = profile?.thresholds?.validBitDepths ?? VALID_BIT_DEPTHS;
+
   const invalidBands = meta.bitsPerSample.filter(
-    (b) => !VALID_BIT_DEPTHS.includes(b)
+    (b) => !validBitDepths.includes(b)
   );
 
   if (invalidBands.length > 0) {
@@ -131,7 +186,7 @@ export function checkBitDepth(meta: GeoTiffMetadata): QaResult {
       details: {
         bitsPerSample: meta.bitsPerSample,
         invalidBands,
-        validBitDepths: VALID_BIT_DEPTHS,
+        validBitDepths,
       },
     };
   }
@@ -165,13 +220,145 @@ export function checkCrs(meta: GeoTiffMetadata): QaResult {
   };
 }
 
-export function runAllChecks(meta: GeoTiffMetadata): QaResult[] {
-  return [
-    checkPixelSize(meta),
-    checkExtent(meta),
-    checkBandCount(meta),
-    checkNoData(meta),
-    checkBitDepth(meta),
-    checkCrs(meta),
-  ];
+export function checkElevationRange(meta: GeoTiffMetadata, stats: RasterStatistics, profile?: QaProfile): QaResult {
+  const minElevation = profile?.thresholds?.minElevation ?? MIN_ELEVATION;
+  const maxElevation = profile?.thresholds?.maxElevation ?? MAX_ELEVATION;
+  const scale = metresPerUnit(meta.verticalUnits);
+  const min = stats.min === null ? null : stats.min * scale;
+  const max = stats.max === null ? null : stats.max * scale;
+  const source = meta.verticalUnits && meta.verticalUnits !== "metre"
+    ? ` (converted from ${VERTICAL_UNIT_SYMBOLS[meta.verticalUnits]})`
+    : "";
+  const details = { min, max, minElevation, maxElevation, verticalUnits: meta.verticalUnits ?? null };
+
+  if (min === null || max === null) {
+    return {
+      checkId: QaCheckId.ELEVATION_RANGE,
+      severity: QaSeverity.INFO,
+      passed: true,
+      message: "No valid elevations to check",
+      details,
+    };
+  }
+
+  if (min < minElevation || max > maxElevation) {
+    return {
+      checkId: QaCheckId.ELEVATION_RANGE,
+      severity: QaSeverity.WARNING,
+      passed: false,
+      message: `Elevations ${min.toFixed(2)} to ${max.toFixed(2)} m${source} fall outside the plausible range ${minElevation} to ${maxElevation} m`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.ELEVATION_RANGE,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `Elevations ${min.toFixed(2)} to ${max.toFixed(2)} m${source} within plausible range`,
+    details,
+  };
+}
+
+const METADATA_CHECKS: [QaCheckId, MetadataCheck][] = [
+  [QaCheckId.PIXEL_SIZE, checkPixelSize],
+  [QaCheckId.EXTENT, checkExtent],
+  [QaCheckId.ROTATION, checkRotation],
+  [QaCheckId.BAND_COUNT, checkBandCount],
+  [QaCheckId.NODATA, checkNoData],
+  [QaCheckId.BIT_DEPTH, checkBitDepth],
+  [QaCheckId.CRS, checkCrs],
+];
+
+const ASSERTION_CHECKS: [QaCheckId, AssertionCheck][] = [
+  [QaCheckId.EXPECTED_CRS, checkExpectedCrs],
+  [QaCheckId.EXPECTED_PIXEL_SIZE, checkExpectedPixelSize],
+  [QaCheckId.EXPECTED_BIT_DEPTH, checkExpectedBitDepth],
+  [QaCheckId.AOI_CONTAINMENT, checkAoiContainment],
+];
+
+const STATISTICS_CHECKS: [QaCheckId, StatisticsCheck][] = [
+  [QaCheckId.ELEVATION_RANGE, checkElevationRange],
+];
+
+const PIXEL_CHECKS: [QaCheckId, PixelCheckSink][] = [
+  [QaCheckId.VOIDS, createVoidsSink],
+  [QaCheckId.SPIKES, createSpikesSink],
+  [QaCheckId.FLAT_AREAS, createFlatAreasSink],
+  [QaCheckId.INVALID_VALUES, createInvalidValuesSink],
+];
+
+export function isCheckEnabled(checkId: QaCheckId, profile?: QaProfile): boolean {
+  return profile?.checks?.[checkId]?.enabled !== false;
+}
+
+export function applySeverityOverride(result: QaResult, profile?: QaProfile): QaResult {
+  const severity = profile?.checks?.[result.checkId]?.severity;
+  if (result.passed || !severity) return result;
+  return { ...result, severity };
+}
+
+export function hasPixelChecks(profile?: QaProfile): boolean {
+  return PIXEL_CHECKS.some(([id]) => isCheckEnabled(id, profile));
+}
+
+export function hasStatisticsChecks(profile?: QaProfile): boolean {
+  return STATISTICS_CHECKS.some(([id]) => isCheckEnabled(id, profile));
+}
+
+export function runStatisticsChecks(
+  meta: GeoTiffMetadata,
+  stats: RasterStatistics,
+  profile?: QaProfile
+): QaResult[] {
+  return STATISTICS_CHECKS
+    .filter(([id]) => isCheckEnabled(id, profile))
+    .map(([, check]) => applySeverityOverride(check(meta, stats, profile), profile));
+}
+
+export function createPixelCheckSink(
+  meta: GeoTiffMetadata,
+  profile?: QaProfile
+): RasterRowSink<QaResult[]> {
+  const sinks = PIXEL_CHECKS
+    .filter(([id]) => isCheckEnabled(id, profile))
+    .map(([, create]) => create(meta, profile?.thresholds));
+
+  return {
+    addRow(values, row) {
+      for (const sink of sinks) sink.addRow(values, row);
+    },
+    finish() {
+      return sinks.map((sink) => applySeverityOverride(sink.finish(), profile));
+    },
+  };
+}
+
+export function runAllChecks(meta: GeoTiffMetadata, options: RunChecksOptions = {}): QaResult[] {
+  const { profile, elevations, tiff, statistics } = options;
+
+  const results = METADATA_CHECKS
+    .filter(([id]) => isCheckEnabled(id, profile))
+    .map(([, check]) => check(meta, profile));
+
+  for (const [id, check] of ASSERTION_CHECKS) {
+    if (!isCheckEnabled(id, profile)) continue;
+    const result = check(meta, profile);
+    if (result) results.push(result);
+  }
+
+  if (tiff && isCheckEnabled(QaCheckId.COG, profile) && expectsCog(meta, tiff, profile)) {
+    results.push(checkCog(tiff));
+  }
+
+  if (elevations) {
+    const sink = createPixelCheckSink(meta, profile);
+    feedRows(sink, elevations, meta.width);
+    results.push(...sink.finish());
+  }
+
+  const stats = statistics ?? (elevations ? computeStatistics(elevations, meta.width, meta.noDataValue) : undefined);
+  if (stats) results.push(...runStatisticsChecks(meta, stats, profile));
+
+  return results.map((r) => applySeverityOverride(r, profile));
 }
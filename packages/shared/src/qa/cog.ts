@@ -0,0 +1,148 @@
+import {
+  type CogRule,
+  type CogViolation,
+  type GeoTiffMetadata,
+  type QaProfile,
+  type QaResult,
+  type TiffImageLayout,
+  type TiffStructure,
+  QaCheckId,
+  QaSeverity,
+} from "../types.js";
+import { compressionName } from "../formats/geotiff.js";
+
+const COG_FORMAT_NAME = "Cloud Optimized GeoTIFF";
+const MAX_UNTILED_SIZE = 512;
+const MIN_BLOCK_SIZE = 128;
+const MAX_BLOCK_SIZE = 2048;
+const COG_COMPRESSIONS = [5, 7, 8, 32946, 34887, 34925, 50000, 50001, 50002];
+const MASK_SUBFILE = 4;
+
+function isMask(image: TiffImageLayout): boolean {
+  return (image.subfileType & MASK_SUBFILE) !== 0;
+}
+
+function isLarge(image: TiffImageLayout): boolean {
+  return image.width > MAX_UNTILED_SIZE || image.height > MAX_UNTILED_SIZE;
+}
+
+function dataOffsets(image: TiffImageLayout): number[] {
+  return image.blockOffsets.filter((offset, i) => offset > 0 && image.blockByteCounts[i] !== 0);
+}
+
+function minimum(values: number[]): number {
+  return values.reduce((min, value) => (value < min ? value : min), Infinity);
+}
+
+export function expectsCog(meta: GeoTiffMetadata, tiff: TiffStructure, profile?: QaProfile): boolean {
+  return (
+    meta.format === COG_FORMAT_NAME ||
+    tiff.ghost?.LAYOUT === "COG" ||
+    profile?.checks?.[QaCheckId.COG]?.enabled === true
+  );
+}
+
+export function findCogViolations(tiff: TiffStructure): CogViolation[] {
+  const violations: CogViolation[] = [];
+  const add = (rule: CogRule, severity: QaSeverity, message: string, image?: number) => {
+    violations.push({ rule, severity, message, image });
+  };
+
+  const [main] = tiff.images;
+  if (!main) {
+    add("tiling", QaSeverity.ERROR, "File contains no images");
+    return violations;
+  }
+  const levels = tiff.images.map((image, index) => ({ image, index })).filter(({ image }) => !isMask(image));
+
+  for (const { image, index } of levels) {
+    if (!image.tiled && isLarge(image)) {
+      add("tiling", QaSeverity.ERROR, `${index === 0 ? "Main image" : `Overview ${index}`} (${image.width}x${image.height}) is stored in strips, not tiles`, index);
+    }
+  }
+
+  if (levels.length === 1 && isLarge(main)) {
+    add("overviews", QaSeverity.WARNING, `No internal overviews for a ${main.width}x${main.height} image`);
+  }
+  for (let i = 1; i < levels.length; i++) {
+    const previous = levels[i - 1].image;
+    const { image, index } = levels[i];
+    if (image.width >= previous.width || image.height >= previous.height) {
+      add("overview-order", QaSeverity.ERROR, `Overview ${index} (${image.width}x${image.height}) is not smaller than the level before it (${previous.width}x${previous.height})`, index);
+    }
+  }
+
+  const firstData = minimum(tiff.images.flatMap(dataOffsets));
+  tiff.images.forEach((image, index) => {
+    if (image.ifdOffset > firstData) {
+      add("ifd-order", QaSeverity.ERROR, `IFD ${index} at byte ${image.ifdOffset} comes after image data starting at byte ${firstData}`, index);
+    }
+  });
+
+  tiff.images.forEach((image, index) => {
+    const offsets = dataOffsets(image);
+    const unordered = offsets.filter((offset, i) => i > 0 && offset < offsets[i - 1]).length;
+    if (unordered > 0) {
+      add("tile-order", QaSeverity.ERROR, `${unordered} block(s) of image ${index} are stored out of row-major order`, index);
+    }
+  });
+  for (let i = 1; i < levels.length; i++) {
+    const larger = dataOffsets(levels[i - 1].image);
+    const smaller = dataOffsets(levels[i].image);
+    if (larger.length > 0 && smaller.length > 0 && minimum(smaller) > minimum(larger)) {
+      add("tile-order", QaSeverity.ERROR, `Data of overview ${levels[i].index} is stored after the data of the larger level ${levels[i - 1].index}; smaller overviews should come first`, levels[i].index);
+    }
+  }
+
+  for (const { image, index } of levels) {
+    if (!image.tiled) continue;
+    const { blockWidth, blockHeight } = image;
+    const fits = (size: number, extent: number) => size >= extent || (size >= MIN_BLOCK_SIZE && size <= MAX_BLOCK_SIZE);
+    if (!fits(blockWidth, image.width) || !fits(blockHeight, image.height)) {
+      add("block-size", QaSeverity.WARNING, `Image ${index} uses ${blockWidth}x${blockHeight} tiles; use ${MIN_BLOCK_SIZE} to ${MAX_BLOCK_SIZE} (typically 256 or 512)`, index);
+    }
+  }
+
+  if (!COG_COMPRESSIONS.includes(main.compression)) {
+    add("compression", QaSeverity.WARNING, `Compression ${compressionName(main.compression)} is not suited to COGs; use Deflate, LZW, ZSTD, LERC, JPEG or WebP`);
+  }
+
+  return violations;
+}
+
+export function resultViolations(result: QaResult): CogViolation[] {
+  const violations = result.details?.violations;
+  return Array.isArray(violations) ? violations as CogViolation[] : [];
+}
+
+export function checkCog(tiff: TiffStructure): QaResult {
+  const violations = findCogViolations(tiff);
+  const [main] = tiff.images;
+  const overviews = tiff.images.filter((image, i) => i > 0 && !isMask(image)).length;
+  const details = {
+    violations,
+    overviews,
+    blockSize: main ? [main.blockWidth, main.blockHeight] : null,
+    compression: main ? compressionName(main.compression) : null,
+    layout: tiff.ghost?.LAYOUT ?? null,
+  };
+
+  if (violations.length > 0) {
+    const error = violations.some((v) => v.severity === QaSeverity.ERROR);
+    return {
+      checkId: QaCheckId.COG,
+      severity: error ? QaSeverity.ERROR : QaSeverity.WARNING,
+      passed: false,
+      message: `Not a valid Cloud Optimized GeoTIFF: ${violations.map((v) => v.rule).filter((r, i, all) => all.indexOf(r) === i).join(", ")}`,
+      details,
+    };
+  }
+
+  return {
+    checkId: QaCheckId.COG,
+    severity: QaSeverity.INFO,
+    passed: true,
+    message: `Valid Cloud Optimized GeoTIFF: ${overviews} overview(s), ${details.compression}`,
+    details,
+  };
+}
@@ -1,9 +1,57 @@
 export {
   checkPixelSize,
   checkExtent,
+  checkRotation,
   checkBandCount,
   checkNoData,
   checkBitDepth,
   checkCrs,
+  checkElevationRange,
+  isCheckEnabled,
+  applySeverityOverride,
+  hasPixelChecks,
+  hasStatisticsChecks,
+  runStatisticsChecks,
+  createPixelCheckSink,
   runAllChecks,
 } from "./checks.js";
+
+export {
+  DEFAULT_PIXEL_CHECK_OPTIONS,
+  checkVoids,
+  checkSpikes,
+  checkFlatAreas,
+  checkInvalidValues,
+  runPixelChecks,
+  createNoDataTest,
+  feedRows,
+  createVoidsSink,
+  createSpikesSink,
+  createFlatAreasSink,
+  createInvalidValuesSink,
+} from "./pixelChecks.js";
+
+export { parseQaProfile } from "./profile.js";
+
+export { expectsCog, findCogViolations, checkCog, resultViolations } from "./cog.js";
+
+export {
+  checkExpectedCrs,
+  checkExpectedPixelSize,
+  checkExpectedBitDepth,
+  checkAoiContainment,
+} from "./assertions.js";
+
+export { parseAoi, aoiBounds, testAoiContainment, reprojectAoi } from "./aoi.js";
+export type { AoiContainment } from "./aoi.js";
+
+export {
+  DEFAULT_BATCH_CHECK_OPTIONS,
+  extractTileEdges,
+  createTileEdgesSink,
+  checkTileOverlap,
+  checkTileGaps,
+  checkGridAlignment,
+  checkEdgeSeams,
+  runBatchChecks,
+} from "./batch.js";
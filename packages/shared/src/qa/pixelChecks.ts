@@ -0,0 +1,564 @@
+import {
+  type GeoTiffMetadata,
+  type PixelCheckOptions,
+  type PixelLocation,
+  type PixelRegion,
+  type QaResult,
+  type RasterRowSink,
+  QaCheckId,
+  QaSeverity,
+} from "../types.js";
+import { metresPerUnit } from "../formats/vertical.js";
+
+export const DEFAULT_PIXEL_CHECK_OPTIONS: PixelCheckOptions = {
+  maxVoidPercent: 0,
+  spikeThreshold: 50,
+  flatAreaMinPixels: 1000,
+  maxLocations: 10,
+};
+
+interface SpikeLocation extends PixelLocation {
+  kind: "spike" | "pit";
+  delta: number;
+}
+
+interface InvalidLocation {
+  row: number;
+  col: number;
+  kind: "NaN" | "Infinity" | "-Infinity";
+}
+
+function resolveOptions(options: Partial<PixelCheckOptions>): PixelCheckOptions {
+  return { ...DEFAULT_PIXEL_CHECK_OPTIONS, ...options };
+}
+
+function pixelCount(meta: GeoTiffMetadata, elevations: ArrayLike<number>): number {
+  return Math.min(meta.width * meta.height, elevations.length);
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Number(((count / total) * 100).toFixed(4)) : 0;
+}
+
+export function createNoDataTest(noDataValue: number | null): (v: number) => boolean {
+  if (noDataValue === null || noDataValue === undefined) return () => false;
+  if (Number.isNaN(noDataValue)) return (v) => Number.isNaN(v);
+  const nd = noDataValue;
+  const ndF32 = Math.fround(noDataValue);
+  return (v) => v === nd || v === ndF32;
+}
+
+interface RegionNode {
+  parent: RegionNode | null;
+  first: number;
+  value: number;
+  lastRow: number;
+  pixelCount: number;
+  minRow: number;
+  minCol: number;
+  maxRow: number;
+  maxCol: number;
+}
+
+interface RankedRegion extends PixelRegion {
+  first: number;
+}
+
+function findRoot(node: RegionNode): RegionNode {
+  while (node.parent) {
+    if (node.parent.parent) node.parent = node.parent.parent;
+    node = node.parent;
+  }
+  return node;
+}
+
+function mergeRegions(a: RegionNode, b: RegionNode): RegionNode {
+  const [root, child] = a.first <= b.first ? [a, b] : [b, a];
+  child.parent = root;
+  root.pixelCount += child.pixelCount;
+  root.minRow = Math.min(root.minRow, child.minRow);
+  root.minCol = Math.min(root.minCol, child.minCol);
+  root.maxRow = Math.max(root.maxRow, child.maxRow);
+  root.maxCol = Math.max(root.maxCol, child.maxCol);
+  root.lastRow = Math.max(root.lastRow, child.lastRow);
+  return root;
+}
+
+function createRegionLabeler(
+  width: number,
+  include: (v: number) => boolean,
+  connects: (a: number, b: number) => boolean,
+  onRegion: (region: RankedRegion) => void
+): RasterRowSink<void> {
+  let previous: (RegionNode | null)[] = new Array(width).fill(null);
+  let previousValues = new Float64Array(width);
+  let lastRow = -1;
+
+  const emit = (node: RegionNode, atEnd: boolean) => {
+    onRegion({
+      pixelCount: node.pixelCount,
+      minRow: node.minRow,
+      minCol: node.minCol,
+      maxRow: node.maxRow,
+      maxCol: node.maxCol,
+      touchesEdge: atEnd || node.minRow === 0 || node.minCol === 0 || node.maxCol === width - 1,
+      value: node.value,
+      first: node.first,
+    });
+  };
+
+  const distinctRoots = (nodes: (RegionNode | null)[]) => {
+    const roots = new Set<RegionNode>();
+    for (const node of nodes) if (node) roots.add(findRoot(node));
+    return roots;
+  };
+
+  return {
+    addRow(values, row) {
+      const current: (RegionNode | null)[] = new Array(width).fill(null);
+      for (let col = 0; col < width; col++) {
+        const v = values[col];
+        if (!include(v)) continue;
+
+        let node: RegionNode | null = null;
+        const left = col > 0 ? current[col - 1] : null;
+        if (left && connects(values[col - 1], v)) node = findRoot(left);
+
+        const up = previous[col];
+        if (up && connects(previousValues[col], v)) {
+          const upRoot = findRoot(up);
+          node = node && node !== upRoot ? mergeRegions(node, upRoot) : upRoot;
+        }
+
+        if (!node) {
+          node = {
+            parent: null,
+            first: row * width + col,
+            value: v,
+            lastRow: row,
+            pixelCount: 0,
+            minRow: row,
+            minCol: col,
+            maxRow: row,
+            maxCol: col,
+          };
+        }
+        node.pixelCount++;
+        node.lastRow = row;
+        if (row > node.maxRow) node.maxRow = row;
+        if (col < node.minCol) node.minCol = col;
+        if (col > node.maxCol) node.maxCol = col;
+        current[col] = node;
+      }
+
+      for (const root of distinctRoots(previous)) {
+        if (root.lastRow < row) emit(root, false);
+      }
+      previous = current;
+      previousValues = Float64Array.from({ length: width }, (_, i) => values[i]);
+      lastRow = row;
+    },
+    finish() {
+      if (lastRow < 0) return;
+      for (const root of distinctRoots(previous)) emit(root, true);
+      previous = new Array(width).fill(null);
+    },
+  };
+}
+
+function rankRegions(regions: RankedRegion[]): RankedRegion[] {
+  return regions.sort((a, b) => b.pixelCount - a.pixelCount || a.first - b.first);
+}
+
+function createTopRegions(limit: number) {
+  let regions: RankedRegion[] = [];
+  return {
+    add(region: RankedRegion) {
+      regions.push(region);
+      if (regions.length > Math.max(limit, 1) * 4) regions = rankRegions(regions).slice(0, limit);
+    },
+    list(): PixelRegion[] {
+      return rankRegions(regions).slice(0, limit).map(({ first: _first, ...region }) => region);
+    },
+  };
+}
+
+function rowSlice(data: ArrayLike<number>, offset: number, width: number): ArrayLike<number> {
+  const subarray = (data as Partial<Float32Array>).subarray;
+  return subarray
+    ? subarray.call(data, offset, offset + width)
+    : Array.prototype.slice.call(data, offset, offset + width);
+}
+
+export function feedRows<T>(
+  sink: RasterRowSink<T>,
+  data: ArrayLike<number>,
+  width: number,
+  startRow = 0
+): void {
+  const rows = Math.floor(data.length / width);
+  for (let r = 0; r < rows; r++) {
+    sink.addRow(rowSlice(data, r * width, width), startRow + r);
+  }
+}
+
+function runSink<T>(sink: RasterRowSink<T>, meta: GeoTiffMetadata, elevations: ArrayLike<number>): T {
+  const rows = Math.floor(pixelCount(meta, elevations) / meta.width);
+  for (let r = 0; r < rows; r++) {
+    sink.addRow(rowSlice(elevations, r * meta.width, meta.width), r);
+  }
+  return sink.finish();
+}
+
+export function createVoidsSink(
+  meta: GeoTiffMetadata,
+  options: Partial<PixelCheckOptions> = {}
+): RasterRowSink<QaResult> {
+  const opts = resolveOptions(options);
+  const isNoData = createNoDataTest(meta.noDataValue);
+  const internal = createTopRegions(opts.maxLocations);
+  let total = 0;
+  let voidCount = 0;
+  let internalVoidCount = 0;
+  let regionCount = 0;
+  let internalRegionCount = 0;
+
+  const labeler = createRegionLabeler(meta.width, isNoData, () => true, (region) => {
+    regionCount++;
+    voidCount += region.pixelCount;
+    if (region.touchesEdge) return;
+    internalRegionCount++;
+    internalVoidCount += region.pixelCount;
+    const { value: _value, ...rest } = region;
+    internal.add(rest);
+  });
+  const hasNoData = meta.noDataValue !== null && meta.noDataValue !== undefined;
+
+  return {
+    addRow(values, row) {
+      total += meta.width;
+      if (hasNoData) labeler.addRow(values, row);
+    },
+    finish() {
+      if (!hasNoData) {
+        return {
+          checkId: QaCheckId.VOIDS,
+          severity: QaSeverity.INFO,
+          passed: true,
+          message: "No nodata value defined — void detection skipped",
+          details: { voidCount: 0, voidPercent: 0 },
+        };
+      }
+
+      labeler.finish();
+      const details = {
+        voidCount,
+        voidPercent: percent(voidCount, total),
+        internalVoidCount,
+        internalVoidPercent: percent(internalVoidCount, total),
+        edgeVoidCount: voidCount - internalVoidCount,
+        regionCount,
+        internalRegionCount,
+        maxVoidPercent: opts.maxVoidPercent,
+        largestVoids: internal.list(),
+      };
+
+      if (total > 0 && voidCount === total) {
+        return {
+          checkId: QaCheckId.VOIDS,
+          severity: QaSeverity.ERROR,
+          passed: false,
+          message: "Raster contains only nodata values",
+          details,
+        };
+      }
+
+      if (details.internalVoidPercent > opts.maxVoidPercent) {
+        return {
+          checkId: QaCheckId.VOIDS,
+          severity: QaSeverity.WARNING,
+          passed: false,
+          message: `${internalRegionCount} nodata hole(s) covering ${details.internalVoidPercent}% of pixels (max ${opts.maxVoidPercent}%)`,
+          details,
+        };
+      }
+
+      return {
+        checkId: QaCheckId.VOIDS,
+        severity: QaSeverity.INFO,
+        passed: true,
+        message: `Voids OK: ${details.voidPercent}% nodata, no interior holes above limit`,
+        details,
+      };
+    },
+  };
+}
+
+export function checkVoids(
+  meta: GeoTiffMetadata,
+  elevations: ArrayLike<number>,
+  options: Partial<PixelCheckOptions> = {}
+): QaResult {
+  return runSink(createVoidsSink(meta, options), meta, elevations);
+}
+
+export function createSpikesSink(
+  meta: GeoTiffMetadata,
+  options: Partial<PixelCheckOptions> = {}
+): RasterRowSink<QaResult> {
+  const opts = resolveOptions(options);
+  const { width } = meta;
+  const isNoData = createNoDataTest(meta.noDataValue);
+  const isValid = (v: number) => Number.isFinite(v) && !isNoData(v);
+  const scale = metresPerUnit(meta.verticalUnits);
+
+  let total = 0;
+  let spikeCount = 0;
+  let pitCount = 0;
+  let worst: SpikeLocation[] = [];
+  let above: Float64Array | null = null;
+  let center: Float64Array | null = null;
+  let centerRow = -1;
+
+  const evaluate = (row: number, up: Float64Array | null, mid: Float64Array, down: Float64Array | null) => {
+    for (let col = 0; col < width; col++) {
+      const value = mid[col];
+      if (!isValid(value)) continue;
+
+      let nMin = Infinity;
+      let nMax = -Infinity;
+      let nCount = 0;
+      for (const line of [up, mid, down]) {
+        if (!line) continue;
+        for (let dc = -1; dc <= 1; dc++) {
+          const c = col + dc;
+          if ((line === mid && dc === 0) || c < 0 || c >= width) continue;
+          const n = line[c];
+          if (!isValid(n)) continue;
+          if (n < nMin) nMin = n;
+          if (n > nMax) nMax = n;
+          nCount++;
+        }
+      }
+      if (nCount < 3) continue;
+
+      let location: SpikeLocation | null = null;
+      if ((value - nMax) * scale > opts.spikeThreshold) {
+        spikeCount++;
+        location = { row, col, value, kind: "spike", delta: (value - nMax) * scale };
+      } else if ((nMin - value) * scale > opts.spikeThreshold) {
+        pitCount++;
+        location = { row, col, value, kind: "pit", delta: (nMin - value) * scale };
+      }
+
+      if (location) {
+        worst.push(location);
+        if (worst.length > opts.maxLocations * 4) {
+          worst = worst.sort((a, b) => b.delta - a.delta).slice(0, opts.maxLocations);
+        }
+      }
+    }
+  };
+
+  return {
+    addRow(values, row) {
+      total += width;
+      const line = Float64Array.from({ length: width }, (_, i) => values[i]);
+      if (center) evaluate(centerRow, above, center, line);
+      above = center;
+      center = line;
+      centerRow = row;
+    },
+    finish() {
+      if (center) evaluate(centerRow, above, center, null);
+      above = center = null;
+
+      worst = worst.sort((a, b) => b.delta - a.delta).slice(0, opts.maxLocations);
+      const anomalyCount = spikeCount + pitCount;
+      const details = {
+        spikeCount,
+        pitCount,
+        anomalyPercent: percent(anomalyCount, total),
+        spikeThreshold: opts.spikeThreshold,
+        worstLocations: worst,
+      };
+
+      if (anomalyCount > 0) {
+        return {
+          checkId: QaCheckId.SPIKES,
+          severity: QaSeverity.WARNING,
+          passed: false,
+          message: `${spikeCount} spike(s) and ${pitCount} pit(s) exceed ${opts.spikeThreshold} m from all neighbors`,
+          details,
+        };
+      }
+
+      return {
+        checkId: QaCheckId.SPIKES,
+        severity: QaSeverity.INFO,
+        passed: true,
+        message: `No spikes or pits above ${opts.spikeThreshold} m`,
+        details,
+      };
+    },
+  };
+}
+
+export function checkSpikes(
+  meta: GeoTiffMetadata,
+  elevations: ArrayLike<number>,
+  options: Partial<PixelCheckOptions> = {}
+): QaResult {
+  return runSink(createSpikesSink(meta, options), meta, elevations);
+}
+
+export function createFlatAreasSink(
+  meta: GeoTiffMetadata,
+  options: Partial<PixelCheckOptions> = {}
+): RasterRowSink<QaResult> {
+  const opts = resolveOptions(options);
+  const isNoData = createNoDataTest(meta.noDataValue);
+  const largest = createTopRegions(opts.maxLocations);
+  let total = 0;
+  let regionCount = 0;
+  let flatCount = 0;
+
+  const labeler = createRegionLabeler(
+    meta.width,
+    (v) => Number.isFinite(v) && !isNoData(v),
+    (a, b) => a === b,
+    (region) => {
+      if (region.pixelCount < opts.flatAreaMinPixels) return;
+      regionCount++;
+      flatCount += region.pixelCount;
+      largest.add(region);
+    }
+  );
+
+  return {
+    addRow(values, row) {
+      total += meta.width;
+      labeler.addRow(values, row);
+    },
+    finish() {
+      labeler.finish();
+      const details = {
+        regionCount,
+        flatPixelCount: flatCount,
+        flatPercent: percent(flatCount, total),
+        flatAreaMinPixels: opts.flatAreaMinPixels,
+        largestRegions: largest.list(),
+      };
+
+      if (regionCount > 0) {
+        return {
+          checkId: QaCheckId.FLAT_AREAS,
+          severity: QaSeverity.WARNING,
+          passed: false,
+          message: `${regionCount} flat area(s) of ${opts.flatAreaMinPixels}+ identical pixels (${details.flatPercent}% of raster)`,
+          details,
+        };
+      }
+
+      return {
+        checkId: QaCheckId.FLAT_AREAS,
+        severity: QaSeverity.INFO,
+        passed: true,
+        message: `No flat areas of ${opts.flatAreaMinPixels}+ identical pixels`,
+        details,
+      };
+    },
+  };
+}
+
+export function checkFlatAreas(
+  meta: GeoTiffMetadata,
+  elevations: ArrayLike<number>,
+  options: Partial<PixelCheckOptions> = {}
+): QaResult {
+  return runSink(createFlatAreasSink(meta, options), meta, elevations);
+}
+
+export function createInvalidValuesSink(
+  meta: GeoTiffMetadata,
+  options: Partial<PixelCheckOptions> = {}
+): RasterRowSink<QaResult> {
+  const opts = resolveOptions(options);
+  const isNoData = createNoDataTest(meta.noDataValue);
+
+  let total = 0;
+  let nanCount = 0;
+  let infCount = 0;
+  const locations: InvalidLocation[] = [];
+
+  return {
+    addRow(values, row) {
+      total += meta.width;
+      for (let col = 0; col < meta.width; col++) {
+        const v = values[col];
+        if (Number.isFinite(v) || isNoData(v)) continue;
+
+        let kind: InvalidLocation["kind"];
+        if (Number.isNaN(v)) {
+          nanCount++;
+          kind = "NaN";
+        } else {
+          infCount++;
+          kind = v > 0 ? "Infinity" : "-Infinity";
+        }
+
+        if (locations.length < opts.maxLocations) {
+          locations.push({ row, col, kind });
+        }
+      }
+    },
+    finish() {
+      const invalidCount = nanCount + infCount;
+      const details = {
+        nanCount,
+        infCount,
+        invalidPercent: percent(invalidCount, total),
+        firstLocations: locations,
+      };
+
+      if (invalidCount > 0) {
+        return {
+          checkId: QaCheckId.INVALID_VALUES,
+          severity: QaSeverity.ERROR,
+          passed: false,
+          message: `${invalidCount} invalid cell(s): ${nanCount} NaN, ${infCount} infinite`,
+          details,
+        };
+      }
+
+      return {
+        checkId: QaCheckId.INVALID_VALUES,
+        severity: QaSeverity.INFO,
+        passed: true,
+        message: "No NaN or infinite values",
+        details,
+      };
+    },
+  };
+}
+
+export function checkInvalidValues(
+  meta: GeoTiffMetadata,
+  elevations: ArrayLike<number>,
+  options: Partial<PixelCheckOptions> = {}
+): QaResult {
+  return runSink(createInvalidValuesSink(meta, options), meta, elevations);
+}
+
+export function runPixelChecks(
+  meta: GeoTiffMetadata,
+  elevations: ArrayLike<number>,
+  options: Partial<PixelCheckOptions> = {}
+): QaResult[] {
+  return [
+    checkVoids(meta, elevations, options),
+    checkSpikes(meta, elevations, options),
+    checkFlatAreas(meta, elevations, options),
+    checkInvalidValues(meta, elevations, options),
+  ];
+}
@@ -0,0 +1,148 @@
+import {
+  type QaCheckRule,
+  type QaExpectations,
+  type QaProfile,
+  type QaThresholds,
+  QaCheckId,
+  QaSeverity,
+} from "../types.js";
+import { parseAoi } from "./aoi.js";
+
+const NUMERIC_THRESHOLDS = [
+  "maxPixelSize",
+  "maxVoidPercent",
+  "spikeThreshold",
+  "flatAreaMinPixels",
+  "maxLocations",
+  "seamThreshold",
+  "gridAlignmentTolerance",
+  "minElevation",
+  "maxElevation",
+] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Invalid QA profile: ${path} must be a finite number`);
+  }
+  return value;
+}
+
+function parseSeverity(value: unknown, path: string): QaSeverity {
+  const normalized = typeof value === "string" ? value.toUpperCase() : value;
+  if (!Object.values(QaSeverity).includes(normalized as QaSeverity)) {
+    throw new Error(
+      `Invalid QA profile: ${path} must be one of ${Object.values(QaSeverity).join(", ")}`
+    );
+  }
+  return normalized as QaSeverity;
+}
+
+function parseChecks(raw: unknown): Partial<Record<QaCheckId, QaCheckRule>> {
+  if (!isObject(raw)) throw new Error("Invalid QA profile: checks must be an object");
+
+  const checks: Partial<Record<QaCheckId, QaCheckRule>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const checkId = key.toUpperCase() as QaCheckId;
+    if (!Object.values(QaCheckId).includes(checkId)) {
+      throw new Error(`Invalid QA profile: unknown check "${key}"`);
+    }
+
+    if (typeof value === "boolean") {
+      checks[checkId] = { enabled: value };
+      continue;
+    }
+    if (!isObject(value)) {
+      throw new Error(`Invalid QA profile: checks.${key} must be a boolean or an object`);
+    }
+
+    const rule: QaCheckRule = {};
+    if (value.enabled !== undefined) {
+      if (typeof value.enabled !== "boolean") {
+        throw new Error(`Invalid QA profile: checks.${key}.enabled must be a boolean`);
+      }
+      rule.enabled = value.enabled;
+    }
+    if (value.severity !== undefined) {
+      rule.severity = parseSeverity(value.severity, `checks.${key}.severity`);
+    }
+    checks[checkId] = rule;
+  }
+  return checks;
+}
+
+function parseThresholds(raw: unknown): QaThresholds {
+  if (!isObject(raw)) throw new Error("Invalid QA profile: thresholds must be an object");
+
+  const thresholds: QaThresholds = {};
+  for (const key of NUMERIC_THRESHOLDS) {
+    if (raw[key] !== undefined) {
+      thresholds[key] = expectNumber(raw[key], `thresholds.${key}`);
+    }
+  }
+  if (raw.validBitDepths !== undefined) {
+    if (!Array.isArray(raw.validBitDepths)) {
+      throw new Error("Invalid QA profile: thresholds.validBitDepths must be an array");
+    }
+    thresholds.validBitDepths = raw.validBitDepths.map((b, i) =>
+      expectNumber(b, `thresholds.validBitDepths[${i}]`)
+    );
+  }
+  return thresholds;
+}
+
+function parseExpectations(raw: unknown): QaExpectations {
+  if (!isObject(raw)) throw new Error("Invalid QA profile: expected must be an object");
+
+  const expected: QaExpectations = {};
+  if (raw.crs !== undefined) {
+    if (typeof raw.crs === "number") {
+      expected.crs = `EPSG:${raw.crs}`;
+    } else if (typeof raw.crs === "string" && raw.crs.trim()) {
+      expected.crs = raw.crs.trim();
+    } else {
+      throw new Error("Invalid QA profile: expected.crs must be a string such as \"EPSG:6543\"");
+    }
+  }
+  if (raw.pixelSize !== undefined) {
+    const ps = raw.pixelSize;
+    if (typeof ps === "number") {
+      expected.pixelSize = { x: expectNumber(ps, "expected.pixelSize"), y: ps };
+    } else if (isObject(ps)) {
+      expected.pixelSize = {
+        x: expectNumber(ps.x, "expected.pixelSize.x"),
+        y: expectNumber(ps.y ?? ps.x, "expected.pixelSize.y"),
+      };
+      if (ps.tolerance !== undefined) {
+        expected.pixelSize.tolerance = expectNumber(ps.tolerance, "expected.pixelSize.tolerance");
+      }
+    } else {
+      throw new Error("Invalid QA profile: expected.pixelSize must be a number or { x, y, tolerance }");
+    }
+  }
+  if (raw.bitDepth !== undefined) {
+    expected.bitDepth = expectNumber(raw.bitDepth, "expected.bitDepth");
+  }
+  if (raw.aoi !== undefined) {
+    expected.aoi = parseAoi(raw.aoi);
+  }
+  return expected;
+}
+
+export function parseQaProfile(raw: unknown): QaProfile {
+  if (!isObject(raw)) throw new Error("Invalid QA profile: expected an object");
+  if (typeof raw.name !== "string" || !raw.name.trim()) {
+    throw new Error("Invalid QA profile: name is required");
+  }
+
+  const profile: QaProfile = { name: raw.name.trim() };
+  if (raw.version !== undefined) profile.version = String(raw.version);
+  if (typeof raw.description === "string") profile.description = raw.description;
+  if (raw.checks !== undefined) profile.checks = parseChecks(raw.checks);
+  if (raw.thresholds !== undefined) profile.thresholds = parseThresholds(raw.thresholds);
+  if (raw.expected !== undefined) profile.expected = parseExpectations(raw.expected);
+  return profile;
+}
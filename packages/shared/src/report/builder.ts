@@ -1,19 +1,25 @@
-import type { GeoTiffMetadata, QaResult, QaReport } from "../types.js";
+import type { GeoTiffMetadata, QaResult, QaReport, QaSummary } from "../types.js";
+import { REPORT_SCHEMA_VERSION } from "./schema.js";
 
 export function buildReport(
   fileId: string,
   fileName: string,
   metadata: GeoTiffMetadata,
   results: QaResult[],
-  startTime: number
+  startTime: number,
+  profile?: string,
+  relativePath?: string
 ): QaReport {
   return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
     fileId,
     fileName,
     metadata,
     results,
     timestamp: new Date().toISOString(),
     duration: Date.now() - startTime,
+    profile,
+    relativePath,
   };
 }
 
@@ -24,3 +30,7 @@ export function reportToJson(report: QaReport): string {
 export function reportsToJson(reports: QaReport[]): string {
   return JSON.stringify(reports, null, 2);
 }
+
+export function summaryToJson(summary: QaSummary): string {
+  return JSON.stringify({ schemaVersion: REPORT_SCHEMA_VERSION, ...summary }, null, 2);
+}
@@ -0,0 +1,176 @@
+import type {
+  CheckChange,
+  CheckTransition,
+  FileDiff,
+  GeoTiffMetadata,
+  MetadataChange,
+  QaDiff,
+  QaReport,
+  QaResult,
+  QaSummary,
+} from "../types.js";
+
+const NUMBER_TOLERANCE = 1e-9;
+
+function reportKey(report: QaReport): string {
+  return report.relativePath ?? report.fileName;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    if (Number.isNaN(a) && Number.isNaN(b)) return true;
+    return Math.abs(a - b) <= NUMBER_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]));
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((k) =>
+      valuesEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k])
+    );
+  }
+  return a === b || (a == null && b == null);
+}
+
+export function diffMetadata(previous: GeoTiffMetadata, current: GeoTiffMetadata): MetadataChange[] {
+  const prev = previous as unknown as Record<string, unknown>;
+  const curr = current as unknown as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(prev), ...Object.keys(curr)])];
+  return fields
+    .filter((field) => !valuesEqual(prev[field], curr[field]))
+    .map((field) => ({ field, previous: prev[field] ?? null, current: curr[field] ?? null }));
+}
+
+function groupByCheck(results: QaResult[]): Map<string, QaResult[]> {
+  const groups = new Map<string, QaResult[]>();
+  for (const result of results) {
+    const group = groups.get(result.checkId) ?? [];
+    group.push(result);
+    groups.set(result.checkId, group);
+  }
+  return groups;
+}
+
+export function diffResults(previous: QaResult[], current: QaResult[]): CheckChange[] {
+  const before = groupByCheck(previous);
+  const after = groupByCheck(current);
+  const changes: CheckChange[] = [];
+  for (const [checkId, results] of after) {
+    const old = before.get(checkId) ?? [];
+    results.forEach((result, i) => {
+      const prior = old[i];
+      if (prior && prior.passed === result.passed) return;
+      changes.push({
+        checkId: result.checkId,
+        severity: result.severity,
+        transition: !prior ? "added" : result.passed ? "fixed" : "regressed",
+        passed: result.passed,
+        previousMessage: prior?.message ?? null,
+        message: result.message,
+      });
+    });
+  }
+  for (const [checkId, results] of before) {
+    const count = after.get(checkId)?.length ?? 0;
+    for (const prior of results.slice(count)) {
+      changes.push({
+        checkId: prior.checkId,
+        severity: prior.severity,
+        transition: "removed",
+        passed: prior.passed,
+        previousMessage: prior.message,
+        message: null,
+      });
+    }
+  }
+  return changes;
+}
+
+function isRegression(change: CheckChange): boolean {
+  return change.transition === "regressed" || (change.transition === "added" && !change.passed);
+}
+
+export function diffSummaries(previous: QaSummary, current: QaSummary): QaDiff {
+  const before = new Map(previous.reports.map((r) => [reportKey(r), r]));
+  const after = new Map(current.reports.map((r) => [reportKey(r), r]));
+
+  const added = [...after.keys()].filter((key) => !before.has(key)).sort();
+  const removed = [...before.keys()].filter((key) => !after.has(key)).sort();
+  const changed: FileDiff[] = [];
+  let unchanged = 0;
+
+  for (const key of [...after.keys()].sort()) {
+    const prior = before.get(key);
+    if (!prior) continue;
+    const report = after.get(key)!;
+    const checks = diffResults(prior.results, report.results);
+    const metadata = diffMetadata(prior.metadata, report.metadata);
+    if (checks.length === 0 && metadata.length === 0) unchanged++;
+    else changed.push({ file: key, checks, metadata });
+  }
+
+  const batch = diffResults(previous.batch?.results ?? [], current.batch?.results ?? []);
+  const allChecks = [...changed.flatMap((f) => f.checks), ...batch];
+
+  return {
+    added,
+    removed,
+    changed,
+    unchanged,
+    batch,
+    regressed: allChecks.filter(isRegression).length,
+    fixed: allChecks.filter((c) => c.transition === "fixed").length,
+  };
+}
+
+export function diffToJson(diff: QaDiff): string {
+  return JSON.stringify(diff, null, 2);
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? "none" : typeof value === "string" ? value : JSON.stringify(value);
+}
+
+const TRANSITION_LABELS: Record<CheckTransition, string> = {
+  regressed: "pass -> fail",
+  fixed: "fail -> pass",
+  added: "added",
+  removed: "removed",
+};
+
+function formatCheckChange(change: CheckChange, indent: string): string {
+  const status = change.transition === "added" || change.transition === "removed"
+    ? ` (${change.passed ? "pass" : "fail"})`
+    : "";
+  const message = change.message ?? change.previousMessage;
+  return `${indent}${change.checkId} [${change.severity}] ${TRANSITION_LABELS[change.transition]}${status}: ${message}`;
+}
+
+export function formatDiff(diff: QaDiff): string {
+  const lines = [
+    `Files: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged} unchanged`,
+    `Checks: ${diff.regressed} regressed (pass -> fail or new failing check), ${diff.fixed} fixed (fail -> pass)`,
+  ];
+
+  if (diff.added.length > 0) {
+    lines.push("", "Added files:", ...diff.added.map((f) => `  + ${f}`));
+  }
+  if (diff.removed.length > 0) {
+    lines.push("", "Removed files:", ...diff.removed.map((f) => `  - ${f}`));
+  }
+  if (diff.changed.length > 0) {
+    lines.push("", "Changed files:");
+    for (const file of diff.changed) {
+      lines.push(`  ${file.file}`);
+      lines.push(...file.checks.map((c) => formatCheckChange(c, "    ")));
+      lines.push(
+        ...file.metadata.map((m) => `    metadata ${m.field}: ${formatValue(m.previous)} -> ${formatValue(m.current)}`)
+      );
+    }
+  }
+  if (diff.batch.length > 0) {
+    lines.push("", "Batch checks:", ...diff.batch.map((c) => formatCheckChange(c, "  ")));
+  }
+  return lines.join("\n");
+}
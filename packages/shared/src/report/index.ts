@@ -1 +1,11 @@
-export { buildReport, reportToJson, reportsToJson } from "./builder.js";
+export { buildReport, reportToJson, reportsToJson, summaryToJson } from "./builder.js";
+export { diffMetadata, diffResults, diffSummaries, diffToJson, formatDiff } from "./diff.js";
+export {
+  REPORT_SCHEMA_VERSION,
+  QA_RESULT_SCHEMA,
+  QA_REPORT_SCHEMA,
+  QA_SUMMARY_SCHEMA,
+  RUN_MANIFEST_SCHEMA,
+  validateSchema,
+  validateReport,
+} from "./schema.js";
@@ -0,0 +1,305 @@
+import { type JsonSchema, type SchemaError, QaCheckId, QaSeverity } from "../types.js";
+import { VERTICAL_UNITS } from "../formats/vertical.js";
+
+export const REPORT_SCHEMA_VERSION = "1.6.2";
+
+const SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+const MAJOR_VERSION = REPORT_SCHEMA_VERSION.split(".")[0];
+
+const number: JsonSchema = { type: "number" };
+const integer: JsonSchema = { type: "integer", minimum: 0 };
+const nullableNumber: JsonSchema = { type: ["number", "null"] };
+const string: JsonSchema = { type: "string" };
+
+const DEFINITIONS: Record<string, JsonSchema> = {
+  SchemaVersion: {
+    type: "string",
+    pattern: `^${MAJOR_VERSION}\\.\\d+\\.\\d+$`,
+    description: `Report schema version; readers of ${REPORT_SCHEMA_VERSION} accept any ${MAJOR_VERSION}.x.y`,
+  },
+  Extent: {
+    type: "object",
+    properties: { minX: number, minY: number, maxX: number, maxY: number },
+    required: ["minX", "minY", "maxX", "maxY"],
+  },
+  PixelSize: {
+    type: "object",
+    properties: { x: number, y: number },
+    required: ["x", "y"],
+  },
+  RasterTiling: {
+    type: "object",
+    properties: { tiled: { type: "boolean" }, blockWidth: integer, blockHeight: integer },
+    required: ["tiled", "blockWidth", "blockHeight"],
+  },
+  RasterSize: {
+    type: "object",
+    properties: { width: integer, height: integer },
+    required: ["width", "height"],
+  },
+  GeoTiffMetadata: {
+    type: "object",
+    properties: {
+      width: integer,
+      height: integer,
+      bandCount: integer,
+      bitsPerSample: { type: "array", items: integer },
+      sampleFormat: { type: "array", items: integer },
+      noDataValue: nullableNumber,
+      origin: { type: "array", prefixItems: [number, number], minItems: 2, maxItems: 2 },
+      pixelSize: { $ref: "#/$defs/PixelSize" },
+      extent: { $ref: "#/$defs/Extent" },
+      crs: { type: ["string", "null"] },
+      crsWkt: { type: ["string", "null"], description: "WKT of the horizontal CRS when the file embeds one" },
+      format: string,
+      geoTransform: {
+        type: "array",
+        prefixItems: [number, number, number, number, number, number],
+        minItems: 6,
+        maxItems: 6,
+        description: "GDAL-order affine transform: originX, pixel width, row rotation, originY, column rotation, pixel height",
+      },
+      rotation: { type: "number", description: "Rotation of the pixel grid in degrees, 0 for north-up rasters" },
+      rasterType: { enum: ["PixelIsArea", "PixelIsPoint"] },
+      verticalCrs: { type: ["string", "null"] },
+      verticalUnits: { enum: [...VERTICAL_UNITS, null], description: "Units of the elevation values; null when the file does not declare them" },
+      compression: string,
+      tiling: { $ref: "#/$defs/RasterTiling" },
+      overviews: { type: "array", items: { $ref: "#/$defs/RasterSize" } },
+    },
+    required: [
+      "width",
+      "height",
+      "bandCount",
+      "bitsPerSample",
+      "sampleFormat",
+      "noDataValue",
+      "origin",
+      "pixelSize",
+      "extent",
+      "crs",
+    ],
+  },
+  RasterHistogram: {
+    type: "object",
+    properties: { min: number, binWidth: number, counts: { type: "array", items: integer } },
+    required: ["min", "binWidth", "counts"],
+  },
+  RasterPercentile: {
+    type: "object",
+    properties: { percentile: number, value: number },
+    required: ["percentile", "value"],
+  },
+  RasterStatistics: {
+    type: "object",
+    properties: {
+      pixelCount: integer,
+      validCount: integer,
+      noDataCount: integer,
+      invalidCount: integer,
+      min: nullableNumber,
+      max: nullableNumber,
+      mean: nullableNumber,
+      stdDev: nullableNumber,
+      percentiles: { type: "array", items: { $ref: "#/$defs/RasterPercentile" } },
+      histogram: { $ref: "#/$defs/RasterHistogram" },
+    },
+    required: ["pixelCount", "validCount", "noDataCount", "invalidCount", "min", "max", "mean", "stdDev"],
+  },
+  QaResult: {
+    type: "object",
+    properties: {
+      checkId: {
+        type: "string",
+        pattern: "^[A-Z][A-Z0-9_]*$",
+        description: `Check identifier; checks added in later ${MAJOR_VERSION}.x versions are accepted. Known checks: ${Object.values(QaCheckId).join(", ")}`,
+      },
+      severity: { enum: Object.values(QaSeverity) },
+      passed: { type: "boolean" },
+      message: string,
+      details: { type: "object" },
+    },
+    required: ["checkId", "severity", "passed", "message"],
+  },
+  QaReport: {
+    type: "object",
+    properties: {
+      schemaVersion: { $ref: "#/$defs/SchemaVersion" },
+      fileId: string,
+      fileName: string,
+      metadata: { $ref: "#/$defs/GeoTiffMetadata" },
+      results: { type: "array", items: { $ref: "#/$defs/QaResult" } },
+      timestamp: string,
+      duration: number,
+      profile: string,
+      relativePath: string,
+      statistics: { $ref: "#/$defs/RasterStatistics" },
+    },
+    required: ["schemaVersion", "fileId", "fileName", "metadata", "results", "timestamp", "duration"],
+  },
+  BatchQaReport: {
+    type: "object",
+    properties: {
+      fileCount: integer,
+      results: { type: "array", items: { $ref: "#/$defs/QaResult" } },
+      timestamp: string,
+    },
+    required: ["fileCount", "results", "timestamp"],
+  },
+  ManifestFile: {
+    type: "object",
+    properties: { path: string, size: integer, sha256: { type: ["string", "null"], pattern: "^[0-9a-f]{64}$" } },
+    required: ["path", "size", "sha256"],
+  },
+  RunManifest: {
+    type: "object",
+    properties: {
+      schemaVersion: { $ref: "#/$defs/SchemaVersion" },
+      runId: string,
+      tool: {
+        type: "object",
+        properties: { name: string, version: string, node: string },
+        required: ["name", "version", "node"],
+      },
+      arguments: { type: "array", items: string },
+      profile: {
+        type: ["object", "null"],
+        properties: { name: string, version: string, path: string, sha256: { type: ["string", "null"] } },
+        required: ["name", "path", "sha256"],
+      },
+      hostname: string,
+      platform: string,
+      startedAt: string,
+      finishedAt: string,
+      durationMs: integer,
+      inputDir: string,
+      outputDir: string,
+      inputs: { type: "array", items: { $ref: "#/$defs/ManifestFile" } },
+      artifacts: { type: "array", items: { $ref: "#/$defs/ManifestFile" } },
+    },
+    required: [
+      "runId",
+      "tool",
+      "arguments",
+      "profile",
+      "hostname",
+      "platform",
+      "startedAt",
+      "finishedAt",
+      "durationMs",
+      "inputDir",
+      "outputDir",
+      "inputs",
+      "artifacts",
+    ],
+  },
+  QaSummary: {
+    type: "object",
+    description: "summary_report.json; earlier releases wrote a plain array of QaReport objects, which `scan --legacy-summary` still produces",
+    properties: {
+      schemaVersion: { $ref: "#/$defs/SchemaVersion" },
+      manifest: { $ref: "#/$defs/RunManifest" },
+      reports: { type: "array", items: { $ref: "#/$defs/QaReport" } },
+      batch: { $ref: "#/$defs/BatchQaReport" },
+    },
+    required: ["schemaVersion", "reports"],
+  },
+};
+
+function rootSchema(name: string, id: string, title: string): JsonSchema {
+  return {
+    $schema: SCHEMA_DIALECT,
+    $id: `urn:mapqc:schema:${id}:${REPORT_SCHEMA_VERSION}`,
+    title,
+    $ref: `#/$defs/${name}`,
+    $defs: DEFINITIONS,
+  };
+}
+
+export const QA_RESULT_SCHEMA = rootSchema("QaResult", "qa-result", "MapQC check result");
+export const QA_REPORT_SCHEMA = rootSchema("QaReport", "qa-report", "MapQC per-file report (*_report.json)");
+export const QA_SUMMARY_SCHEMA = rootSchema("QaSummary", "qa-summary", "MapQC summary report (summary_report.json)");
+export const RUN_MANIFEST_SCHEMA = rootSchema("RunManifest", "run-manifest", "MapQC run manifest (run_manifest.json)");
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace(/^#\/\$defs\//, "");
+  const schema = root.$defs?.[name];
+  if (!schema) throw new Error(`Unresolved schema reference ${ref}`);
+  return schema;
+}
+
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: SchemaError[]): void {
+  if (schema.$ref) {
+    validateNode(value, resolveRef(schema.$ref, root), root, path, errors);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push({ path, message: `expected ${types.join(" or ")}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.join(", ")}` });
+  }
+  if (schema.pattern && typeof value === "string" && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ path, message: `"${value}" does not match ${schema.pattern}` });
+  }
+  if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} item(s)` });
+    }
+    value.forEach((item, i) => {
+      const itemSchema = schema.prefixItems?.[i] ?? schema.items;
+      if (itemSchema) validateNode(item, itemSchema, root, `${path}[${i}]`, errors);
+    });
+  } else if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push({ path, message: `missing required property "${key}"` });
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(child, propertySchema, root, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path, message: `unexpected property "${key}"` });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(child, schema.additionalProperties, root, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(value, schema, schema, "$", errors);
+  return errors;
+}
+
+export function validateReport(value: unknown): { kind: "summary" | "manifest" | "report"; errors: SchemaError[] } {
+  const isObject = typeof value === "object" && value !== null;
+  if (isObject && "reports" in value) return { kind: "summary", errors: validateSchema(value, QA_SUMMARY_SCHEMA) };
+  if (isObject && "runId" in value) return { kind: "manifest", errors: validateSchema(value, RUN_MANIFEST_SCHEMA) };
+  return { kind: "report", errors: validateSchema(value, QA_REPORT_SCHEMA) };
+}
@@ -0,0 +1,86 @@
+import type { RasterHistogram, RasterPercentile } from "../types.js";
+
+export const DEFAULT_HISTOGRAM_BINS = 64;
+export const DEFAULT_PERCENTILES = [1, 5, 25, 50, 75, 95, 99];
+
+export interface HistogramAccumulator {
+  add(value: number): void;
+  result(): RasterHistogram | null;
+}
+
+export function createHistogram(binCount = DEFAULT_HISTOGRAM_BINS): HistogramAccumulator {
+  let counts = new Float64Array(binCount);
+  let binWidth = 0;
+  let start = 0;
+
+  const rebin = (index: number) => {
+    const lo = Math.min(start, index);
+    const hi = Math.max(start + binCount - 1, index);
+    let factor = 2;
+    while (Math.floor(hi / factor) - Math.floor(lo / factor) + 1 > binCount) factor *= 2;
+
+    const nextStart = Math.floor(lo / factor);
+    const next = new Float64Array(binCount);
+    for (let i = 0; i < binCount; i++) {
+      if (counts[i] > 0) next[Math.floor((start + i) / factor) - nextStart] += counts[i];
+    }
+    counts = next;
+    start = nextStart;
+    binWidth *= factor;
+  };
+
+  return {
+    add(value) {
+      if (binWidth === 0) {
+        binWidth = 2 ** -10;
+        start = Math.floor(value / binWidth) - Math.floor(binCount / 2);
+      }
+      let index = Math.floor(value / binWidth);
+      if (index < start || index >= start + binCount) {
+        rebin(index);
+        index = Math.floor(value / binWidth);
+      }
+      counts[index - start]++;
+    },
+    result() {
+      const first = counts.findIndex((c) => c > 0);
+      if (first === -1) return null;
+      let last = binCount - 1;
+      while (counts[last] === 0) last--;
+      return {
+        min: (start + first) * binWidth,
+        binWidth,
+        counts: Array.from(counts.subarray(first, last + 1)),
+      };
+    },
+  };
+}
+
+export function resampleHistogram(histogram: RasterHistogram, binCount: number, min: number, max: number): RasterHistogram {
+  const binWidth = max > min ? (max - min) / binCount : histogram.binWidth;
+  const counts = new Array<number>(max > min ? binCount : 1).fill(0);
+  histogram.counts.forEach((count, i) => {
+    if (count === 0) return;
+    const center = histogram.min + (i + 0.5) * histogram.binWidth;
+    const index = Math.floor((center - min) / binWidth);
+    counts[Math.max(0, Math.min(counts.length - 1, index))] += count;
+  });
+  return { min, binWidth, counts };
+}
+
+export function histogramPercentiles(histogram: RasterHistogram, percentiles: number[]): RasterPercentile[] {
+  const { min, binWidth, counts } = histogram;
+  const total = counts.reduce((a, b) => a + b, 0);
+  return percentiles.map((percentile) => {
+    const target = (percentile / 100) * total;
+    let cumulative = 0;
+    for (let i = 0; i < counts.length; i++) {
+      if (counts[i] > 0 && cumulative + counts[i] >= target) {
+        const fraction = (target - cumulative) / counts[i];
+        return { percentile, value: min + (i + fraction) * binWidth };
+      }
+      cumulative += counts[i];
+    }
+    return { percentile, value: min + counts.length * binWidth };
+  });
+}
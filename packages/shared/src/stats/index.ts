@@ -0,0 +1,3 @@
+export { createStatisticsSink, computeStatistics, statisticsPercentile, convertStatistics } from "./statistics.js";
+export { DEFAULT_HISTOGRAM_BINS, DEFAULT_PERCENTILES, createHistogram, histogramPercentiles, resampleHistogram } from "./histogram.js";
+export type { HistogramAccumulator } from "./histogram.js";
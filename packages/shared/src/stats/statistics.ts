@@ -0,0 +1,123 @@
+import type {
+  RasterHistogram,
+  RasterPercentile,
+  RasterRowSink,
+  RasterStatistics,
+  StatisticsOptions,
+  VerticalUnit,
+} from "../types.js";
+import { createNoDataTest, feedRows } from "../qa/pixelChecks.js";
+import { metresPerUnit } from "../formats/vertical.js";
+import {
+  DEFAULT_HISTOGRAM_BINS,
+  DEFAULT_PERCENTILES,
+  createHistogram,
+  histogramPercentiles,
+  resampleHistogram,
+} from "./histogram.js";
+
+const FINE_BINS = 65536;
+
+function clampedPercentiles(histogram: RasterHistogram, percentiles: number[], min: number, max: number): RasterPercentile[] {
+  return histogramPercentiles(histogram, percentiles).map(({ percentile, value }) => ({
+    percentile,
+    value: Math.min(max, Math.max(min, value)),
+  }));
+}
+
+export function createStatisticsSink(
+  width: number,
+  noDataValue: number | null,
+  options: StatisticsOptions = {}
+): RasterRowSink<RasterStatistics> {
+  const { histogramBins = DEFAULT_HISTOGRAM_BINS, percentiles = DEFAULT_PERCENTILES } = options;
+  const isNoData = createNoDataTest(noDataValue);
+  let pixelCount = 0;
+  let validCount = 0;
+  let noDataCount = 0;
+  let invalidCount = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let mean = 0;
+  let m2 = 0;
+  const histogram = createHistogram(FINE_BINS);
+
+  return {
+    addRow(values) {
+      pixelCount += width;
+      for (let col = 0; col < width; col++) {
+        const v = values[col];
+        if (isNoData(v)) {
+          noDataCount++;
+          continue;
+        }
+        if (!Number.isFinite(v)) {
+          invalidCount++;
+          continue;
+        }
+        validCount++;
+        if (v < min) min = v;
+        if (v > max) max = v;
+        const delta = v - mean;
+        mean += delta / validCount;
+        m2 += delta * (v - mean);
+        histogram.add(v);
+      }
+    },
+    finish() {
+      const hasData = validCount > 0;
+      const distribution = histogram.result();
+      return {
+        pixelCount,
+        validCount,
+        noDataCount,
+        invalidCount,
+        min: hasData ? min : null,
+        max: hasData ? max : null,
+        mean: hasData ? mean : null,
+        stdDev: hasData ? Math.sqrt(m2 / validCount) : null,
+        ...(distribution && percentiles.length > 0
+          ? { percentiles: clampedPercentiles(distribution, percentiles, min, max) }
+          : {}),
+        ...(distribution ? { histogram: resampleHistogram(distribution, histogramBins, min, max) } : {}),
+      };
+    },
+  };
+}
+
+export function computeStatistics(
+  elevations: ArrayLike<number>,
+  width: number,
+  noDataValue: number | null,
+  options?: StatisticsOptions
+): RasterStatistics {
+  const sink = createStatisticsSink(width, noDataValue, options);
+  feedRows(sink, elevations, width);
+  return sink.finish();
+}
+
+export function statisticsPercentile(stats: RasterStatistics, percentile: number): number | null {
+  return stats.percentiles?.find((p) => p.percentile === percentile)?.value ?? null;
+}
+
+export function convertStatistics(
+  stats: RasterStatistics,
+  from: VerticalUnit | null | undefined,
+  to: VerticalUnit | null | undefined
+): RasterStatistics {
+  const factor = metresPerUnit(from) / metresPerUnit(to);
+  const scale = (value: number | null) => (value === null ? null : value * factor);
+  return {
+    ...stats,
+    min: scale(stats.min),
+    max: scale(stats.max),
+    mean: scale(stats.mean),
+    stdDev: scale(stats.stdDev),
+    ...(stats.percentiles
+      ? { percentiles: stats.percentiles.map(({ percentile, value }) => ({ percentile, value: value * factor })) }
+      : {}),
+    ...(stats.histogram
+      ? { histogram: { ...stats.histogram, min: stats.histogram.min * factor, binWidth: stats.histogram.binWidth * factor } }
+      : {}),
+  };
+}
@@ -10,6 +10,58 @@ export interface PixelSize {
   y: number;
 }
 
+export type GeoTransform = [number, number, number, number, number, number];
+
+export type RasterType = "PixelIsArea" | "PixelIsPoint";
+
+export type VerticalUnit = "metre" | "foot" | "us-survey-foot";
+
+export interface RasterTiling {
+  tiled: boolean;
+  blockWidth: number;
+  blockHeight: number;
+}
+
+export interface RasterSize {
+  width: number;
+  height: number;
+}
+
+export interface TiffImageLayout {
+  ifdOffset: number;
+  width: number;
+  height: number;
+  subfileType: number;
+  tiled: boolean;
+  blockWidth: number;
+  blockHeight: number;
+  compression: number;
+  blockOffsets: number[];
+  blockByteCounts: number[];
+}
+
+export interface TiffStructure {
+  bigTiff: boolean;
+  images: TiffImageLayout[];
+  ghost: Record<string, string> | null;
+}
+
+export type CogRule =
+  | "tiling"
+  | "overviews"
+  | "ifd-order"
+  | "overview-order"
+  | "tile-order"
+  | "block-size"
+  | "compression";
+
+export interface CogViolation {
+  rule: CogRule;
+  severity: QaSeverity;
+  message: string;
+  image?: number;
+}
+
 export interface GeoTiffMetadata {
   width: number;
   height: number;
@@ -21,15 +73,76 @@ export interface GeoTiffMetadata {
   pixelSize: PixelSize;
   extent: Extent;
   crs: string | null;
+  crsWkt?: string | null;
+  format?: string;
+  geoTransform?: GeoTransform;
+  rotation?: number;
+  rasterType?: RasterType;
+  verticalCrs?: string | null;
+  verticalUnits?: VerticalUnit | null;
+  compression?: string;
+  tiling?: RasterTiling;
+  overviews?: RasterSize[];
+}
+
+export type FormatId =
+  | "geotiff"
+  | "cog"
+  | "erdas"
+  | "netcdf"
+  | "xyz"
+  | "usgsdem"
+  | "dted"
+  | "las"
+  | "jp2"
+  | "worldfile"
+  | "gpkg"
+  | "ecw"
+  | "mrsid"
+  | "esrigrid"
+  | "hdf"
+  | "unknown";
+
+export interface FormatInfo {
+  id: FormatId;
+  name: string;
+  extensions: string[];
+  supported: boolean;
+  description: string;
+}
+
+export interface ParsedRaster {
+  metadata: GeoTiffMetadata;
+  elevations: Float32Array;
 }
 
 export enum QaCheckId {
   PIXEL_SIZE = "PIXEL_SIZE",
   EXTENT = "EXTENT",
+  ROTATION = "ROTATION",
   BAND_COUNT = "BAND_COUNT",
   NODATA = "NODATA",
   BIT_DEPTH = "BIT_DEPTH",
   CRS = "CRS",
+  VOIDS = "VOIDS",
+  SPIKES = "SPIKES",
+  FLAT_AREAS = "FLAT_AREAS",
+  INVALID_VALUES = "INVALID_VALUES",
+  ELEVATION_RANGE = "ELEVATION_RANGE",
+  EXPECTED_CRS = "EXPECTED_CRS",
+  EXPECTED_PIXEL_SIZE = "EXPECTED_PIXEL_SIZE",
+  EXPECTED_BIT_DEPTH = "EXPECTED_BIT_DEPTH",
+  AOI_CONTAINMENT = "AOI_CONTAINMENT",
+  SIDECARS = "SIDECARS",
+  COG = "COG",
+  BATCH_CRS = "BATCH_CRS",
+  BATCH_PIXEL_SIZE = "BATCH_PIXEL_SIZE",
+  BATCH_BIT_DEPTH = "BATCH_BIT_DEPTH",
+  BATCH_NODATA = "BATCH_NODATA",
+  TILE_OVERLAP = "TILE_OVERLAP",
+  TILE_GAPS = "TILE_GAPS",
+  GRID_ALIGNMENT = "GRID_ALIGNMENT",
+  EDGE_SEAMS = "EDGE_SEAMS",
 }
 
 export enum QaSeverity {
@@ -46,17 +159,272 @@ export interface QaResult {
   details?: Record<string, unknown>;
 }
 
+export interface PixelCheckOptions {
+  maxVoidPercent: number;
+  spikeThreshold: number;
+  flatAreaMinPixels: number;
+  maxLocations: number;
+}
+
+export interface RasterRowSink<T> {
+  addRow(values: ArrayLike<number>, row: number): void;
+  finish(): T;
+}
+
+export interface RasterHistogram {
+  min: number;
+  binWidth: number;
+  counts: number[];
+}
+
+export interface RasterPercentile {
+  percentile: number;
+  value: number;
+}
+
+export interface StatisticsOptions {
+  histogramBins?: number;
+  percentiles?: number[];
+}
+
+export interface RasterStatistics {
+  pixelCount: number;
+  validCount: number;
+  noDataCount: number;
+  invalidCount: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  stdDev: number | null;
+  percentiles?: RasterPercentile[];
+  histogram?: RasterHistogram;
+}
+
+export interface RasterThumbnail {
+  width: number;
+  height: number;
+  cellSizeX: number;
+  cellSizeY: number;
+  values: Float32Array;
+}
+
+export interface PixelLocation {
+  row: number;
+  col: number;
+  value: number;
+}
+
+export interface PixelRegion {
+  pixelCount: number;
+  minRow: number;
+  minCol: number;
+  maxRow: number;
+  maxCol: number;
+  value?: number;
+  touchesEdge: boolean;
+}
+
+export interface BatchCheckOptions {
+  seamThreshold: number;
+  gridAlignmentTolerance: number;
+  maxLocations: number;
+}
+
+export interface TileEdges {
+  width: number;
+  height: number;
+  top: Float32Array;
+  bottom: Float32Array;
+  left: Float32Array;
+  right: Float32Array;
+}
+
+export interface QaCheckRule {
+  enabled?: boolean;
+  severity?: QaSeverity;
+}
+
+export interface QaThresholds extends Partial<PixelCheckOptions>, Partial<BatchCheckOptions> {
+  maxPixelSize?: number;
+  validBitDepths?: number[];
+  minElevation?: number;
+  maxElevation?: number;
+}
+
+export type Position = [number, number];
+
+export interface AoiPolygon {
+  type: "Polygon";
+  coordinates: Position[][];
+  crs?: string;
+}
+
+export interface AoiMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: Position[][][];
+  crs?: string;
+}
+
+export type Aoi = Extent | AoiPolygon | AoiMultiPolygon;
+
+export interface QaExpectations {
+  crs?: string;
+  pixelSize?: PixelSize & { tolerance?: number };
+  bitDepth?: number;
+  aoi?: Aoi;
+}
+
+export interface QaProfile {
+  name: string;
+  version?: string;
+  description?: string;
+  checks?: Partial<Record<QaCheckId, QaCheckRule>>;
+  thresholds?: QaThresholds;
+  expected?: QaExpectations;
+}
+
+export interface RunChecksOptions {
+  profile?: QaProfile;
+  elevations?: ArrayLike<number>;
+  statistics?: RasterStatistics;
+  tiff?: TiffStructure;
+}
+
+export interface RunBatchChecksOptions {
+  profile?: QaProfile;
+  edges?: Map<string, TileEdges>;
+}
+
 export interface QaReport {
+  schemaVersion: string;
   fileId: string;
   fileName: string;
   metadata: GeoTiffMetadata;
   results: QaResult[];
   timestamp: string;
   duration: number;
+  profile?: string;
+  relativePath?: string;
+  statistics?: RasterStatistics;
+}
+
+export interface BatchQaReport {
+  fileCount: number;
+  results: QaResult[];
+  timestamp: string;
+}
+
+export interface ManifestFile {
+  path: string;
+  size: number;
+  sha256: string | null;
+}
+
+export interface RunManifest {
+  schemaVersion?: string;
+  runId: string;
+  tool: { name: string; version: string; node: string };
+  arguments: string[];
+  profile: { name: string; version?: string; path: string; sha256: string | null } | null;
+  hostname: string;
+  platform: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  inputDir: string;
+  outputDir: string;
+  inputs: ManifestFile[];
+  artifacts: ManifestFile[];
+}
+
+export interface QaSummary {
+  schemaVersion?: string;
+  manifest?: RunManifest;
+  reports: QaReport[];
+  batch?: BatchQaReport;
+}
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+export type CheckTransition = "regressed" | "fixed" | "added" | "removed";
+
+export interface CheckChange {
+  checkId: QaCheckId;
+  severity: QaSeverity;
+  transition: CheckTransition;
+  passed: boolean;
+  previousMessage: string | null;
+  message: string | null;
+}
+
+export interface MetadataChange {
+  field: string;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface FileDiff {
+  file: string;
+  checks: CheckChange[];
+  metadata: MetadataChange[];
+}
+
+export interface QaDiff {
+  added: string[];
+  removed: string[];
+  changed: FileDiff[];
+  unchanged: number;
+  batch: CheckChange[];
+  regressed: number;
+  fixed: number;
+}
+
+export interface ScanOptions {
+  recursive?: boolean;
+  include?: string[];
+  exclude?: string[];
+  followSymlinks?: boolean;
+  maxDepth?: number;
+  listFile?: string;
+}
+
+export interface CacheOptions {
+  dir: string;
+  hashContents: boolean;
 }
 
 export interface RunConfig {
   inputDir: string;
   outputDir: string;
   sidecars: "error" | "warn" | "ignore";
+  profile?: QaProfile;
+  scan?: ScanOptions;
+  maxMemoryMb?: number;
+  thumbnails?: boolean;
+  cache?: CacheOptions;
+  histogramBins?: number;
+  legacySummary?: boolean;
 }